@@ -12,8 +12,14 @@ const project = new awscdk.AwsCdkTypeScriptApp({
     'cdk-nag@^2.28.0',
     '@aws-sdk/client-s3',
     '@aws-sdk/client-sqs',
+    '@aws-sdk/client-sts',
     '@aws-sdk/client-eventbridge',
     '@aws-sdk/client-lambda',
+    '@aws-sdk/client-dynamodb',
+    '@aws-lambda-powertools/logger',
+    '@aws-lambda-powertools/metrics',
+    '@aws-lambda-powertools/tracer',
+    'yaml',
   ],
 
   devDeps: [
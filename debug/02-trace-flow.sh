@@ -249,7 +249,7 @@ if (( $(echo "$STEP2_TRIGGERED > 0" | bc -l) )); then
     echo "This is the MOST COMMON issue - SQS queue policy blocking EventBridge!"
     echo ""
     echo "SOLUTION: Redeploy the RPS stack to apply the correct SQS policy:"
-    echo "  cdk deploy ${STAGE}-StackRps --profile ${RPS_PROFILE:-rps-account}"
+    echo "  cdk deploy --exclusively ${STAGE}-StackRps --profile ${RPS_PROFILE:-rps-account}"
     echo ""
     echo "The code already has the fix (uses aws:SourceArn), but if you deployed"
     echo "before this fix, the queue still has the old policy."
@@ -37,7 +37,7 @@ else
   echo "❌ FAIL: Input bucket EventBridge notifications NOT enabled"
   echo ""
   echo "SOLUTION: Redeploy Core Stack"
-  echo "  cdk deploy ${STAGE}-StackCore --profile ${CORE_PROFILE:-core-account}"
+  echo "  cdk deploy --exclusively ${STAGE}-StackCore --profile ${CORE_PROFILE:-core-account}"
   FAILED=1
 fi
 
@@ -72,7 +72,7 @@ else
   echo "❌ FAIL: Rule state is '$RULE_STATE' (expected ENABLED)"
   echo ""
   echo "SOLUTION: Check if rule exists and redeploy if needed"
-  echo "  cdk deploy ${STAGE}-StackCore --profile ${CORE_PROFILE:-core-account}"
+  echo "  cdk deploy --exclusively ${STAGE}-StackCore --profile ${CORE_PROFILE:-core-account}"
   FAILED=1
 fi
 echo ""
@@ -104,7 +104,7 @@ else
   echo "  Bucket: $BUCKET_CHECK (expected: $INPUT_BUCKET_NAME)"
   echo ""
   echo "SOLUTION: Redeploy Core Stack"
-  echo "  cdk deploy ${STAGE}-StackCore --profile ${CORE_PROFILE:-core-account}"
+  echo "  cdk deploy --exclusively ${STAGE}-StackCore --profile ${CORE_PROFILE:-core-account}"
   FAILED=1
 fi
 echo ""
@@ -135,7 +135,7 @@ else
   echo "  Actual:   $ACTUAL_TARGET"
   echo ""
   echo "SOLUTION: Redeploy Core Stack with correct RPS account ID"
-  echo "  cdk deploy ${STAGE}-StackCore --profile ${CORE_PROFILE:-core-account}"
+  echo "  cdk deploy --exclusively ${STAGE}-StackCore --profile ${CORE_PROFILE:-core-account}"
   FAILED=1
 fi
 echo ""
@@ -178,7 +178,7 @@ else
   echo "❌ FAIL: S3AccessRole does not exist"
   echo ""
   echo "SOLUTION: Redeploy Core Stack"
-  echo "  cdk deploy ${STAGE}-StackCore --profile ${CORE_PROFILE:-core-account}"
+  echo "  cdk deploy --exclusively ${STAGE}-StackCore --profile ${CORE_PROFILE:-core-account}"
   FAILED=1
 fi
 echo ""
@@ -289,7 +289,7 @@ else
   echo "❌ FAIL: IAM role does not exist"
   echo ""
   echo "SOLUTION: Redeploy Core Stack"
-  echo "  cdk deploy ${STAGE}-StackCore --profile ${CORE_PROFILE:-core-account}"
+  echo "  cdk deploy --exclusively ${STAGE}-StackCore --profile ${CORE_PROFILE:-core-account}"
   FAILED=1
 fi
 echo ""
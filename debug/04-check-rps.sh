@@ -39,7 +39,7 @@ else
   echo "❌ FAIL: Event bus does not exist"
   echo ""
   echo "SOLUTION: Redeploy RPS Stack"
-  echo "  cdk deploy ${STAGE}-StackRps --profile ${RPS_PROFILE:-rps-account}"
+  echo "  cdk deploy --exclusively ${STAGE}-StackRps --profile ${RPS_PROFILE:-rps-account}"
   FAILED=1
 fi
 echo ""
@@ -72,7 +72,7 @@ else
   echo "❌ FAIL: No event bus policy found"
   echo ""
   echo "SOLUTION: Redeploy RPS Stack"
-  echo "  cdk deploy ${STAGE}-StackRps --profile ${RPS_PROFILE:-rps-account}"
+  echo "  cdk deploy --exclusively ${STAGE}-StackRps --profile ${RPS_PROFILE:-rps-account}"
   FAILED=1
 fi
 echo ""
@@ -97,7 +97,7 @@ else
   echo "❌ FAIL: Rule state is '$RULE_STATE' (expected ENABLED)"
   echo ""
   echo "SOLUTION: Redeploy RPS Stack"
-  echo "  cdk deploy ${STAGE}-StackRps --profile ${RPS_PROFILE:-rps-account}"
+  echo "  cdk deploy --exclusively ${STAGE}-StackRps --profile ${RPS_PROFILE:-rps-account}"
   FAILED=1
 fi
 echo ""
@@ -193,7 +193,7 @@ else
   echo "❌ FAIL: Queue does not exist"
   echo ""
   echo "SOLUTION: Redeploy RPS Stack"
-  echo "  cdk deploy ${STAGE}-StackRps --profile ${RPS_PROFILE:-rps-account}"
+  echo "  cdk deploy --exclusively ${STAGE}-StackRps --profile ${RPS_PROFILE:-rps-account}"
   FAILED=1
 fi
 echo ""
@@ -224,7 +224,7 @@ if [ -n "$QUEUE_URL" ]; then
       echo "  Condition: aws:SourceAccount = $SOURCE_ACCOUNT"
       echo ""
       echo "SOLUTION: Redeploy RPS Stack to fix the policy"
-      echo "  cdk deploy ${STAGE}-StackRps --profile ${RPS_PROFILE:-rps-account}"
+      echo "  cdk deploy --exclusively ${STAGE}-StackRps --profile ${RPS_PROFILE:-rps-account}"
       FAILED=1
     else
       # Check for correct condition (aws:SourceArn)
@@ -265,7 +265,7 @@ else
   echo "❌ FAIL: Lambda function does not exist"
   echo ""
   echo "SOLUTION: Redeploy RPS Stack"
-  echo "  cdk deploy ${STAGE}-StackRps --profile ${RPS_PROFILE:-rps-account}"
+  echo "  cdk deploy --exclusively ${STAGE}-StackRps --profile ${RPS_PROFILE:-rps-account}"
   FAILED=1
 fi
 echo ""
@@ -345,7 +345,7 @@ if [ "$S3_READ_FOUND" = false ]; then
   echo "❌ FAIL: Missing S3 read permissions for Core input bucket"
   echo ""
   echo "SOLUTION: Redeploy RPS Stack"
-  echo "  cdk deploy ${STAGE}-StackRps --profile ${RPS_PROFILE:-rps-account}"
+  echo "  cdk deploy --exclusively ${STAGE}-StackRps --profile ${RPS_PROFILE:-rps-account}"
   FAILED=1
 fi
 echo ""
@@ -386,7 +386,7 @@ if [ "$S3_WRITE_FOUND" = false ]; then
   echo "❌ FAIL: Missing S3 write permissions for Core output bucket"
   echo ""
   echo "SOLUTION: Redeploy RPS Stack"
-  echo "  cdk deploy ${STAGE}-StackRps --profile ${RPS_PROFILE:-rps-account}"
+  echo "  cdk deploy --exclusively ${STAGE}-StackRps --profile ${RPS_PROFILE:-rps-account}"
   FAILED=1
 fi
 echo ""
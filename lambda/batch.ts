@@ -0,0 +1,92 @@
+/**
+ * Bounded-concurrency batch processing against the Lambda deadline
+ *
+ * Records run `concurrency` at a time. Each record gets the time left before the invocation's deadline minus
+ * a safety margin (reserved for returning batchItemFailures and flushing metrics); when it runs out the record's
+ * AbortSignal fires and the record is reported as timed out. Records that would start with less than
+ * minRecordTimeMs left are not started at all. Either way the caller can return them as batch item failures
+ * instead of letting the whole invocation time out.
+ */
+export interface BatchOptions {
+  readonly concurrency: number;
+  readonly getRemainingTimeInMillis: () => number; // Lambda context.getRemainingTimeInMillis
+  readonly safetyMarginMs: number;
+  readonly minRecordTimeMs: number;
+}
+
+export type RecordOutcome =
+  | { readonly status: 'succeeded' }
+  | { readonly status: 'failed'; readonly error: unknown }
+  | { readonly status: 'timed-out'; readonly timeoutMs: number }
+  | { readonly status: 'not-started'; readonly remainingMs: number };
+
+/**
+ * Abort reason passed to a record's AbortSignal when its time budget runs out
+ */
+export class RecordTimeoutError extends Error {
+  constructor(public readonly timeoutMs: number) {
+    super(`Record did not finish within ${timeoutMs} ms before the Lambda deadline`);
+    this.name = 'RecordTimeoutError';
+  }
+}
+
+/**
+ * Run worker for every item; outcomes are returned in item order
+ */
+export async function processBatch<T>(
+  items: readonly T[],
+  worker: (item: T, abortSignal: AbortSignal) => Promise<void>,
+  options: BatchOptions,
+): Promise<RecordOutcome[]> {
+  if (!Number.isInteger(options.concurrency) || options.concurrency < 1) {
+    throw new Error(`Batch concurrency must be a positive integer, got: ${options.concurrency}`);
+  }
+
+  const outcomes: RecordOutcome[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const runLane = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      outcomes[index] = await runWithDeadline(items[index], worker, options);
+    }
+  };
+
+  const lanes = Math.max(1, Math.min(options.concurrency, items.length));
+  await Promise.all(Array.from({ length: lanes }, runLane));
+
+  return outcomes;
+}
+
+async function runWithDeadline<T>(
+  item: T,
+  worker: (item: T, abortSignal: AbortSignal) => Promise<void>,
+  options: BatchOptions,
+): Promise<RecordOutcome> {
+  const remainingMs = options.getRemainingTimeInMillis() - options.safetyMarginMs;
+  if (remainingMs < options.minRecordTimeMs) {
+    return { status: 'not-started', remainingMs };
+  }
+
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+
+  const timedOut = new Promise<RecordOutcome>((resolve) => {
+    timer = setTimeout(() => {
+      controller.abort(new RecordTimeoutError(remainingMs));
+      resolve({ status: 'timed-out', timeoutMs: remainingMs });
+    }, remainingMs);
+  });
+
+  // Settles to an outcome, so a worker failing after its timeout never becomes an unhandled rejection
+  const finished = worker(item, controller.signal).then(
+    (): RecordOutcome => ({ status: 'succeeded' }),
+    (error): RecordOutcome => ({ status: 'failed', error }),
+  );
+
+  try {
+    return await Promise.race([finished, timedOut]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
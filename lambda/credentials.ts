@@ -0,0 +1,108 @@
+import { randomBytes } from 'crypto';
+import { AssumeRoleCommand, STSClient } from '@aws-sdk/client-sts';
+import { logger } from './observability';
+
+export interface AssumeRoleProviderOptions {
+  readonly roleArn: string;
+  readonly sessionNamePrefix: string; // Identifies the deployment in CloudTrail (e.g. 'dev-john-processor')
+  readonly externalId?: string; // Must match the sts:ExternalId condition on the role's trust policy
+  readonly sessionTags?: Record<string, string>; // Session tags, e.g. { deployment: 'john' } for deployment-scoped grants
+  readonly durationSeconds?: number; // Default: 3600 (the role's maximum session duration)
+  readonly refreshBeforeExpirySeconds?: number; // Default: 300
+}
+
+/**
+ * Shape of an AWS SDK v3 credential identity - the provider can be passed as a client's `credentials`
+ */
+export interface TemporaryCredentials {
+  readonly accessKeyId: string;
+  readonly secretAccessKey: string;
+  readonly sessionToken: string;
+  readonly expiration: Date;
+}
+
+// RoleSessionName: 2-64 characters of [\w+=,.@-]
+const MAX_SESSION_NAME_LENGTH = 64;
+
+/**
+ * {prefix}-{instanceId}-{sequence}, with the prefix shortened so the traceable suffix always fits
+ */
+export function roleSessionName(prefix: string, instanceId: string, sequence: number): string {
+  const suffix = `-${instanceId}-${sequence}`;
+  const safePrefix = prefix.replace(/[^\w+=,.@-]/g, '-').slice(0, MAX_SESSION_NAME_LENGTH - suffix.length);
+  return `${safePrefix}${suffix}`;
+}
+
+/**
+ * Lambda execution environment ID from the log stream name ('2026/01/01/[$LATEST]0123abcd...'), so a CloudTrail
+ * AssumeRole event leads to the log stream of the container that made it. Random outside Lambda.
+ */
+export function executionEnvironmentId(logStreamName: string | undefined = process.env.AWS_LAMBDA_LOG_STREAM_NAME): string {
+  const streamId = logStreamName?.split(']').pop();
+  return streamId && /^[0-9a-f]{12,}$/i.test(streamId) ? streamId.slice(0, 12) : randomBytes(6).toString('hex');
+}
+
+/**
+ * Assumes a role and keeps its credentials fresh
+ *
+ * Credentials are refreshed refreshBeforeExpirySeconds before they expire, so requests late in a long batch
+ * never use expired credentials. Concurrent callers share one in-flight AssumeRole call.
+ * Pass `provide` as an SDK client's `credentials` to let one long-lived client pick up refreshed credentials.
+ */
+export class AssumeRoleCredentialProvider {
+  private cached?: TemporaryCredentials;
+  private pending?: Promise<TemporaryCredentials>;
+  private sessionCount = 0;
+
+  constructor(
+    private readonly client: Pick<STSClient, 'send'>,
+    private readonly options: AssumeRoleProviderOptions,
+    private readonly instanceId: string = executionEnvironmentId(),
+  ) {}
+
+  readonly provide = (): Promise<TemporaryCredentials> => this.getCredentials();
+
+  async getCredentials(now: Date = new Date()): Promise<TemporaryCredentials> {
+    const refreshBeforeMs = (this.options.refreshBeforeExpirySeconds ?? 300) * 1000;
+    if (this.cached && now.getTime() < this.cached.expiration.getTime() - refreshBeforeMs) {
+      return this.cached;
+    }
+
+    if (!this.pending) {
+      this.pending = this.assumeRole().finally(() => {
+        this.pending = undefined;
+      });
+    }
+    return this.pending;
+  }
+
+  private async assumeRole(): Promise<TemporaryCredentials> {
+    this.sessionCount += 1;
+    const sessionName = roleSessionName(this.options.sessionNamePrefix, this.instanceId, this.sessionCount);
+
+    const response = await this.client.send(new AssumeRoleCommand({
+      RoleArn: this.options.roleArn,
+      RoleSessionName: sessionName,
+      DurationSeconds: this.options.durationSeconds ?? 3600,
+      ...(this.options.externalId && { ExternalId: this.options.externalId }),
+      ...(this.options.sessionTags && {
+        Tags: Object.entries(this.options.sessionTags).map(([Key, Value]) => ({ Key, Value })),
+      }),
+    }));
+
+    const credentials = response.Credentials;
+    if (!credentials?.AccessKeyId || !credentials.SecretAccessKey || !credentials.SessionToken || !credentials.Expiration) {
+      throw new Error(`Failed to assume role ${this.options.roleArn}: no credentials returned`);
+    }
+
+    logger.info('Assumed role', { roleArn: this.options.roleArn, sessionName, expiresAt: credentials.Expiration.toISOString() });
+
+    this.cached = {
+      accessKeyId: credentials.AccessKeyId,
+      secretAccessKey: credentials.SecretAccessKey,
+      sessionToken: credentials.SessionToken,
+      expiration: credentials.Expiration,
+    };
+    return this.cached;
+  }
+}
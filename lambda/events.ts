@@ -0,0 +1,149 @@
+import { PermanentFailureError } from './failures';
+
+/**
+ * Runtime validation of the EventBridge S3 events the processor receives from SQS
+ *
+ * Message bodies come from another account (or the backfill and redrive tooling), so their shape is checked
+ * instead of assumed: parseS3Event validates every field the processor reads and URL-decodes the object key.
+ * A body that fails validation fails the same way on every delivery, so it is a permanent failure.
+ */
+export const OBJECT_CREATED = 'Object Created';
+export const OBJECT_DELETED = 'Object Deleted';
+
+interface S3EventBase {
+  readonly id: string; // EventBridge event ID
+  readonly time: Date; // When S3 emitted the event (backfill: the object's last-modified time)
+  readonly bucket: string;
+  readonly key: string; // URL-decoded
+  readonly versionId?: string; // Only present for versioned buckets
+  readonly sequencer: string; // Orders events for the same key (hex string, compare after left-padding)
+}
+
+export interface ObjectCreatedEvent extends S3EventBase {
+  readonly detailType: typeof OBJECT_CREATED;
+  readonly size: number;
+  readonly etag: string;
+  readonly backfillRunId?: string; // Set by the backfill command (src/backfill.ts) instead of S3
+}
+
+export interface ObjectDeletedEvent extends S3EventBase {
+  readonly detailType: typeof OBJECT_DELETED;
+  readonly deletionType?: string; // 'Permanently Deleted' or 'Delete Marker Created'
+}
+
+export type S3Event = ObjectCreatedEvent | ObjectDeletedEvent;
+
+/**
+ * Message body is not a valid EventBridge S3 event - lists every problem found
+ */
+export class InvalidEventError extends PermanentFailureError {
+  constructor(public readonly errors: string[]) {
+    super(`Invalid S3 event: ${errors.join('; ')}`);
+    this.name = 'InvalidEventError';
+  }
+}
+
+interface FieldRule {
+  readonly path: string[];
+  readonly expected: string;
+  readonly check: (value: unknown) => boolean;
+  readonly optional?: boolean;
+}
+
+const isNonEmptyString = (value: unknown): boolean => typeof value === 'string' && value.length > 0;
+
+const COMMON_FIELDS: FieldRule[] = [
+  { path: ['id'], expected: 'a non-empty string', check: isNonEmptyString },
+  { path: ['source'], expected: '\'aws.s3\'', check: (value) => value === 'aws.s3' },
+  { path: ['time'], expected: 'an ISO 8601 timestamp', check: (value) => typeof value === 'string' && !Number.isNaN(Date.parse(value)) },
+  { path: ['detail', 'bucket', 'name'], expected: 'a non-empty string', check: isNonEmptyString },
+  { path: ['detail', 'object', 'key'], expected: 'a non-empty string', check: isNonEmptyString },
+  { path: ['detail', 'object', 'sequencer'], expected: 'a hex string', check: (value) => typeof value === 'string' && /^[0-9A-Fa-f]+$/.test(value) },
+  { path: ['detail', 'object', 'version-id'], expected: 'a non-empty string', check: isNonEmptyString, optional: true },
+];
+
+const OBJECT_CREATED_FIELDS: FieldRule[] = [
+  { path: ['detail', 'object', 'size'], expected: 'a non-negative integer', check: (value) => Number.isInteger(value) && (value as number) >= 0 },
+  { path: ['detail', 'object', 'etag'], expected: 'a non-empty string', check: isNonEmptyString },
+  { path: ['detail', 'backfill-run-id'], expected: 'a non-empty string', check: isNonEmptyString, optional: true },
+];
+
+const OBJECT_DELETED_FIELDS: FieldRule[] = [
+  { path: ['detail', 'deletion-type'], expected: 'a non-empty string', check: isNonEmptyString, optional: true },
+];
+
+/**
+ * Parse and validate an SQS message body - throws InvalidEventError
+ */
+export function parseS3Event(body: string): S3Event {
+  let event: unknown;
+  try {
+    event = JSON.parse(body);
+  } catch (error) {
+    throw new InvalidEventError([`body is not valid JSON (${(error as Error).message})`]);
+  }
+  if (typeof event !== 'object' || event === null || Array.isArray(event)) {
+    throw new InvalidEventError(['body is not a JSON object']);
+  }
+
+  const detailType = valueAt(event, ['detail-type']);
+  if (detailType !== OBJECT_CREATED && detailType !== OBJECT_DELETED) {
+    throw new InvalidEventError([`detail-type must be '${OBJECT_CREATED}' or '${OBJECT_DELETED}', got: ${JSON.stringify(detailType)}`]);
+  }
+
+  const rules = [...COMMON_FIELDS, ...(detailType === OBJECT_CREATED ? OBJECT_CREATED_FIELDS : OBJECT_DELETED_FIELDS)];
+  const errors = rules
+    .filter((rule) => {
+      const value = valueAt(event, rule.path);
+      return !(rule.optional && value === undefined) && !rule.check(value);
+    })
+    .map((rule) => `${rule.path.join('.')} must be ${rule.expected}`);
+
+  const rawKey = valueAt(event, ['detail', 'object', 'key']);
+  const key = typeof rawKey === 'string' ? decodeS3Key(rawKey) : undefined;
+  if (typeof rawKey === 'string' && key === undefined) {
+    errors.push('detail.object.key is not a valid URL-encoded key');
+  }
+
+  if (errors.length > 0) {
+    throw new InvalidEventError(errors);
+  }
+
+  const field = (...path: string[]) => valueAt(event, path) as string;
+  const base = {
+    id: field('id'),
+    time: new Date(field('time')),
+    bucket: field('detail', 'bucket', 'name'),
+    key: key!,
+    versionId: field('detail', 'object', 'version-id'),
+    sequencer: field('detail', 'object', 'sequencer'),
+  };
+
+  return detailType === OBJECT_CREATED
+    ? {
+      ...base,
+      detailType,
+      size: valueAt(event, ['detail', 'object', 'size']) as number,
+      etag: field('detail', 'object', 'etag'),
+      backfillRunId: field('detail', 'backfill-run-id'),
+    }
+    : { ...base, detailType, deletionType: field('detail', 'deletion-type') };
+}
+
+/**
+ * S3 event keys are URL-encoded with '+' for spaces ('my+file%281%29.csv' -> 'my file(1).csv')
+ */
+export function decodeS3Key(key: string): string | undefined {
+  try {
+    return decodeURIComponent(key.replace(/\+/g, ' '));
+  } catch {
+    return undefined;
+  }
+}
+
+function valueAt(source: unknown, path: string[]): unknown {
+  return path.reduce<unknown>(
+    (current, segment) => (typeof current === 'object' && current !== null ? (current as Record<string, unknown>)[segment] : undefined),
+    source,
+  );
+}
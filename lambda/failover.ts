@@ -0,0 +1,30 @@
+/**
+ * Core disaster-recovery failover
+ *
+ * In DR mode every pipeline route also names the pipeline's replica buckets (StackCoreReplica). While failed over
+ * (CORE_FAILOVER), the processor reads and writes the replica buckets in CORE_REPLICA_REGION - events arrive from the
+ * replica input bucket through the Core standby path. Replicas keep the version IDs of their source objects.
+ */
+export interface ReplicatedRoute {
+  readonly name: string;
+  readonly inputBucketName: string;
+  readonly outputBucketName: string;
+  readonly replicaInputBucketName?: string;
+  readonly replicaOutputBucketName?: string;
+}
+
+/**
+ * Routes the processor uses - the replica bucket names replace the primary ones while failed over
+ * Throws at container start when a route has no replicas, rather than failing every record
+ */
+export function activeRoutes<T extends ReplicatedRoute>(routes: T[], failover: boolean): T[] {
+  if (!failover) {
+    return routes;
+  }
+  return routes.map((route) => {
+    if (!route.replicaInputBucketName || !route.replicaOutputBucketName) {
+      throw new Error(`Failover requires replica buckets for every pipeline, missing for pipeline '${route.name}'`);
+    }
+    return { ...route, inputBucketName: route.replicaInputBucketName, outputBucketName: route.replicaOutputBucketName };
+  });
+}
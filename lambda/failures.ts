@@ -0,0 +1,56 @@
+import { SQSRecord } from 'aws-lambda';
+import { SendMessageCommand, SQSClient } from '@aws-sdk/client-sqs';
+
+/**
+ * Permanent vs transient processing failures
+ *
+ * Transient failures (throttling, timeouts, a ledger claim held by another invocation) are returned in
+ * batchItemFailures and retried by SQS. Permanent failures fail the same way on every delivery - those messages
+ * are moved to the pipeline's quarantine queue right away instead of being retried into the DLQ.
+ */
+export class PermanentFailureError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'PermanentFailureError';
+  }
+}
+
+// S3 errors that repeat on every retry: the event's object version is gone, replaced or archived
+const PERMANENT_S3_ERRORS = ['NoSuchKey', 'NoSuchVersion', 'PreconditionFailed', 'InvalidObjectState'];
+
+export function isPermanentFailure(error: unknown): boolean {
+  if (error instanceof PermanentFailureError) {
+    return true;
+  }
+  const name = (error as { name?: unknown } | undefined)?.name;
+  return typeof name === 'string' && PERMANENT_S3_ERRORS.includes(name);
+}
+
+// SQS message attribute values are limited to the message size, keep reasons readable instead
+const MAX_REASON_LENGTH = 1024;
+
+/**
+ * Send the unchanged message body to the quarantine queue, with the failure as message attributes
+ * The DLQ tooling (src/dlq.ts) lists and redrives quarantined messages like DLQ messages
+ */
+export async function quarantineMessage(
+  client: Pick<SQSClient, 'send'>,
+  queueUrl: string,
+  record: SQSRecord,
+  error: unknown,
+  abortSignal?: AbortSignal,
+  now: Date = new Date(),
+): Promise<void> {
+  const reason = error instanceof Error ? `${error.name}: ${error.message}` : String(error);
+
+  await client.send(new SendMessageCommand({
+    QueueUrl: queueUrl,
+    MessageBody: record.body,
+    MessageAttributes: {
+      'failure-reason': { DataType: 'String', StringValue: reason.slice(0, MAX_REASON_LENGTH) },
+      'failed-at': { DataType: 'String', StringValue: now.toISOString() },
+      'source-message-id': { DataType: 'String', StringValue: record.messageId },
+      'source-queue-arn': { DataType: 'String', StringValue: record.eventSourceARN },
+    },
+  }), { abortSignal });
+}
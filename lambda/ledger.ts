@@ -0,0 +1,132 @@
+import {
+  DynamoDBClient,
+  PutItemCommand,
+  UpdateItemCommand,
+  DeleteItemCommand,
+  ConditionalCheckFailedException,
+} from '@aws-sdk/client-dynamodb';
+
+/**
+ * Identity of one S3 object version - the same version and content is only processed once
+ */
+export interface LedgerKey {
+  readonly bucket: string;
+  readonly key: string;
+  readonly versionId?: string; // Absent for unversioned objects
+  readonly etag: string;
+  readonly backfillRunId?: string; // Backfill events are deduplicated per run, so a backfill reprocesses completed versions
+}
+
+/**
+ * claimed: this invocation owns the work
+ * duplicate: already completed by an earlier delivery - skip
+ * in-progress: another invocation holds an unexpired claim - retry later
+ */
+export type ClaimResult =
+  | { readonly status: 'claimed' }
+  | { readonly status: 'duplicate'; readonly completedAt?: string; readonly messageId?: string }
+  | { readonly status: 'in-progress'; readonly claimedAt?: string; readonly messageId?: string };
+
+export interface LedgerOptions {
+  readonly leaseSeconds: number; // Claims older than this are considered abandoned (crashed or timed-out invocation)
+  readonly ttlDays: number; // Ledger entries expire after this many days (DynamoDB TTL)
+}
+
+export interface CompletionDetails {
+  readonly outputBucket: string;
+  readonly outputKey: string;
+}
+
+/**
+ * Partition key: bucket/key plus version ID and ETag, so overwrites of the same key are processed again
+ * Backfill runs append their run ID
+ */
+export function ledgerObjectId({ bucket, key, versionId, etag, backfillRunId }: LedgerKey): string {
+  const objectId = `${bucket}/${key}#${versionId ?? 'null'}#${etag}`;
+  return backfillRunId ? `${objectId}#backfill:${backfillRunId}` : objectId;
+}
+
+/**
+ * Deduplication ledger in DynamoDB (table created by StackRps)
+ *
+ * EventBridge and SQS deliver at least once; a conditional put claims an object version before processing,
+ * and the entry is marked COMPLETED afterwards so redeliveries are skipped.
+ */
+export class ProcessingLedger {
+  constructor(
+    private readonly client: DynamoDBClient,
+    private readonly tableName: string,
+    private readonly options: LedgerOptions,
+  ) {}
+
+  async claim(ledgerKey: LedgerKey, messageId: string, now: Date = new Date()): Promise<ClaimResult> {
+    const staleBefore = new Date(now.getTime() - this.options.leaseSeconds * 1000).toISOString();
+
+    try {
+      await this.client.send(new PutItemCommand({
+        TableName: this.tableName,
+        Item: {
+          objectId: { S: ledgerObjectId(ledgerKey) },
+          status: { S: 'IN_PROGRESS' },
+          claimedAt: { S: now.toISOString() },
+          messageId: { S: messageId },
+          expiresAt: { N: String(Math.floor(now.getTime() / 1000) + this.options.ttlDays * 24 * 60 * 60) },
+        },
+        // New entry, or a claim abandoned by a crashed/timed-out invocation
+        ConditionExpression: 'attribute_not_exists(objectId) OR (#status = :inProgress AND claimedAt < :staleBefore)',
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: {
+          ':inProgress': { S: 'IN_PROGRESS' },
+          ':staleBefore': { S: staleBefore },
+        },
+        ReturnValuesOnConditionCheckFailure: 'ALL_OLD',
+      }));
+      return { status: 'claimed' };
+    } catch (error) {
+      if (!(error instanceof ConditionalCheckFailedException)) {
+        throw error;
+      }
+
+      const existing = error.Item;
+      if (existing?.status?.S === 'COMPLETED') {
+        return { status: 'duplicate', completedAt: existing.completedAt?.S, messageId: existing.messageId?.S };
+      }
+      return { status: 'in-progress', claimedAt: existing?.claimedAt?.S, messageId: existing?.messageId?.S };
+    }
+  }
+
+  async complete(ledgerKey: LedgerKey, details: CompletionDetails, now: Date = new Date()): Promise<void> {
+    await this.client.send(new UpdateItemCommand({
+      TableName: this.tableName,
+      Key: { objectId: { S: ledgerObjectId(ledgerKey) } },
+      UpdateExpression: 'SET #status = :completed, completedAt = :completedAt, outputBucket = :outputBucket, outputKey = :outputKey',
+      ExpressionAttributeNames: { '#status': 'status' },
+      ExpressionAttributeValues: {
+        ':completed': { S: 'COMPLETED' },
+        ':completedAt': { S: now.toISOString() },
+        ':outputBucket': { S: details.outputBucket },
+        ':outputKey': { S: details.outputKey },
+      },
+    }));
+  }
+
+  /**
+   * Drop an unfinished claim after a failure so the SQS retry can claim it again immediately
+   */
+  async release(ledgerKey: LedgerKey, messageId: string): Promise<void> {
+    await this.client.send(new DeleteItemCommand({
+      TableName: this.tableName,
+      Key: { objectId: { S: ledgerObjectId(ledgerKey) } },
+      ConditionExpression: '#status = :inProgress AND messageId = :messageId',
+      ExpressionAttributeNames: { '#status': 'status' },
+      ExpressionAttributeValues: {
+        ':inProgress': { S: 'IN_PROGRESS' },
+        ':messageId': { S: messageId },
+      },
+    })).catch((error) => {
+      if (!(error instanceof ConditionalCheckFailedException)) {
+        throw error;
+      }
+    });
+  }
+}
@@ -0,0 +1,63 @@
+import { createHash } from 'crypto';
+import { S3Client, PutObjectCommand } from '@aws-sdk/client-s3';
+
+/**
+ * Audit record for one processed file - written as JSON to the Core manifest bucket
+ * Keys are partitioned by pipeline and date so the bucket can be queried with Athena
+ */
+export interface ManifestRecord {
+  readonly pipeline: string;
+  readonly eventId: string; // EventBridge event ID
+  readonly eventTime: string; // S3 event time (backfill: the source object's last-modified time)
+  readonly messageId: string; // SQS message ID
+  readonly source: {
+    readonly bucket: string;
+    readonly key: string;
+    readonly versionId?: string;
+    readonly etag: string;
+    readonly sha256: string;
+    readonly bytes: number;
+  };
+  readonly output: {
+    readonly bucket: string;
+    readonly key: string;
+    readonly versionId?: string;
+    readonly sha256: string;
+    readonly bytes: number;
+  };
+  readonly transformer: string;
+  readonly processedBy: string;
+  readonly startedAt: string;
+  readonly completedAt: string;
+  readonly durationMs: number;
+}
+
+/**
+ * {pipeline}/year=YYYY/month=MM/day=DD/{sourceId}.json, dated by the event time
+ * Only the source object version decides the key, so redeliveries, redrives and backfills of the same version
+ * overwrite one record - on whatever day they run. The record then describes the latest processing.
+ */
+export function manifestKey(record: ManifestRecord): string {
+  const [year, month, day] = record.eventTime.slice(0, 10).split('-');
+  return `${record.pipeline}/year=${year}/month=${month}/day=${day}/${sourceId(record.source)}.json`;
+}
+
+/**
+ * SHA-256 of bucket, key, version ID and ETag - keys can be longer than a manifest key allows and contain '/'
+ */
+function sourceId({ bucket, key, versionId, etag }: ManifestRecord['source']): string {
+  return createHash('sha256').update(JSON.stringify([bucket, key, versionId ?? null, etag])).digest('hex');
+}
+
+export async function writeManifestRecord(s3Client: S3Client, bucket: string, record: ManifestRecord): Promise<string> {
+  const key = manifestKey(record);
+
+  await s3Client.send(new PutObjectCommand({
+    Bucket: bucket,
+    Key: key,
+    Body: JSON.stringify(record),
+    ContentType: 'application/json',
+  }));
+
+  return key;
+}
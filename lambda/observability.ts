@@ -0,0 +1,32 @@
+import { Logger } from '@aws-lambda-powertools/logger';
+import { Metrics, MetricUnit } from '@aws-lambda-powertools/metrics';
+import { Tracer } from '@aws-lambda-powertools/tracer';
+import { PROCESSOR_METRICS } from '../src/processor-metrics';
+
+/**
+ * Shared logger, metrics and tracer for the processor Lambda
+ *
+ * Configured through the Powertools environment variables set by StackRps:
+ * POWERTOOLS_SERVICE_NAME, LOG_LEVEL, POWERTOOLS_METRICS_NAMESPACE and POWERTOOLS_TRACE_ENABLED.
+ * Object keys are only logged at DEBUG level - INFO logs identify files by correlation ID (EventBridge event ID).
+ */
+export const logger = new Logger();
+
+export const metrics = new Metrics();
+
+// Tracing is disabled unless StackRps enables X-Ray (POWERTOOLS_TRACE_ENABLED=true)
+export const tracer = new Tracer();
+
+// EMF metric names - the same names StackRps builds its dashboard and alarms on
+export const METRIC_NAMES = PROCESSOR_METRICS;
+
+export { MetricUnit };
+
+/**
+ * Logger for one SQS record - every line carries the EventBridge event ID as correlation ID
+ */
+export function createRecordLogger(correlationId: string, messageId: string): Logger {
+  const child = logger.createChild();
+  child.appendPersistentKeys({ correlationId, messageId });
+  return child;
+}
@@ -0,0 +1,48 @@
+/**
+ * Output object keys from per-pipeline templates
+ *
+ * Variables mirror OUTPUT_KEY_VARIABLES in src/pipelines.ts (validated at synth). Dates come from the S3 event
+ * time, not the processing time, so retries and redrives of the same event write the same key.
+ */
+export const DEFAULT_OUTPUT_KEY_TEMPLATE = '{key}';
+
+export interface OutputKeyContext {
+  readonly key: string; // Decoded source key
+  readonly pipeline: string;
+  readonly eventTime: Date;
+}
+
+/**
+ * Render a template, e.g. '{date}/{basename}.processed{ext}' for 'in/orders.csv' -> '2026-01-05/orders.processed.csv'
+ */
+export function renderOutputKey(template: string, context: OutputKeyContext): string {
+  const slash = context.key.lastIndexOf('/');
+  const filename = context.key.slice(slash + 1);
+  const dot = filename.lastIndexOf('.');
+  // Dotfiles ('.env') have no extension
+  const [basename, ext] = dot > 0 ? [filename.slice(0, dot), filename.slice(dot)] : [filename, ''];
+  const date = context.eventTime.toISOString().slice(0, 10);
+
+  const values: Record<string, string> = {
+    key: context.key,
+    dir: slash === -1 ? '' : context.key.slice(0, slash),
+    filename,
+    basename,
+    ext,
+    pipeline: context.pipeline,
+    date,
+    year: date.slice(0, 4),
+    month: date.slice(5, 7),
+    day: date.slice(8, 10),
+  };
+
+  const rendered = template.replace(/\{([a-z]+)\}/g, (match, variable: string) => {
+    if (!(variable in values)) {
+      throw new Error(`Unknown output key template variable: ${match}`);
+    }
+    return values[variable];
+  });
+
+  // An empty {dir} must not leave a leading or double slash
+  return rendered.replace(/\/{2,}/g, '/').replace(/^\//, '');
+}
@@ -1,183 +1,603 @@
-import { SQSEvent, SQSRecord, SQSBatchResponse, SQSBatchItemFailure } from 'aws-lambda';
-import { S3Client, GetObjectCommand, PutObjectCommand } from '@aws-sdk/client-s3';
-import { STSClient, AssumeRoleCommand, Credentials } from '@aws-sdk/client-sts';
-
-const stsClient = new STSClient({});
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { Logger } from '@aws-lambda-powertools/logger';
+import { Context, SQSEvent, SQSRecord, SQSBatchResponse, SQSBatchItemFailure } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { S3Client, DeleteObjectCommand, GetObjectCommand, PutObjectCommand } from '@aws-sdk/client-s3';
+import { SQSClient } from '@aws-sdk/client-sqs';
+import { STSClient } from '@aws-sdk/client-sts';
+import { deploymentKeyPrefixes } from '../src/deployments';
+import { processBatch } from './batch';
+import { AssumeRoleCredentialProvider } from './credentials';
+import { OBJECT_DELETED, ObjectCreatedEvent, ObjectDeletedEvent, parseS3Event } from './events';
+import { activeRoutes } from './failover';
+import { PermanentFailureError, isPermanentFailure, quarantineMessage } from './failures';
+import { LedgerKey, ProcessingLedger } from './ledger';
+import { writeManifestRecord } from './manifest';
+import { DEFAULT_OUTPUT_KEY_TEMPLATE, renderOutputKey } from './output-keys';
+import { METRIC_NAMES, MetricUnit, createRecordLogger, logger, metrics, tracer } from './observability';
+import {
+  DEFAULT_PART_SIZE_BYTES,
+  Digest,
+  createDigestStream,
+  digestBuffer,
+  streamToBuffer,
+  uploadStreamMultipart,
+} from './streaming';
+import { createRegistryFromEnv, ResolvedTransformer, TransformOutput } from './transformers';
+
+const stsClient = tracer.captureAWSv3Client(new STSClient({}));
+const sqsClient = tracer.captureAWSv3Client(new SQSClient({}));
 const INPUT_BUCKET_NAME = process.env.INPUT_BUCKET_NAME!;
 const OUTPUT_BUCKET_NAME = process.env.OUTPUT_BUCKET_NAME!;
 const PREFIX = process.env.PREFIX!;
 const CDK_DEPLOYMENT_PREFIX = process.env.CDK_DEPLOYMENT_PREFIX; // Optional: for deployment-specific isolation
 const CORE_S3_ACCESS_ROLE_ARN = process.env.CORE_S3_ACCESS_ROLE_ARN!; // Core account role to assume
+const CORE_S3_ACCESS_ROLE_EXTERNAL_ID = process.env.CORE_S3_ACCESS_ROLE_EXTERNAL_ID; // Optional: sts:ExternalId required by the role
+const MANIFEST_BUCKET_NAME = process.env.MANIFEST_BUCKET_NAME; // Optional: Core bucket receiving audit records
+// Optional: deployment name when deployments share the Core S3AccessRole (dev) - sent as the 'deployment' session tag,
+// the role then only reaches input/{deployment}/ and output/{deployment}/
+const DEPLOYMENT_SCOPE = process.env.DEPLOYMENT_SCOPE;
+
+// Objects larger than this are streamed through a multipart upload instead of buffered in memory
+const STREAMING_THRESHOLD_BYTES = Number(process.env.STREAMING_THRESHOLD_BYTES || 64 * 1024 * 1024);
+const MULTIPART_PART_SIZE_BYTES = Number(process.env.MULTIPART_PART_SIZE_BYTES || DEFAULT_PART_SIZE_BYTES);
+// Larger objects cannot be streamed within one invocation - they are quarantined instead of timing out on every retry
+const MAX_OBJECT_SIZE_BYTES = Number(process.env.MAX_OBJECT_SIZE_BYTES || 10 * 1024 * 1024 * 1024);
+
+// Records processed in parallel per invocation (SQS batches hold up to 10)
+const PROCESSOR_CONCURRENCY = Number(process.env.PROCESSOR_CONCURRENCY || 4);
+if (!Number.isInteger(PROCESSOR_CONCURRENCY) || PROCESSOR_CONCURRENCY < 1) {
+  throw new Error(`PROCESSOR_CONCURRENCY must be a positive integer, got: ${process.env.PROCESSOR_CONCURRENCY}`);
+}
+// Time kept back from every record for returning batchItemFailures and flushing metrics
+const DEADLINE_SAFETY_MARGIN_MS = 3000;
+// Records are not started with less time left than this - they go straight back to the queue
+const MIN_RECORD_TIME_MS = 1000;
+
+// Processor queue name -> quarantine queue URL; permanent failures are moved there instead of being retried
+const QUARANTINE_QUEUES: Record<string, string> = JSON.parse(process.env.QUARANTINE_QUEUES || '{}');
+
+// What an 'Object Deleted' event does to the output object: 'ignore', 'delete' or 'tombstone' (zero-byte marker)
+const DELETION_HANDLING = process.env.DELETION_HANDLING || 'ignore';
+
+// Core DR failover: use the replica buckets in CORE_REPLICA_REGION (see failover.ts)
+const CORE_FAILOVER = process.env.CORE_FAILOVER === 'true';
+const CORE_REPLICA_REGION = process.env.CORE_REPLICA_REGION;
+
+// Input bucket -> output bucket routing, one entry per pipeline (falls back to the single bucket pair)
+const PIPELINES: PipelineRoute[] = activeRoutes(
+  process.env.PIPELINES
+    ? JSON.parse(process.env.PIPELINES)
+    : [{ name: 'default', inputBucketName: INPUT_BUCKET_NAME, outputBucketName: OUTPUT_BUCKET_NAME }],
+  CORE_FAILOVER,
+);
+
+// Deduplication ledger - skips object versions an earlier delivery already processed
+const processingLedger = process.env.LEDGER_TABLE_NAME
+  ? new ProcessingLedger(tracer.captureAWSv3Client(new DynamoDBClient({})), process.env.LEDGER_TABLE_NAME, {
+    leaseSeconds: Number(process.env.LEDGER_LEASE_SECONDS || 900),
+    ttlDays: Number(process.env.LEDGER_TTL_DAYS || 30),
+  })
+  : undefined;
+
+// Transformer registry is built once per container from TRANSFORMER_ROUTES / DEFAULT_TRANSFORMER
+const transformerRegistry = createRegistryFromEnv();
+
+const PROCESSED_BY = CDK_DEPLOYMENT_PREFIX ? `${PREFIX}-${CDK_DEPLOYMENT_PREFIX}` : PREFIX;
+
+// One S3 client per container, signing with Core role credentials that refresh themselves before expiry
+// Session names ({processedBy}-processor-{environmentId}-{n}) trace CloudTrail entries back to the Lambda log stream
+const coreCredentials = new AssumeRoleCredentialProvider(stsClient, {
+  roleArn: CORE_S3_ACCESS_ROLE_ARN,
+  sessionNamePrefix: `${PROCESSED_BY}-processor`,
+  externalId: CORE_S3_ACCESS_ROLE_EXTERNAL_ID,
+  sessionTags: DEPLOYMENT_SCOPE ? { deployment: DEPLOYMENT_SCOPE } : undefined,
+});
+const s3Client = tracer.captureAWSv3Client(new S3Client({
+  credentials: coreCredentials.provide,
+  ...(CORE_FAILOVER && { region: CORE_REPLICA_REGION }),
+}));
+
+interface PipelineRoute {
+  name: string;
+  inputBucketName: string;
+  outputBucketName: string;
+  outputKeyTemplate?: string; // Default: '{key}' (same key as the input object)
+  replicaInputBucketName?: string; // Core DR replicas (CORE_REPLICA_REGION)
+  replicaOutputBucketName?: string;
+}
 
-// Cache credentials to avoid repeated AssumeRole calls
-// Lambda container is reused, so this cache persists across invocations
-let cachedCredentials: Credentials | null = null;
-let credentialsExpiration: Date | null = null;
-
-interface S3EventDetail {
-  bucket: {
-    name: string;
-  };
-  object: {
-    key: string;
-    size: number;
-  };
-  'request-id': string;
+/**
+ * Where and how a processed object is written
+ */
+interface OutputTarget {
+  sourceKey: string;
+  bucket: string;
+  key: string;
+  contentType?: string;
+  metadata: Record<string, string>;
 }
 
-interface EventBridgeEvent {
-  version: string;
-  id: string;
-  'detail-type': string;
-  source: string;
-  account: string;
-  time: string;
-  region: string;
-  resources: string[];
-  detail: S3EventDetail;
+/**
+ * Exact source object version an event refers to
+ */
+interface SourceObject {
+  key: string;
+  size?: number;
+  versionId?: string;
+  etag: string;
+  sequencer: string;
+  eventTime: Date; // Dates in output key templates
 }
 
 /**
- * Get S3 client with assumed Core account role credentials
- * Caches credentials to avoid repeated AssumeRole calls
+ * What was read and written for one object (recorded in the manifest)
  */
-async function getS3ClientWithAssumedRole(): Promise<S3Client> {
-  const now = new Date();
-
-  // Check if cached credentials are still valid (with 5-minute buffer)
-  if (cachedCredentials && credentialsExpiration) {
-    const bufferMs = 5 * 60 * 1000; // 5 minutes
-    if (now.getTime() < credentialsExpiration.getTime() - bufferMs) {
-      console.log('Using cached credentials');
-      return new S3Client({
-        credentials: {
-          accessKeyId: cachedCredentials.AccessKeyId!,
-          secretAccessKey: cachedCredentials.SecretAccessKey!,
-          sessionToken: cachedCredentials.SessionToken!,
-        },
+interface ProcessingResult {
+  transformer: string;
+  input: Digest;
+  output: Digest;
+  outputVersionId?: string;
+}
+
+export const handler = async (event: SQSEvent, context: Context): Promise<SQSBatchResponse> => {
+  // Never log the raw event - message bodies contain object keys
+  logger.addContext(context);
+  logger.info('Processing SQS batch', { recordCount: event.Records.length });
+
+  const batchItemFailures: SQSBatchItemFailure[] = [];
+
+  try {
+    const recordLoggers = new Map(event.Records.map((record) => [
+      record.messageId,
+      createRecordLogger(correlationIdOf(record), record.messageId),
+    ]));
+
+    // Records run PROCESSOR_CONCURRENCY at a time, each bounded by the time left in this invocation
+    const outcomes = await processBatch(
+      event.Records,
+      async (record, abortSignal) => {
+        const recordLogger = recordLoggers.get(record.messageId)!;
+        try {
+          await processRecord(record, s3Client, recordLogger, abortSignal);
+          recordLogger.info('Successfully processed record');
+        } catch (error) {
+          // Transient failures (and permanent ones without a quarantine queue) are retried by SQS
+          const quarantineQueueUrl = QUARANTINE_QUEUES[queueNameOf(record)];
+          if (!isPermanentFailure(error) || !quarantineQueueUrl) {
+            throw error;
+          }
+          await quarantineMessage(sqsClient, quarantineQueueUrl, record, error, abortSignal);
+          recordLogger.error('Quarantined unprocessable message - it will not be retried', error as Error);
+          metrics.addMetric(METRIC_NAMES.messagesQuarantined, MetricUnit.Count, 1);
+        }
+      },
+      {
+        concurrency: PROCESSOR_CONCURRENCY,
+        getRemainingTimeInMillis: () => context.getRemainingTimeInMillis(),
+        safetyMarginMs: DEADLINE_SAFETY_MARGIN_MS,
+        minRecordTimeMs: MIN_RECORD_TIME_MS,
+      },
+    );
+
+    outcomes.forEach((outcome, index) => {
+      if (outcome.status === 'succeeded') {
+        return;
+      }
+      const record = event.Records[index];
+      const recordLogger = recordLoggers.get(record.messageId)!;
+
+      if (outcome.status === 'failed') {
+        recordLogger.error('Failed to process record', outcome.error as Error);
+      } else {
+        // Reported before the invocation times out - SQS redelivers after the visibility timeout
+        recordLogger.warn('Record ran out of time - returning it for retry', { ...outcome });
+        metrics.addMetric(METRIC_NAMES.recordsTimedOut, MetricUnit.Count, 1);
+      }
+      metrics.addMetric(METRIC_NAMES.processingFailures, MetricUnit.Count, 1);
+      batchItemFailures.push({
+        itemIdentifier: record.messageId,
       });
-    }
+    });
+  } finally {
+    // EMF metrics are flushed once per invocation
+    metrics.publishStoredMetrics();
   }
 
-  // Assume role to get temporary credentials
-  console.log(`Assuming role: ${CORE_S3_ACCESS_ROLE_ARN}`);
-  const assumeRoleCommand = new AssumeRoleCommand({
-    RoleArn: CORE_S3_ACCESS_ROLE_ARN,
-    RoleSessionName: `lambda-${PREFIX}-${Date.now()}`,
-    DurationSeconds: 3600, // 1 hour
-  });
+  return {
+    batchItemFailures,
+  };
+};
+
+/**
+ * EventBridge event ID of the message, falling back to the SQS message ID for unparseable bodies
+ */
+function correlationIdOf(record: SQSRecord): string {
+  try {
+    return JSON.parse(record.body).id ?? record.messageId;
+  } catch {
+    return record.messageId;
+  }
+}
 
-  const assumeRoleResponse = await stsClient.send(assumeRoleCommand);
+/**
+ * Queue name from the record's source ARN (arn:aws:sqs:{region}:{account}:{name})
+ */
+function queueNameOf(record: SQSRecord): string {
+  return record.eventSourceARN.split(':').pop()!;
+}
 
-  if (!assumeRoleResponse.Credentials) {
-    throw new Error('Failed to assume role: No credentials returned');
+async function processRecord(record: SQSRecord, s3Client: S3Client, log: Logger, abortSignal: AbortSignal): Promise<void> {
+  // Validate the EventBridge event from the SQS message - invalid bodies are permanent failures
+  const event = parseS3Event(record.body);
+
+  // Each input bucket belongs to exactly one pipeline, which defines the output bucket
+  const pipelineRoute = PIPELINES.find((candidate) => candidate.inputBucketName === event.bucket);
+  if (!pipelineRoute) {
+    throw new PermanentFailureError(`No pipeline configured for input bucket: ${event.bucket}`);
   }
 
-  // Cache credentials
-  cachedCredentials = assumeRoleResponse.Credentials;
-  credentialsExpiration = assumeRoleResponse.Credentials.Expiration!;
-  console.log(`Assumed role successfully. Credentials expire at: ${credentialsExpiration.toISOString()}`);
-
-  // Return S3 client with assumed role credentials
-  return new S3Client({
-    credentials: {
-      accessKeyId: cachedCredentials.AccessKeyId!,
-      secretAccessKey: cachedCredentials.SecretAccessKey!,
-      sessionToken: cachedCredentials.SessionToken!,
-    },
-  });
+  log.appendKeys({ pipeline: pipelineRoute.name });
+
+  // The RPS rule filters on the deployment's input prefix - anything else (backfill, redrive) is unreadable here
+  if (DEPLOYMENT_SCOPE && !event.key.startsWith(deploymentKeyPrefixes(DEPLOYMENT_SCOPE).input)) {
+    throw new PermanentFailureError(`Object is outside the input prefix of deployment '${DEPLOYMENT_SCOPE}'`);
+  }
+
+  if (event.detailType === OBJECT_DELETED) {
+    await processDeletion(s3Client, pipelineRoute, event, log, abortSignal);
+    return;
+  }
+  await processCreation(record, s3Client, pipelineRoute, event, log, abortSignal);
 }
 
-export const handler = async (event: SQSEvent): Promise<SQSBatchResponse> => {
-  console.log('Processing SQS event:', JSON.stringify(event, null, 2));
+async function processCreation(
+  record: SQSRecord,
+  s3Client: S3Client,
+  pipelineRoute: PipelineRoute,
+  event: ObjectCreatedEvent,
+  log: Logger,
+  abortSignal: AbortSignal,
+): Promise<void> {
+  const sourceKey = event.key;
+  const source: SourceObject = {
+    key: sourceKey,
+    size: event.size,
+    versionId: event.versionId,
+    etag: event.etag,
+    sequencer: event.sequencer,
+    eventTime: event.time,
+  };
 
-  // Get S3 client with assumed role credentials (cached across invocations)
-  const s3Client = await getS3ClientWithAssumedRole();
+  log.info('Processing file', { bucket: event.bucket, versionId: source.versionId, size: source.size });
+  log.debug('Source object', { key: sourceKey });
 
-  const batchItemFailures: SQSBatchItemFailure[] = [];
+  const ledgerKey: LedgerKey = {
+    bucket: event.bucket,
+    key: sourceKey,
+    versionId: source.versionId,
+    etag: source.etag,
+    backfillRunId: event.backfillRunId,
+  };
 
-  for (const record of event.Records) {
-    try {
-      await processRecord(record, s3Client);
-      console.log(`Successfully processed record: ${record.messageId}`);
-    } catch (error) {
-      console.error(`Failed to process record: ${record.messageId}`, error);
-      batchItemFailures.push({
-        itemIdentifier: record.messageId,
+  if (ledgerKey.backfillRunId) {
+    log.info('Reprocessing file for backfill run', { backfillRunId: ledgerKey.backfillRunId });
+  }
+
+  if (processingLedger) {
+    const claim = await processingLedger.claim(ledgerKey, record.messageId);
+
+    if (claim.status === 'duplicate') {
+      log.info('Skipping duplicate delivery - object version already processed', {
+        bucket: ledgerKey.bucket,
+        versionId: ledgerKey.versionId,
+        etag: ledgerKey.etag,
+        completedAt: claim.completedAt,
+        completedByMessageId: claim.messageId,
       });
+      metrics.addMetric(METRIC_NAMES.duplicatesSkipped, MetricUnit.Count, 1);
+      return;
+    }
+    if (claim.status === 'in-progress') {
+      // Throwing reports a batch item failure - SQS redelivers after the visibility timeout
+      throw new Error(`Object version is being processed by message ${claim.messageId} (claimed at ${claim.claimedAt})`);
     }
   }
 
-  return {
-    batchItemFailures,
-  };
-};
+  try {
+    const startedAt = new Date();
+    const { target, result } = await transformObject(s3Client, pipelineRoute, source, log, abortSignal);
+    const completedAt = new Date();
+
+    if (MANIFEST_BUCKET_NAME) {
+      const manifestKey = await writeManifestRecord(s3Client, MANIFEST_BUCKET_NAME, {
+        pipeline: pipelineRoute.name,
+        eventId: event.id,
+        eventTime: event.time.toISOString(),
+        messageId: record.messageId,
+        source: {
+          bucket: event.bucket,
+          key: sourceKey,
+          versionId: target.metadata.sourceVersionId,
+          etag: source.etag,
+          sha256: result.input.sha256,
+          bytes: result.input.bytes,
+        },
+        output: {
+          bucket: target.bucket,
+          key: target.key,
+          versionId: result.outputVersionId,
+          sha256: result.output.sha256,
+          bytes: result.output.bytes,
+        },
+        transformer: result.transformer,
+        processedBy: target.metadata.processedBy,
+        startedAt: startedAt.toISOString(),
+        completedAt: completedAt.toISOString(),
+        durationMs: completedAt.getTime() - startedAt.getTime(),
+      });
+      log.info('Wrote manifest record', { manifestBucket: MANIFEST_BUCKET_NAME, manifestKey });
+    }
 
-async function processRecord(record: SQSRecord, s3Client: S3Client): Promise<void> {
-  // Parse the EventBridge event from SQS message
-  const eventBridgeEvent: EventBridgeEvent = JSON.parse(record.body);
+    metrics.addMetric(METRIC_NAMES.filesProcessed, MetricUnit.Count, 1);
+    metrics.addMetric(METRIC_NAMES.bytesRead, MetricUnit.Bytes, result.input.bytes);
+    metrics.addMetric(METRIC_NAMES.bytesWritten, MetricUnit.Bytes, result.output.bytes);
 
-  console.log('EventBridge event:', JSON.stringify(eventBridgeEvent, null, 2));
+    await processingLedger?.complete(ledgerKey, { outputBucket: target.bucket, outputKey: target.key });
+  } catch (error) {
+    await processingLedger?.release(ledgerKey, record.messageId);
+    throw error;
+  }
+}
 
-  const { bucket, object } = eventBridgeEvent.detail;
-  const sourceKey = object.key;
+/**
+ * Apply an 'Object Deleted' event to the output object (DELETION_HANDLING)
+ * Deletes are idempotent, so they bypass the processing ledger
+ */
+async function processDeletion(
+  s3Client: S3Client,
+  pipelineRoute: PipelineRoute,
+  event: ObjectDeletedEvent,
+  log: Logger,
+  abortSignal: AbortSignal,
+): Promise<void> {
+  // StackRps rejects date variables in templates when deletions are handled, so this is the key the upload produced
+  const target = { Bucket: pipelineRoute.outputBucketName, Key: outputKeyFor(pipelineRoute, event.key, event.time) };
+  log.debug('Deleted source object', { key: event.key });
+
+  if (DELETION_HANDLING === 'delete') {
+    // Output buckets are versioned - this adds a delete marker, earlier outputs stay recoverable
+    await s3Client.send(new DeleteObjectCommand(target), { abortSignal });
+  } else if (DELETION_HANDLING === 'tombstone') {
+    await s3Client.send(new PutObjectCommand({
+      ...target,
+      Body: new Uint8Array(0),
+      ContentType: 'application/octet-stream',
+      Metadata: {
+        sourceKey: event.key,
+        processedBy: PROCESSED_BY,
+        processedAt: new Date().toISOString(),
+        tombstone: 'true',
+        deletionType: event.deletionType ?? 'unknown',
+        sourceVersionId: event.versionId ?? 'null',
+        sourceSequencer: event.sequencer,
+      },
+    }), { abortSignal });
+  } else {
+    log.info('Ignoring Object Deleted event', { bucket: event.bucket, deletionHandling: DELETION_HANDLING });
+    return;
+  }
 
-  console.log(`Processing file: ${sourceKey} from input bucket: ${bucket.name}`);
+  log.info('Applied source deletion to output object', {
+    outputBucket: pipelineRoute.outputBucketName,
+    deletionHandling: DELETION_HANDLING,
+    deletionType: event.deletionType,
+  });
+  metrics.addMetric(METRIC_NAMES.outputsDeleted, MetricUnit.Count, 1);
+}
+
+/**
+ * Deployment-scoped: the template applies to the key below input/{deployment}/ and the result lands below output/{deployment}/
+ */
+function outputKeyFor(pipelineRoute: PipelineRoute, sourceKey: string, eventTime: Date): string {
+  const keyPrefixes = DEPLOYMENT_SCOPE ? deploymentKeyPrefixes(DEPLOYMENT_SCOPE) : { input: '', output: '' };
+  return keyPrefixes.output + renderOutputKey(pipelineRoute.outputKeyTemplate ?? DEFAULT_OUTPUT_KEY_TEMPLATE, {
+    key: sourceKey.slice(keyPrefixes.input.length),
+    pipeline: pipelineRoute.name,
+    eventTime,
+  });
+}
+
+/**
+ * Read the exact source version, run the resolved transformer and write the output object
+ */
+async function transformObject(
+  s3Client: S3Client,
+  pipelineRoute: PipelineRoute,
+  source: SourceObject,
+  log: Logger,
+  abortSignal: AbortSignal,
+): Promise<{ target: OutputTarget; result: ProcessingResult }> {
+  const sourceKey = source.key;
 
   // Read the file from input bucket
+  // Pin the version from the event - a quick overwrite must not change what this event processes
+  // Unversioned objects fall back to IfMatch on the event ETag, so a changed object fails instead of being misread
   const getObjectCommand = new GetObjectCommand({
-    Bucket: INPUT_BUCKET_NAME,
+    Bucket: pipelineRoute.inputBucketName,
     Key: sourceKey,
+    ...(source.versionId ? { VersionId: source.versionId } : { IfMatch: `"${source.etag}"` }),
   });
 
-  const response = await s3Client.send(getObjectCommand);
+  // Aborting also ends the body stream, which fails both processing paths
+  const response = await s3Client.send(getObjectCommand, { abortSignal });
 
   if (!response.Body) {
-    throw new Error(`No body in S3 object: ${sourceKey}`);
+    // Keys stay out of error messages - errors are logged at every level and sent with quarantined messages
+    log.debug('Source object without body', { key: sourceKey });
+    throw new Error('No body in S3 object');
+  }
+
+  // Pick transformer by key prefix, extension or content type
+  const resolved = transformerRegistry.resolve(sourceKey, response.ContentType);
+  log.info('Resolved transformer', { transformer: resolved.transformer.name });
+
+  // Write the processed file to the pipeline's output bucket under its output key template
+  const body = response.Body as Readable;
+  const target: OutputTarget = {
+    sourceKey,
+    bucket: pipelineRoute.outputBucketName,
+    key: outputKeyFor(pipelineRoute, sourceKey, source.eventTime),
+    contentType: response.ContentType,
+    metadata: {
+      sourceKey,
+      processedBy: PROCESSED_BY,
+      processedAt: new Date().toISOString(),
+      transformer: resolved.transformer.name,
+      sourceVersionId: response.VersionId ?? source.versionId ?? 'null',
+      sourceEtag: source.etag,
+      sourceSequencer: source.sequencer,
+    },
+  };
+
+  // Choose path by object size from the S3 event (falls back to GetObject's ContentLength)
+  const size = source.size ?? response.ContentLength ?? 0;
+  if (size > MAX_OBJECT_SIZE_BYTES) {
+    body.destroy();
+    throw new PermanentFailureError(`Object of ${size} bytes exceeds the ${MAX_OBJECT_SIZE_BYTES} byte limit`);
   }
 
-  // Convert stream to string
-  const fileContent = await streamToString(response.Body);
+  const result = size > STREAMING_THRESHOLD_BYTES
+    ? await processStreaming(s3Client, body, resolved, target, log, abortSignal)
+    : await processBuffered(s3Client, body, resolved, target, log, abortSignal);
 
-  console.log(`Read ${fileContent.length} bytes from ${sourceKey}`);
+  log.debug('Output object', { key: target.key });
+  log.info('Wrote processed file', {
+    outputBucket: target.bucket,
+    outputVersionId: result.outputVersionId,
+    bytesRead: result.input.bytes,
+    bytesWritten: result.output.bytes,
+  });
 
-  // Process the file (simple transformation example)
-  const processedContent = processFileContent(fileContent, sourceKey);
+  return { target, result };
+}
 
-  // Write the processed file to output bucket with same key
-  const outputKey = sourceKey;
+/**
+ * Small objects: read fully into memory and write back with a single PutObject
+ */
+async function processBuffered(
+  s3Client: S3Client,
+  body: Readable,
+  { transformer, options }: ResolvedTransformer,
+  { sourceKey, bucket, key, contentType, metadata }: OutputTarget,
+  log: Logger,
+  abortSignal: AbortSignal,
+): Promise<ProcessingResult> {
+  // Read raw bytes (transformers decide how to interpret them)
+  const fileContent = await streamToBuffer(body);
+
+  log.debug('Read source object into memory', { bytes: fileContent.length });
+
+  // The same bytes fail the same way on every retry
+  let processed: TransformOutput;
+  try {
+    processed = transformer.transform({
+      key: sourceKey,
+      contentType,
+      body: fileContent,
+      options,
+    });
+  } catch (error) {
+    log.debug('Transformer rejected source object', { key: sourceKey });
+    throw new PermanentFailureError(`Transformer '${transformer.name}' failed: ${(error as Error).message}`, { cause: error });
+  }
 
   const putObjectCommand = new PutObjectCommand({
-    Bucket: OUTPUT_BUCKET_NAME,
-    Key: outputKey,
-    Body: processedContent,
-    ContentType: response.ContentType || 'text/plain',
-    Metadata: {
-      sourceKey,
-      processedBy: CDK_DEPLOYMENT_PREFIX ? `${PREFIX}-${CDK_DEPLOYMENT_PREFIX}` : PREFIX,
-      processedAt: new Date().toISOString(),
-    },
+    Bucket: bucket,
+    Key: key,
+    Body: processed.body,
+    ContentType: processed.contentType || contentType || 'text/plain',
+    ContentEncoding: processed.contentEncoding,
+    Metadata: metadata,
   });
 
-  await s3Client.send(putObjectCommand);
+  const { VersionId: outputVersionId } = await s3Client.send(putObjectCommand, { abortSignal });
 
-  console.log(`Successfully wrote processed file to output bucket: ${OUTPUT_BUCKET_NAME}/${outputKey}`);
+  return {
+    transformer: transformer.name,
+    input: digestBuffer(fileContent),
+    output: digestBuffer(processed.body),
+    outputVersionId,
+  };
 }
 
-function processFileContent(content: string, sourceKey: string): string {
-  // Example processing: add metadata header
-  const timestamp = new Date().toISOString();
-  const header = `# Processed by ${PREFIX} at ${timestamp}\n# Source: ${sourceKey}\n\n`;
-
-  return header + content;
-}
+/**
+ * Large objects: pipe GetObject through the transformer stream into a multipart upload
+ * Memory usage is bounded by the multipart part size, bytes are never decoded as text
+ */
+async function processStreaming(
+  s3Client: S3Client,
+  body: Readable,
+  { transformer, options }: ResolvedTransformer,
+  { sourceKey, bucket, key, contentType, metadata }: OutputTarget,
+  log: Logger,
+  abortSignal: AbortSignal,
+): Promise<ProcessingResult> {
+  if (!transformer.createStream) {
+    throw new PermanentFailureError(
+      `Transformer '${transformer.name}' does not support streaming; object exceeds ${STREAMING_THRESHOLD_BYTES} bytes`,
+    );
+  }
 
-async function streamToString(stream: any): Promise<string> {
-  const chunks: Uint8Array[] = [];
+  const transformed = transformer.createStream({ key: sourceKey, contentType, options });
+
+  // Checksums are computed on the fly on both sides of the transformer
+  const inputDigest = createDigestStream();
+  const outputDigest = createDigestStream();
+
+  // Transformer failures are permanent like in the buffered path, read and upload failures are retried
+  // The failing stream emits the error first, the pipeline then destroys the other streams with the same error
+  let failedStage: 'read' | 'transform' | 'upload' | undefined;
+  body.on('error', () => (failedStage ??= 'read'));
+  transformed.stream.on('error', () => (failedStage ??= 'transform'));
+  outputDigest.stream.on('error', () => (failedStage ??= 'upload'));
+
+  const upload = uploadStreamMultipart(
+    s3Client,
+    {
+      bucket,
+      key,
+      contentType: transformed.contentType || contentType || 'application/octet-stream',
+      contentEncoding: transformed.contentEncoding,
+      metadata,
+    },
+    outputDigest.stream,
+    MULTIPART_PART_SIZE_BYTES,
+    abortSignal,
+  ).catch((error) => {
+    // Stop reading from S3 if the upload side fails
+    outputDigest.stream.destroy(error);
+    throw error;
+  });
 
-  return new Promise((resolve, reject) => {
-    stream.on('data', (chunk: Uint8Array) => chunks.push(chunk));
-    stream.on('error', reject);
-    stream.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+  const [, result] = await Promise.all([
+    pipeline(body, inputDigest.stream, transformed.stream, outputDigest.stream),
+    upload,
+  ]).catch((error) => {
+    if (failedStage === 'transform') {
+      log.debug('Transformer rejected source object', { key: sourceKey });
+      throw new PermanentFailureError(`Transformer '${transformer.name}' failed: ${(error as Error).message}`, { cause: error });
+    }
+    throw error;
   });
+
+  log.debug('Streamed source object through multipart upload', { bytes: result.bytesWritten, partCount: result.partCount });
+
+  return {
+    transformer: transformer.name,
+    input: inputDigest.digest(),
+    output: outputDigest.digest(),
+    outputVersionId: result.versionId,
+  };
 }
@@ -0,0 +1,325 @@
+import { Logger } from '@aws-lambda-powertools/logger';
+import { CdkCustomResourceEvent, CdkCustomResourceResponse } from 'aws-lambda';
+import {
+  CreateEventBusCommand,
+  DeleteEventBusCommand,
+  DeleteRuleCommand,
+  DescribeEventBusCommand,
+  EventBridgeClient,
+  ListRulesCommand,
+  ListTagsForResourceCommand,
+  ListTargetsByRuleCommand,
+  PutPermissionCommand,
+  RemovePermissionCommand,
+  RemoveTargetsCommand,
+  TagResourceCommand,
+  UntagResourceCommand,
+} from '@aws-sdk/client-eventbridge';
+import { GetFunctionCommand, LambdaClient } from '@aws-sdk/client-lambda';
+
+/**
+ * Shared event bus lifecycle (Custom::SharedEventBus provider, one resource per StackRps)
+ *
+ * Deployments sharing a bus ('dev', 'dev-john', ...) register as consumers in the bus tags
+ * (shared-bus-consumer:{consumerId} = processor function name) next to their AllowCoreAccount-{consumerId}
+ * statement in the bus policy. The policy is written as a whole (PutPermission with a Policy document), replacing
+ * only the statement of the consumer being registered or removed. The per-statement form of PutPermission cannot
+ * express the statement's conditions, and the whole-policy form has no conditional write, so every write is read back
+ * and repeated until the change is in the policy.
+ *
+ * A registered consumer whose processor function no longer exists is orphaned: its statement, its rules (tagged
+ * shared-bus-consumer = {consumerId}) and its registration are removed whenever any consumer registers or
+ * deregisters. The bus is deleted when the last consumer deregisters and no rules are left on it.
+ *
+ * Statements from before the registry have no tag. They are never removed - only logged - and keep the bus.
+ */
+export const CONSUMER_TAG_KEY = 'shared-bus-consumer'; // mirrors src/stack-rps.ts SHARED_BUS_CONSUMER_TAG
+export const STATEMENT_ID_PREFIX = 'AllowCoreAccount-'; // mirrors StackRps permission statement IDs
+const PROCESSOR_FUNCTION_SUFFIX = '-s3-processor'; // mirrors StackRps functionName {resourcePrefix}-s3-processor
+// Policy writes of deployments updating the bus at the same time can overwrite each other - verified and retried
+const MAX_POLICY_WRITES = 5;
+const POLICY_VERIFY_DELAY_MS = 2000;
+
+export interface SharedBusProperties {
+  readonly EventBusName: string;
+  readonly ConsumerId: string; // StackRps resource prefix, e.g. dev-john
+  readonly Statement: BusPolicyStatement; // The consumer's bus policy statement (src/bus-policy.ts), Sid is set here
+  readonly ProcessorFunctionName: string; // Liveness of the consumer
+}
+
+export interface BusPolicyStatement {
+  readonly Sid?: string;
+  readonly [key: string]: unknown;
+}
+
+interface BusPolicy {
+  readonly Version: string;
+  readonly Statement: BusPolicyStatement[];
+}
+
+export interface ConsumerRegistration {
+  readonly consumerId: string;
+  readonly processorFunctionName: string;
+  readonly registered: boolean; // false: statement from before the registry
+}
+
+export function statementId(consumerId: string): string {
+  return `${STATEMENT_ID_PREFIX}${consumerId}`;
+}
+
+function consumerTagKey(consumerId: string): string {
+  return `${CONSUMER_TAG_KEY}:${consumerId}`;
+}
+
+/**
+ * Statements compared as EventBridge returns them: key order and single-item arrays vs. plain values do not matter
+ */
+function sameStatement(left: BusPolicyStatement, right: BusPolicyStatement): boolean {
+  return JSON.stringify(canonical(left)) === JSON.stringify(canonical(right));
+}
+
+function canonical(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.length === 1 ? canonical(value[0]) : value.map(canonical);
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(Object.keys(value).sort().map((key) => [key, canonical((value as Record<string, unknown>)[key])]));
+  }
+  return value;
+}
+
+function isNotFound(error: unknown): boolean {
+  return (error as Error).name === 'ResourceNotFoundException';
+}
+
+export class SharedBusManager {
+  constructor(
+    private readonly events: EventBridgeClient,
+    private readonly lambda: LambdaClient,
+    private readonly log: Pick<Logger, 'info' | 'warn'> = new Logger({ serviceName: 'shared-bus-manager' }),
+    private readonly sleep: (ms: number) => Promise<void> = (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+  ) {}
+
+  /**
+   * Creates the bus if needed, registers the consumer and adds its bus policy statement
+   */
+  async register(properties: SharedBusProperties): Promise<{ eventBusArn: string }> {
+    const { EventBusName: eventBusName, ConsumerId: consumerId } = properties;
+    const eventBusArn = (await this.describeBus(eventBusName))?.arn ?? await this.createBus(eventBusName);
+
+    await this.events.send(new TagResourceCommand({
+      ResourceARN: eventBusArn,
+      Tags: [{ Key: consumerTagKey(consumerId), Value: properties.ProcessorFunctionName }],
+    }));
+    await this.replaceStatement(eventBusName, consumerId, { ...properties.Statement, Sid: statementId(consumerId) });
+
+    await this.pruneOrphans(eventBusName, eventBusArn, consumerId);
+    return { eventBusArn };
+  }
+
+  /**
+   * Removes the consumer, prunes orphans and deletes the bus once nothing uses it
+   */
+  async deregister(properties: SharedBusProperties): Promise<{ busDeleted: boolean }> {
+    const { EventBusName: eventBusName, ConsumerId: consumerId } = properties;
+    const bus = await this.describeBus(eventBusName);
+    if (!bus) {
+      return { busDeleted: false };
+    }
+
+    await this.removeConsumer(eventBusName, bus.arn, consumerId);
+    const live = await this.pruneOrphans(eventBusName, bus.arn, consumerId);
+    if (live.length > 0) {
+      this.log.info('Shared bus still in use', { eventBusName, consumers: live });
+      return { busDeleted: false };
+    }
+
+    // Rules of other tools (or of stacks still deleting) keep the bus
+    const rules = await this.listRules(eventBusName);
+    if (rules.length > 0) {
+      this.log.warn('No consumers left, keeping bus with rules', { eventBusName, rules: rules.map((rule) => rule.name) });
+      return { busDeleted: false };
+    }
+    await this.events.send(new DeleteEventBusCommand({ Name: eventBusName }));
+    this.log.info('Deleted shared bus', { eventBusName });
+    return { busDeleted: true };
+  }
+
+  /**
+   * Registered consumers plus consumers known only by their permission statement
+   */
+  async consumers(eventBusName: string, eventBusArn: string): Promise<ConsumerRegistration[]> {
+    const { Tags: tags = [] } = await this.events.send(new ListTagsForResourceCommand({ ResourceARN: eventBusArn }));
+    const registered = tags
+      .filter((tag) => tag.Key?.startsWith(`${CONSUMER_TAG_KEY}:`))
+      .map((tag) => ({
+        consumerId: tag.Key!.slice(CONSUMER_TAG_KEY.length + 1),
+        processorFunctionName: tag.Value!,
+        registered: true,
+      }));
+
+    const statementIds = (await this.readPolicy(eventBusName)).Statement.map((statement) => statement.Sid ?? '');
+    const legacy = statementIds
+      .filter((sid) => sid.startsWith(STATEMENT_ID_PREFIX))
+      .map((sid) => sid.slice(STATEMENT_ID_PREFIX.length))
+      .filter((consumerId) => !registered.some((consumer) => consumer.consumerId === consumerId))
+      .map((consumerId) => ({ consumerId, processorFunctionName: `${consumerId}${PROCESSOR_FUNCTION_SUFFIX}`, registered: false }));
+
+    return [...registered, ...legacy];
+  }
+
+  /**
+   * Removes registered consumers whose processor function is gone - returns the live consumers other than
+   * excludeConsumerId. Statements from before the registry are only logged and count as live: their owner is known
+   * by the statement ID alone, which foreign statements can share.
+   */
+  private async pruneOrphans(eventBusName: string, eventBusArn: string, excludeConsumerId: string): Promise<string[]> {
+    const live: string[] = [];
+    for (const consumer of await this.consumers(eventBusName, eventBusArn)) {
+      if (consumer.consumerId === excludeConsumerId) {
+        continue;
+      }
+      if (!consumer.registered) {
+        this.log.warn('Keeping statement from before the registry - remove it once its stack is gone', {
+          eventBusName,
+          statementId: statementId(consumer.consumerId),
+        });
+        live.push(consumer.consumerId);
+        continue;
+      }
+      if (await this.functionExists(consumer.processorFunctionName)) {
+        live.push(consumer.consumerId);
+        continue;
+      }
+      this.log.info('Removing orphaned consumer', { eventBusName, ...consumer });
+      await this.removeConsumer(eventBusName, eventBusArn, consumer.consumerId);
+    }
+    return live;
+  }
+
+  private async removeConsumer(eventBusName: string, eventBusArn: string, consumerId: string): Promise<void> {
+    await this.replaceStatement(eventBusName, consumerId);
+
+    for (const rule of await this.listRules(eventBusName)) {
+      const { Tags: tags = [] } = await this.events.send(new ListTagsForResourceCommand({ ResourceARN: rule.arn }));
+      if (!tags.some((tag) => tag.Key === CONSUMER_TAG_KEY && tag.Value === consumerId)) {
+        continue;
+      }
+      const { Targets: targets = [] } = await this.events.send(new ListTargetsByRuleCommand({ Rule: rule.name, EventBusName: eventBusName }));
+      if (targets.length > 0) {
+        await this.events.send(new RemoveTargetsCommand({ Rule: rule.name, EventBusName: eventBusName, Ids: targets.map((target) => target.Id!) }));
+      }
+      await this.events.send(new DeleteRuleCommand({ Name: rule.name, EventBusName: eventBusName }));
+    }
+
+    await this.events.send(new UntagResourceCommand({ ResourceARN: eventBusArn, TagKeys: [consumerTagKey(consumerId)] }));
+  }
+
+  /**
+   * Replaces (or with no statement, removes) the consumer's statement and writes the whole policy back
+   * Statements of other consumers and foreign statements are kept as they are. A concurrent writer may have read the
+   * policy before this write and overwrite it, so the policy is read back after a jittered delay and written again
+   * until the change is there.
+   */
+  private async replaceStatement(eventBusName: string, consumerId: string, statement?: BusPolicyStatement): Promise<void> {
+    const sid = statementId(consumerId);
+
+    for (let writes = 0; ; writes++) {
+      const policy = await this.readPolicy(eventBusName);
+      const current = policy.Statement.find((candidate) => candidate.Sid === sid);
+      if (statement ? current !== undefined && sameStatement(current, statement) : current === undefined) {
+        return;
+      }
+      if (writes === MAX_POLICY_WRITES) {
+        throw new Error(`Statement ${sid} was overwritten by concurrent bus policy updates ${writes} times - retry the deployment`);
+      }
+      if (writes > 0) {
+        this.log.warn('Bus policy was changed concurrently, writing again', { eventBusName, statementId: sid, writes });
+      }
+
+      const others = policy.Statement.filter((candidate) => candidate.Sid !== sid);
+      const statements = statement ? [...others, statement] : others;
+      if (statements.length === 0) {
+        await this.events.send(new RemovePermissionCommand({ EventBusName: eventBusName, RemoveAllPermissions: true }));
+      } else {
+        await this.events.send(new PutPermissionCommand({
+          EventBusName: eventBusName,
+          Policy: JSON.stringify({ ...policy, Statement: statements }),
+        }));
+      }
+      await this.sleep(POLICY_VERIFY_DELAY_MS * (0.5 + Math.random()));
+    }
+  }
+
+  private async readPolicy(eventBusName: string): Promise<BusPolicy> {
+    const policy = (await this.describeBus(eventBusName))?.policy;
+    return policy ? JSON.parse(policy) : { Version: '2012-10-17', Statement: [] };
+  }
+
+  private async describeBus(eventBusName: string): Promise<{ arn: string; policy?: string } | undefined> {
+    try {
+      const bus = await this.events.send(new DescribeEventBusCommand({ Name: eventBusName }));
+      return { arn: bus.Arn!, policy: bus.Policy };
+    } catch (error) {
+      if (isNotFound(error)) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  private async createBus(eventBusName: string): Promise<string> {
+    try {
+      const { EventBusArn: eventBusArn } = await this.events.send(new CreateEventBusCommand({ Name: eventBusName }));
+      this.log.info('Created shared bus', { eventBusName });
+      return eventBusArn!;
+    } catch (error) {
+      // Another deployment created it concurrently
+      if ((error as Error).name === 'ResourceAlreadyExistsException') {
+        return (await this.describeBus(eventBusName))!.arn;
+      }
+      throw error;
+    }
+  }
+
+  private async listRules(eventBusName: string): Promise<{ name: string; arn: string }[]> {
+    const rules: { name: string; arn: string }[] = [];
+    let nextToken: string | undefined;
+    do {
+      const page = await this.events.send(new ListRulesCommand({ EventBusName: eventBusName, NextToken: nextToken }));
+      rules.push(...(page.Rules ?? []).map((rule) => ({ name: rule.Name!, arn: rule.Arn! })));
+      nextToken = page.NextToken;
+    } while (nextToken);
+    return rules;
+  }
+
+  private async functionExists(functionName: string): Promise<boolean> {
+    try {
+      await this.lambda.send(new GetFunctionCommand({ FunctionName: functionName }));
+      return true;
+    } catch (error) {
+      if (isNotFound(error)) {
+        return false;
+      }
+      throw error;
+    }
+  }
+}
+
+const manager = new SharedBusManager(new EventBridgeClient({}), new LambdaClient({}));
+
+/**
+ * Provider framework onEvent handler - a changed bus or consumer gets a new physical ID, so CloudFormation
+ * deregisters the old one with a Delete event after the update
+ */
+export async function handler(event: CdkCustomResourceEvent<SharedBusProperties>): Promise<CdkCustomResourceResponse> {
+  const properties = event.ResourceProperties;
+  const physicalResourceId = `${properties.EventBusName}/${properties.ConsumerId}`;
+
+  if (event.RequestType === 'Delete') {
+    const { busDeleted } = await manager.deregister(properties);
+    return { PhysicalResourceId: event.PhysicalResourceId, Data: { BusDeleted: String(busDeleted) } };
+  }
+  const { eventBusArn } = await manager.register(properties);
+  return { PhysicalResourceId: physicalResourceId, Data: { EventBusArn: eventBusArn } };
+}
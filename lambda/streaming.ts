@@ -0,0 +1,167 @@
+import { createHash } from 'crypto';
+import { Readable, Transform } from 'stream';
+import {
+  S3Client,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+  CompletedPart,
+} from '@aws-sdk/client-s3';
+import { logger } from './observability';
+
+// S3 minimum part size is 5 MiB (except the last part)
+const MIN_PART_SIZE_BYTES = 5 * 1024 * 1024;
+export const DEFAULT_PART_SIZE_BYTES = 8 * 1024 * 1024;
+
+export interface MultipartUploadTarget {
+  readonly bucket: string;
+  readonly key: string;
+  readonly contentType?: string;
+  readonly contentEncoding?: string;
+  readonly metadata?: Record<string, string>;
+}
+
+export interface MultipartUploadResult {
+  readonly bytesWritten: number;
+  readonly partCount: number;
+  readonly versionId?: string; // Version of the uploaded object (versioned buckets only)
+}
+
+export interface Digest {
+  readonly sha256: string; // Hex encoded
+  readonly bytes: number;
+}
+
+/**
+ * Upload a binary stream to S3 using multipart upload
+ * Only one part is buffered at a time, so memory usage is bounded by partSizeBytes
+ * The upload is aborted on any error to avoid leaving orphaned parts behind
+ */
+export async function uploadStreamMultipart(
+  s3Client: S3Client,
+  target: MultipartUploadTarget,
+  source: Readable,
+  partSizeBytes: number = DEFAULT_PART_SIZE_BYTES,
+  abortSignal?: AbortSignal, // Aborts part uploads - the multipart upload itself is still aborted in S3
+): Promise<MultipartUploadResult> {
+  const partSize = Math.max(partSizeBytes, MIN_PART_SIZE_BYTES);
+
+  const { UploadId: uploadId } = await s3Client.send(new CreateMultipartUploadCommand({
+    Bucket: target.bucket,
+    Key: target.key,
+    ContentType: target.contentType,
+    ContentEncoding: target.contentEncoding,
+    Metadata: target.metadata,
+  }));
+
+  if (!uploadId) {
+    logger.debug('No upload ID for multipart upload', { bucket: target.bucket, key: target.key });
+    throw new Error(`Failed to create multipart upload in ${target.bucket}`);
+  }
+
+  const parts: CompletedPart[] = [];
+  let bytesWritten = 0;
+  let versionId: string | undefined;
+
+  const uploadPart = async (body: Buffer): Promise<void> => {
+    const partNumber = parts.length + 1;
+    const { ETag } = await s3Client.send(new UploadPartCommand({
+      Bucket: target.bucket,
+      Key: target.key,
+      UploadId: uploadId,
+      PartNumber: partNumber,
+      Body: body,
+    }), { abortSignal });
+    parts.push({ ETag, PartNumber: partNumber });
+    bytesWritten += body.length;
+  };
+
+  try {
+    let pending: Buffer[] = [];
+    let pendingBytes = 0;
+
+    for await (const chunk of source) {
+      const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+      pending.push(buffer);
+      pendingBytes += buffer.length;
+
+      while (pendingBytes >= partSize) {
+        const combined = Buffer.concat(pending);
+        await uploadPart(combined.subarray(0, partSize));
+        const rest = combined.subarray(partSize);
+        pending = rest.length > 0 ? [rest] : [];
+        pendingBytes = rest.length;
+      }
+    }
+
+    // Last part may be smaller than the minimum part size (also covers empty objects)
+    if (pendingBytes > 0 || parts.length === 0) {
+      await uploadPart(Buffer.concat(pending));
+    }
+
+    const completed = await s3Client.send(new CompleteMultipartUploadCommand({
+      Bucket: target.bucket,
+      Key: target.key,
+      UploadId: uploadId,
+      MultipartUpload: { Parts: parts },
+    }));
+    versionId = completed.VersionId;
+  } catch (error) {
+    logger.warn('Aborting multipart upload', { bucket: target.bucket, uploadId, error: error as Error });
+    await s3Client.send(new AbortMultipartUploadCommand({
+      Bucket: target.bucket,
+      Key: target.key,
+      UploadId: uploadId,
+    })).catch((abortError) => logger.error('Failed to abort multipart upload', { uploadId, error: abortError as Error }));
+    throw error;
+  }
+
+  return { bytesWritten, partCount: parts.length, versionId };
+}
+
+/**
+ * SHA-256 and byte count of a buffer (buffered path)
+ */
+export function digestBuffer(buffer: Buffer): Digest {
+  return { sha256: createHash('sha256').update(buffer).digest('hex'), bytes: buffer.length };
+}
+
+/**
+ * Pass-through stream that hashes and counts the bytes flowing through it (streaming path)
+ * digest() is only complete once the stream has ended
+ */
+export function createDigestStream(): { stream: Transform; digest: () => Digest } {
+  const hash = createHash('sha256');
+  let bytes = 0;
+  let sha256: string | undefined;
+
+  const stream = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      hash.update(chunk);
+      bytes += chunk.length;
+      callback(null, chunk);
+    },
+  });
+
+  return {
+    stream,
+    digest: () => {
+      sha256 ??= hash.digest('hex');
+      return { sha256, bytes };
+    },
+  };
+}
+
+/**
+ * Read a stream fully into memory - only used for objects below the streaming threshold
+ */
+export async function streamToBuffer(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+
+  for await (const chunk of stream) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+
+  return Buffer.concat(chunks);
+}
@@ -0,0 +1,382 @@
+import { PassThrough, Transform } from 'stream';
+import { createGzip, gzipSync } from 'zlib';
+import { BuiltInTransformerName } from '../src/transformers';
+
+/**
+ * Input handed to a transformer for a single S3 object
+ */
+export interface TransformInput {
+  readonly key: string;
+  readonly contentType?: string;
+  readonly body: Buffer;
+  readonly options?: Record<string, unknown>;
+}
+
+/**
+ * Result of a transformer - body plus optional overrides for the output object
+ */
+export interface TransformOutput {
+  readonly body: Buffer;
+  readonly contentType?: string;
+  readonly contentEncoding?: string;
+}
+
+/**
+ * Input for streaming transformers - same as TransformInput without the body
+ */
+export type StreamTransformInput = Omit<TransformInput, 'body'>;
+
+export interface StreamTransformOutput {
+  readonly stream: Transform;
+  readonly contentType?: string;
+  readonly contentEncoding?: string;
+}
+
+/**
+ * transform() handles objects that fit in memory
+ * createStream() is required for objects above the streaming threshold - transformers that
+ * need the whole document (e.g. json-schema) leave it undefined
+ */
+export interface Transformer {
+  readonly name: string;
+  transform(input: TransformInput): TransformOutput;
+  createStream?(input: StreamTransformInput): StreamTransformOutput;
+}
+
+/**
+ * Routing rule - all matchers that are set must match (AND), first matching rule wins
+ * Mirrors TransformerRoute in src/stack-rps.ts (passed in via TRANSFORMER_ROUTES)
+ */
+export interface TransformerRoute {
+  readonly keyPrefix?: string;
+  readonly extension?: string;
+  readonly contentType?: string;
+  readonly transformer: string;
+  readonly options?: Record<string, unknown>;
+}
+
+export interface ResolvedTransformer {
+  readonly transformer: Transformer;
+  readonly options?: Record<string, unknown>;
+}
+
+/**
+ * Original behaviour: prepend a processing header to text content
+ * Non-text content types pass through unchanged - a header would corrupt binary objects
+ */
+const headerTransformer: Transformer = {
+  name: 'header',
+  transform: ({ key, contentType, body, options }) => ({
+    body: isTextContentType(contentType) ? Buffer.concat([buildHeader(key, options), body]) : body,
+  }),
+  createStream: ({ key, contentType, options }) => {
+    if (!isTextContentType(contentType)) {
+      return { stream: new PassThrough() };
+    }
+    const header = buildHeader(key, options);
+    let headerWritten = false;
+
+    const stream = new Transform({
+      transform(chunk, _encoding, callback) {
+        if (!headerWritten) {
+          this.push(header);
+          headerWritten = true;
+        }
+        callback(null, chunk);
+      },
+      flush(callback) {
+        if (!headerWritten) {
+          this.push(header);
+        }
+        callback();
+      },
+    });
+
+    return { stream };
+  },
+};
+
+/**
+ * text/*, JSON, XML, CSV and YAML (including +json/+xml types) - objects without a content type are treated as text
+ */
+function isTextContentType(contentType?: string): boolean {
+  if (contentType === undefined) {
+    return true;
+  }
+  const baseContentType = contentType.split(';')[0].trim().toLowerCase();
+  return baseContentType.startsWith('text/')
+    || /^application\/(json|xml|csv|yaml|x-yaml|x-ndjson|javascript)$/.test(baseContentType)
+    || /\+(json|xml)$/.test(baseContentType);
+}
+
+function buildHeader(key: string, options?: Record<string, unknown>): Buffer {
+  const processedBy = (options?.processedBy as string | undefined) ?? process.env.PREFIX;
+  const timestamp = new Date().toISOString();
+  return Buffer.from(`# Processed by ${processedBy} at ${timestamp}\n# Source: ${key}\n\n`, 'utf-8');
+}
+
+const passthroughTransformer: Transformer = {
+  name: 'passthrough',
+  transform: ({ body }) => ({ body }),
+  createStream: () => ({ stream: new PassThrough() }),
+};
+
+/**
+ * CSV normalisation: strip BOM, unify line endings, trim unquoted cells, drop blank lines
+ */
+const csvTransformer: Transformer = {
+  name: 'csv',
+  transform: ({ body, options }) => {
+    const delimiter = csvDelimiter(options);
+    const text = body.toString('utf-8').replace(/^\uFEFF/, '');
+
+    const lines = text
+      .split(/\r\n|\r|\n/)
+      .filter((line) => line.trim().length > 0)
+      .map((line) => normaliseCsvLine(line, delimiter));
+
+    return {
+      body: Buffer.from(`${lines.join('\n')}\n`, 'utf-8'),
+      contentType: 'text/csv',
+    };
+  },
+  createStream: ({ options }) => {
+    const delimiter = csvDelimiter(options);
+    // Lines can span chunk boundaries - keep the incomplete tail until the next chunk
+    let remainder = Buffer.alloc(0);
+    let first = true;
+
+    const emitLines = (transform: Transform, text: string): void => {
+      const output = text
+        .split(/\r\n|\r|\n/)
+        .filter((line) => line.trim().length > 0)
+        .map((line) => `${normaliseCsvLine(line, delimiter)}\n`)
+        .join('');
+      if (output.length > 0) {
+        transform.push(Buffer.from(output, 'utf-8'));
+      }
+    };
+
+    const stream = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        const data = Buffer.concat([remainder, chunk]);
+        // Split at the last CR or LF - both are single bytes, so multi-byte characters are never cut. A CRLF pair cut
+        // in two only leaves an empty line, and blank lines are dropped anyway
+        const lastNewline = Math.max(data.lastIndexOf(0x0a), data.lastIndexOf(0x0d));
+        if (lastNewline === -1) {
+          remainder = data;
+          callback();
+          return;
+        }
+        let text = data.subarray(0, lastNewline + 1).toString('utf-8');
+        remainder = data.subarray(lastNewline + 1);
+        if (first) {
+          text = text.replace(/^\uFEFF/, '');
+          first = false;
+        }
+        emitLines(this, text);
+        callback();
+      },
+      flush(callback) {
+        let text = remainder.toString('utf-8');
+        if (first) {
+          text = text.replace(/^\uFEFF/, '');
+        }
+        emitLines(this, text);
+        callback();
+      },
+    });
+
+    return { stream, contentType: 'text/csv' };
+  },
+};
+
+function csvDelimiter(options?: Record<string, unknown>): string {
+  return (options?.delimiter as string | undefined) ?? ',';
+}
+
+function normaliseCsvLine(line: string, delimiter: string): string {
+  return line
+    .split(delimiter)
+    .map((cell) => (cell.trim().startsWith('"') ? cell : cell.trim()))
+    .join(delimiter);
+}
+
+/**
+ * JSON validation against a minimal schema subset (type, required, properties)
+ * Invalid documents throw - the processor quarantines them as permanent failures without retrying
+ */
+const jsonSchemaTransformer: Transformer = {
+  name: 'json-schema',
+  transform: ({ body, options }) => {
+    let document: unknown;
+    try {
+      document = JSON.parse(body.toString('utf-8'));
+    } catch (error) {
+      throw new Error(`Invalid JSON: ${(error as Error).message}`);
+    }
+
+    const schema = options?.schema as JsonSchema | undefined;
+    if (schema) {
+      const errors = validateJsonSchema(document, schema, '$');
+      if (errors.length > 0) {
+        throw new Error(`JSON schema validation failed: ${errors.join('; ')}`);
+      }
+    }
+
+    return { body, contentType: 'application/json' };
+  },
+};
+
+const gzipTransformer: Transformer = {
+  name: 'gzip',
+  transform: ({ body }) => ({
+    body: gzipSync(body),
+    contentEncoding: 'gzip',
+  }),
+  createStream: () => ({
+    stream: createGzip(),
+    contentEncoding: 'gzip',
+  }),
+};
+
+/**
+ * Keyed by the names StackRps validates against (src/transformers.ts) - a name without an implementation fails to compile
+ */
+const BUILT_IN_TRANSFORMERS: Record<BuiltInTransformerName, Transformer> = {
+  'header': headerTransformer,
+  'passthrough': passthroughTransformer,
+  'csv': csvTransformer,
+  'json-schema': jsonSchemaTransformer,
+  'gzip': gzipTransformer,
+};
+
+/**
+ * Registry of transformers, chosen per object by routing rules
+ * Built-in transformers are always registered; additional ones can be added with register()
+ */
+export class TransformerRegistry {
+  private readonly transformers = new Map<string, Transformer>();
+
+  constructor(
+    private readonly routes: TransformerRoute[] = [],
+    private readonly defaultTransformer: string = 'header',
+  ) {
+    Object.values(BUILT_IN_TRANSFORMERS).forEach((transformer) => this.register(transformer));
+  }
+
+  public register(transformer: Transformer): void {
+    this.transformers.set(transformer.name, transformer);
+  }
+
+  public get(name: string): Transformer {
+    const transformer = this.transformers.get(name);
+    if (!transformer) {
+      throw new Error(`Unknown transformer: ${name}`);
+    }
+    return transformer;
+  }
+
+  public resolve(key: string, contentType?: string): ResolvedTransformer {
+    const route = this.routes.find((candidate) => matchesRoute(candidate, key, contentType));
+
+    if (route) {
+      return { transformer: this.get(route.transformer), options: route.options };
+    }
+
+    return { transformer: this.get(this.defaultTransformer) };
+  }
+}
+
+/**
+ * Build registry from Lambda environment (TRANSFORMER_ROUTES, DEFAULT_TRANSFORMER)
+ */
+export function createRegistryFromEnv(env: NodeJS.ProcessEnv = process.env): TransformerRegistry {
+  let routes: TransformerRoute[] = [];
+
+  if (env.TRANSFORMER_ROUTES) {
+    try {
+      routes = JSON.parse(env.TRANSFORMER_ROUTES);
+    } catch (error) {
+      throw new Error(`TRANSFORMER_ROUTES is not valid JSON: ${(error as Error).message}`);
+    }
+  }
+
+  return new TransformerRegistry(routes, env.DEFAULT_TRANSFORMER || 'header');
+}
+
+function matchesRoute(route: TransformerRoute, key: string, contentType?: string): boolean {
+  if (route.keyPrefix !== undefined && !key.startsWith(route.keyPrefix)) {
+    return false;
+  }
+  if (route.extension !== undefined && !key.toLowerCase().endsWith(normaliseExtension(route.extension))) {
+    return false;
+  }
+  if (route.contentType !== undefined) {
+    // Ignore parameters such as "; charset=utf-8"
+    const baseContentType = contentType?.split(';')[0].trim().toLowerCase();
+    if (baseContentType !== route.contentType.toLowerCase()) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function normaliseExtension(extension: string): string {
+  const lower = extension.toLowerCase();
+  return lower.startsWith('.') ? lower : `.${lower}`;
+}
+
+interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+  required?: string[];
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+}
+
+function validateJsonSchema(value: unknown, schema: JsonSchema, path: string): string[] {
+  const errors: string[] = [];
+
+  if (schema.type && !matchesJsonType(value, schema.type)) {
+    return [`${path} must be of type ${schema.type}`];
+  }
+
+  if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+    const record = value as Record<string, unknown>;
+
+    for (const property of schema.required ?? []) {
+      if (!(property in record)) {
+        errors.push(`${path}.${property} is required`);
+      }
+    }
+
+    for (const [property, propertySchema] of Object.entries(schema.properties ?? {})) {
+      if (property in record) {
+        errors.push(...validateJsonSchema(record[property], propertySchema, `${path}.${property}`));
+      }
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => {
+      errors.push(...validateJsonSchema(item, schema.items!, `${path}[${index}]`));
+    });
+  }
+
+  return errors;
+}
+
+function matchesJsonType(value: unknown, type: NonNullable<JsonSchema['type']>): boolean {
+  switch (type) {
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return value !== null && typeof value === 'object' && !Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'null':
+      return value === null;
+    default:
+      return typeof value === type;
+  }
+}
@@ -22,6 +22,7 @@ export PREFIX="${PREFIX}"
 export ACCOUNT_CORE_ID="${ACCOUNT_CORE_ID:-111111111111}"
 export ACCOUNT_RPS_ID="${ACCOUNT_RPS_ID:-222222222222}"
 export REGION="${REGION:-eu-west-1}"
+export ENVIRONMENT_TIER="${ENVIRONMENT_TIER:-dev}"
 
 echo "========================================="
 echo "Developer Deployment"
@@ -30,6 +31,7 @@ echo "Prefix:           ${PREFIX}"
 echo "Core Account:     ${ACCOUNT_CORE_ID}"
 echo "RPS Account:      ${ACCOUNT_RPS_ID}"
 echo "Region:           ${REGION}"
+echo "Tier:             ${ENVIRONMENT_TIER}"
 echo "========================================="
 echo ""
 
@@ -59,7 +61,7 @@ fi
 # Deploy
 echo ""
 echo "Deploying ${PREFIX}-StackRps..."
-npx cdk deploy ${PREFIX}-StackRps --profile rps-account
+npx cdk deploy --exclusively ${PREFIX}-StackRps --profile rps-account
 
 echo ""
 echo "========================================="
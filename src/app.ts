@@ -0,0 +1,152 @@
+import { Construct } from 'constructs';
+import { DeploymentConfig, outputKeyTemplatesByPipeline } from './config';
+import { consumerEventBusArn, DEFAULT_CONSUMER_NAME } from './consumers';
+import { coreBucketName, DEFAULT_PIPELINE_NAME } from './pipelines';
+import { StackCore } from './stack-core';
+import { StackCoreReplica } from './stack-core-replica';
+import { StackRps } from './stack-rps';
+
+/**
+ * Stacks of one stage
+ */
+export interface DeploymentStacks {
+  readonly stackCoreReplica?: StackCoreReplica;
+  readonly stackCore: StackCore;
+  readonly stackRps: StackRps;
+}
+
+/**
+ * Adds the stacks of one stage to the app (used by main.ts and by synth-only tests)
+ *
+ * Deployment order, recorded as stack dependencies so the deploy driver (src/deploy.ts) can derive it:
+ *   StackCoreReplica and StackRps first - replication destinations and the RPS event bus must exist
+ *   StackCore last - its rules target the RPS bus and it replicates into StackCoreReplica
+ */
+export function addDeploymentStacks(scope: Construct, config: DeploymentConfig): DeploymentStacks {
+  const {
+    stage: prefix,
+    environmentTier,
+    region,
+    accountCoreId,
+    accountRpsId,
+    // Optional: Deployment prefix for multi-developer isolation
+    deploymentPrefix: developerPrefix,
+    // Optional: Existing event bus name for shared dev environments (multi-developer)
+    // If provided, multiple developers can share a single event bus instead of creating individual ones
+    existingEventBusName,
+    // Optional: Pipelines (data feeds), each with its own input/output bucket pair
+    pipelines: pipelineNames = [DEFAULT_PIPELINE_NAME],
+    // Optional: ExternalId the Core S3 access role requires (set on both stacks)
+    s3AccessRoleExternalId,
+    // Optional: What happens to output objects when their input is deleted (ignore, delete, tombstone)
+    deletionHandling = 'ignore',
+    // Optional: Output key template per pipeline ('{pipeline}={template}', default: same key as the input)
+    outputKeyTemplates = [],
+    // Optional: DR mode - Core buckets replicated to this region, failover switches the processor to the replicas
+    drReplicaRegion,
+    drFailover: failover = false,
+    // Optional: RPS bus policy - further Core accounts and an organization condition
+    additionalCoreAccountIds,
+    coreOrganizationId,
+  } = config;
+
+  // Construct bucket names per pipeline (predictable naming, no cross-account references needed)
+  const templates = outputKeyTemplatesByPipeline(outputKeyTemplates);
+  const pipelines = pipelineNames.map((name) => ({
+    name,
+    inputBucketName: coreBucketName('input', prefix, name, accountCoreId, region),
+    outputBucketName: coreBucketName('output', prefix, name, accountCoreId, region),
+    ...(templates[name] && { outputKeyTemplate: templates[name] }),
+    ...(drReplicaRegion && {
+      replicaInputBucketName: coreBucketName('input', prefix, name, accountCoreId, drReplicaRegion),
+      replicaOutputBucketName: coreBucketName('output', prefix, name, accountCoreId, drReplicaRegion),
+    }),
+  }));
+
+  // Core rules target the bus the RPS stack uses - a shared bus replaces {prefix}-cross-account-bus on both sides
+  const consumerProps = existingEventBusName
+    ? {
+      consumers: [{
+        name: DEFAULT_CONSUMER_NAME,
+        accountId: accountRpsId,
+        eventBusArn: consumerEventBusArn(prefix, region, accountRpsId, existingEventBusName),
+      }],
+    }
+    : { accountRpsId };
+
+  // DR mode: replica buckets and standby rules in the replica region, deployed before the Core stack
+  const stackCoreReplica = drReplicaRegion
+    ? new StackCoreReplica(scope, `${prefix}-StackCoreReplica`, {
+      prefix,
+      ...consumerProps,
+      region: drReplicaRegion,
+      primaryRegion: region,
+      environmentTier,
+      pipelines: pipelines.map(({ name }) => ({ name })),
+      failover,
+      forwardDeleteEvents: deletionHandling !== 'ignore',
+      env: {
+        account: accountCoreId,
+        region: drReplicaRegion,
+      },
+      stackName: `${prefix}-core-replica-stack`,
+      description: `Core Replica Stack for ${prefix}: DR replica buckets with standby EventBridge rules`,
+    })
+    : undefined;
+
+  // Deploy Core Stack (source account with S3 buckets)
+  const stackCore = new StackCore(scope, `${prefix}-StackCore`, {
+    prefix,
+    ...consumerProps,
+    region,
+    environmentTier,
+    pipelines: pipelines.map(({ name, outputKeyTemplate }) => ({ name, outputKeyTemplate })),
+    s3AccessRoleExternalId,
+    forwardDeleteEvents: deletionHandling !== 'ignore',
+    drReplicaRegion,
+    env: {
+      account: accountCoreId,
+      region,
+    },
+    stackName: `${prefix}-core-stack`,
+    description: `Core Stack for ${prefix}: Input/output S3 buckets with EventBridge notifications`,
+  });
+  if (stackCoreReplica) {
+    stackCore.addStackDependency(stackCoreReplica, 'Replication destinations must exist');
+  }
+
+  // Construct stack ID and name based on deployment prefix
+  // With deployment prefix: dev-john-StackRps, dev-john-rps-stack
+  // Without deployment prefix: dev-StackRps, dev-rps-stack
+  const rpsStackId = developerPrefix ? `${prefix}-${developerPrefix}-StackRps` : `${prefix}-StackRps`;
+  const rpsStackName = developerPrefix ? `${prefix}-${developerPrefix}-rps-stack` : `${prefix}-rps-stack`;
+
+  const stackRps = new StackRps(scope, rpsStackId, {
+    prefix,
+    deploymentPrefix: developerPrefix,
+    accountCoreId,
+    additionalCoreAccountIds,
+    coreOrganizationId,
+    pipelines,
+    manifestBucketName: coreBucketName('manifest', prefix, DEFAULT_PIPELINE_NAME, accountCoreId, region),
+    region,
+    environmentTier,
+    existingEventBusName,
+    coreS3AccessRoleExternalId: s3AccessRoleExternalId,
+    deletionHandling,
+    coreReplicaRegion: drReplicaRegion,
+    failover,
+    env: {
+      account: accountRpsId,
+      region,
+    },
+    stackName: rpsStackName,
+    description: developerPrefix
+      ? `RPS Stack for ${prefix}-${developerPrefix}: Lambda processor with SQS and EventBridge`
+      : `RPS Stack for ${prefix}: Lambda processor with SQS and EventBridge`,
+  });
+  // Cross-account: no CloudFormation reference, only the deployment order
+  stackCore.addStackDependency(stackRps, 'Core rules target the RPS event bus');
+
+  return { stackCoreReplica, stackCore, stackRps };
+}
@@ -0,0 +1,184 @@
+import { randomUUID } from 'crypto';
+import { ListObjectVersionsCommand, ObjectVersion, S3Client } from '@aws-sdk/client-s3';
+import { SendMessageBatchCommand } from '@aws-sdk/client-sqs';
+import { SqsSender, SQS_BATCH_SIZE } from './dlq';
+import { createRateLimiter } from './rate-limit';
+
+/**
+ * Reprocess objects that are already in a Core input bucket
+ *
+ * Lists the latest object versions under a key prefix and last-modified range and enqueues one
+ * EventBridge "Object Created" event per object on the RPS processor queue - the same message shape the
+ * RPS rule delivers, so the processor handles them like new uploads. Events carry a backfill run ID in
+ * detail['backfill-run-id']; the processing ledger keys on it, so versions completed earlier are processed again
+ * once per run.
+ */
+export type S3Lister = Pick<S3Client, 'send'>;
+
+export interface BackfillObject {
+  readonly key: string;
+  readonly versionId?: string;
+  readonly etag: string;
+  readonly size: number;
+  readonly lastModified: Date;
+}
+
+export interface BackfillOptions {
+  readonly bucket: string; // Core input bucket
+  readonly queueUrl: string; // RPS processor queue of the bucket's pipeline
+  readonly keyPrefix?: string;
+  readonly from?: Date; // Inclusive lower bound on LastModified
+  readonly to?: Date; // Exclusive upper bound on LastModified
+  readonly runId?: string; // Default: random UUID
+  readonly maxObjects?: number; // Stop after enqueueing this many objects
+  readonly messagesPerSecond?: number; // Default: 10
+  readonly dryRun?: boolean; // List matching objects without enqueueing
+  readonly sleep?: (ms: number) => Promise<void>;
+  readonly onProgress?: (progress: BackfillProgress) => void;
+}
+
+export interface BackfillProgress {
+  readonly listed: number; // Object versions seen
+  readonly matched: number; // Latest versions in the date range
+  readonly enqueued: number;
+  readonly failed: number;
+}
+
+export interface BackfillResult extends BackfillProgress {
+  readonly runId: string;
+  readonly failures: { readonly key: string; readonly reason: string }[];
+}
+
+/**
+ * Latest, non-deleted versions under keyPrefix with from <= LastModified < to
+ */
+export async function* listBackfillObjects(
+  s3: S3Lister,
+  options: Pick<BackfillOptions, 'bucket' | 'keyPrefix' | 'from' | 'to'>,
+  onPage?: (listed: number) => void,
+): AsyncGenerator<BackfillObject> {
+  let keyMarker: string | undefined;
+  let versionIdMarker: string | undefined;
+
+  do {
+    const page = await s3.send(new ListObjectVersionsCommand({
+      Bucket: options.bucket,
+      Prefix: options.keyPrefix,
+      KeyMarker: keyMarker,
+      VersionIdMarker: versionIdMarker,
+    }));
+    onPage?.((page.Versions ?? []).length);
+
+    for (const version of page.Versions ?? []) {
+      if (version.IsLatest && inRange(version, options.from, options.to)) {
+        yield {
+          key: version.Key!,
+          versionId: version.VersionId === 'null' ? undefined : version.VersionId,
+          etag: (version.ETag ?? '').replace(/"/g, ''),
+          size: version.Size ?? 0,
+          lastModified: version.LastModified!,
+        };
+      }
+    }
+
+    keyMarker = page.IsTruncated ? page.NextKeyMarker : undefined;
+    versionIdMarker = page.IsTruncated ? page.NextVersionIdMarker : undefined;
+  } while (keyMarker);
+}
+
+/**
+ * EventBridge S3 "Object Created" event for an existing object, as the RPS rule delivers it to SQS
+ * Account and region come from the bucket name ({...}-bucket-{account}-{region}, see RESOURCE-CONTRACT.md)
+ * The event time is the object's last-modified time, so date-based output keys match the original upload
+ */
+export function backfillEvent(bucket: string, object: BackfillObject, runId: string): object {
+  const [, account = '', region = ''] = /-(\d{12})-([a-z]{2}(?:-[a-z]+)+-\d)$/.exec(bucket) ?? [];
+
+  return {
+    'version': '0',
+    'id': randomUUID(),
+    'detail-type': 'Object Created',
+    'source': 'aws.s3',
+    account,
+    'time': object.lastModified.toISOString(),
+    region,
+    'resources': [`arn:aws:s3:::${bucket}`],
+    'detail': {
+      'version': '0',
+      'bucket': { name: bucket },
+      'object': {
+        key: encodeS3Key(object.key),
+        size: object.size,
+        etag: object.etag,
+        ...(object.versionId && { 'version-id': object.versionId }),
+        // Not an S3 sequencer - last-modified time in hex, so it still orders writes to the same key
+        sequencer: object.lastModified.getTime().toString(16).toUpperCase().padStart(16, '0'),
+      },
+      'request-id': runId,
+      'requester': 'backfill',
+      'reason': 'Backfill',
+      'backfill-run-id': runId,
+    },
+  };
+}
+
+export async function runBackfill(s3: S3Lister, sqs: SqsSender, options: BackfillOptions): Promise<BackfillResult> {
+  const runId = options.runId ?? randomUUID();
+  const rateLimit = createRateLimiter(options.messagesPerSecond ?? 10, options.sleep);
+  const maxObjects = options.maxObjects ?? Number.POSITIVE_INFINITY;
+
+  let listed = 0;
+  let matched = 0;
+  let enqueued = 0;
+  const failures: { key: string; reason: string }[] = [];
+  const progress = () => ({ listed, matched, enqueued, failed: failures.length });
+
+  let batch: BackfillObject[] = [];
+  const flush = async () => {
+    if (batch.length === 0) {
+      return;
+    }
+    if (!options.dryRun) {
+      await rateLimit(batch.length);
+      const response = await sqs.send(new SendMessageBatchCommand({
+        QueueUrl: options.queueUrl,
+        Entries: batch.map((object, index) => ({
+          Id: String(index),
+          MessageBody: JSON.stringify(backfillEvent(options.bucket, object, runId)),
+        })),
+      }));
+      enqueued += (response.Successful ?? []).length;
+      for (const entry of response.Failed ?? []) {
+        failures.push({ key: batch[Number(entry.Id)].key, reason: entry.Message ?? entry.Code ?? 'SendMessage failed' });
+      }
+    }
+    batch = [];
+    options.onProgress?.(progress());
+  };
+
+  for await (const object of listBackfillObjects(s3, options, (count) => { listed += count; })) {
+    if (matched >= maxObjects) {
+      break;
+    }
+    matched += 1;
+    batch.push(object);
+    if (batch.length === SQS_BATCH_SIZE) {
+      await flush();
+    }
+  }
+  await flush();
+
+  return { runId, ...progress(), failures };
+}
+
+function inRange(version: ObjectVersion, from?: Date, to?: Date): boolean {
+  const lastModified = version.LastModified?.getTime() ?? 0;
+  return (!from || lastModified >= from.getTime()) && (!to || lastModified < to.getTime());
+}
+
+/**
+ * URL-encode a key the way S3 events do ('/' kept, spaces as '+') - the processor decodes it
+ */
+function encodeS3Key(key: string): string {
+  return encodeURIComponent(key).replace(/%2F/g, '/').replace(/%20/g, '+');
+}
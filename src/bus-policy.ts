@@ -0,0 +1,59 @@
+import * as iam from 'aws-cdk-lib/aws-iam';
+
+export interface CoreBusPolicyProps {
+  readonly statementId: string; // AllowCoreAccount-{resourcePrefix}, unique per deployment sharing the bus
+  readonly eventBusArn: string;
+  readonly coreAccountIds: string[]; // Accounts whose Core rules may send (aws:SourceAccount)
+  readonly coreRuleArns: string[]; // Core rule ARNs, '*' wildcards allowed (aws:SourceArn)
+  readonly organizationId?: string; // Any principal of this organization instead of the account roots (aws:PrincipalOrgID)
+}
+
+/**
+ * Statement of the RPS bus resource policy letting the Core rules put events
+ *
+ * Without an organization ID, the Core account roots are the principals. With one, the principal is '*' restricted
+ * by aws:PrincipalOrgID. Either way, events are only accepted from the Core accounts (aws:SourceAccount) and their
+ * rules (aws:SourceArn) - other rules or callers in the same accounts are rejected.
+ */
+export function coreBusPolicyStatement(props: CoreBusPolicyProps): iam.PolicyStatement {
+  validateCoreBusPolicyProps(props);
+
+  return new iam.PolicyStatement({
+    sid: props.statementId,
+    effect: iam.Effect.ALLOW,
+    principals: props.organizationId
+      ? [new iam.AnyPrincipal()]
+      : props.coreAccountIds.map((accountId) => new iam.ArnPrincipal(`arn:aws:iam::${accountId}:root`)),
+    actions: ['events:PutEvents'],
+    resources: [props.eventBusArn],
+    conditions: {
+      StringEquals: {
+        ...(props.organizationId && { 'aws:PrincipalOrgID': props.organizationId }),
+        'aws:SourceAccount': props.coreAccountIds,
+      },
+      ArnLike: {
+        'aws:SourceArn': props.coreRuleArns,
+      },
+    },
+  });
+}
+
+function validateCoreBusPolicyProps(props: CoreBusPolicyProps): void {
+  if (props.coreAccountIds.length === 0) {
+    throw new Error('CoreBusPolicy: at least one Core account ID is required');
+  }
+  const invalid = props.coreAccountIds.find((accountId) => !/^\d{12}$/.test(accountId));
+  if (invalid !== undefined) {
+    throw new Error(`CoreBusPolicy: Core account IDs must be 12-digit AWS account IDs, got: ${invalid}`);
+  }
+  const duplicate = props.coreAccountIds.find((accountId, index) => props.coreAccountIds.indexOf(accountId) !== index);
+  if (duplicate !== undefined) {
+    throw new Error(`CoreBusPolicy: duplicate Core account ID: ${duplicate}`);
+  }
+  if (props.organizationId !== undefined && !/^o-[a-z0-9]{10,32}$/.test(props.organizationId)) {
+    throw new Error(`CoreBusPolicy: organizationId must be an AWS Organizations ID such as o-a1b2c3d4e5, got: ${props.organizationId}`);
+  }
+  if (props.coreRuleArns.length === 0) {
+    throw new Error('CoreBusPolicy: at least one Core rule ARN is required');
+  }
+}
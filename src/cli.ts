@@ -0,0 +1,408 @@
+import { spawn } from 'child_process';
+import { parseArgs } from 'util';
+import { S3Client } from '@aws-sdk/client-s3';
+import { SQSClient } from '@aws-sdk/client-sqs';
+import { runBackfill, S3Lister } from './backfill';
+import { readContracts, verifyContracts } from './contract';
+import { REQUIRE_APPROVAL_LEVELS, RequireApproval, runDeployment } from './deploy';
+import {
+  formatDlqTable,
+  listDlqMessages,
+  processorQueueNames,
+  redriveMessages,
+  resolveQueueUrl,
+  SqsSender,
+} from './dlq';
+
+/**
+ * Operator CLI for a deployed flow
+ *
+ * Usage: npx ts-node src/cli.ts <command> <subcommand> [options]
+ *   dlq list     List processor DLQ messages (bucket, key, receive count)
+ *   dlq redrive  Move DLQ messages back to the processor queue
+ *                (--quarantine: the quarantine queue instead of the DLQ)
+ *   backfill     Reprocess objects already in a Core input bucket
+ *   deploy       Deploy the stacks of one or more stages in dependency order (cdk CLI)
+ *   contract verify  Check that the Core and RPS contract files of a cloud assembly agree
+ *
+ * Uses the default AWS credential chain (AWS_PROFILE etc.). --endpoint-url points the SQS client at a
+ * local stand-in such as ElasticMQ or LocalStack.
+ */
+
+/**
+ * Invalid command line - printed with the usage text, exit code 2
+ */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+export interface CliIo {
+  readonly out: (line: string) => void;
+  readonly err: (line: string) => void;
+  readonly sqsClient?: (options: { region?: string; endpoint?: string }) => SqsSender;
+  readonly s3Client?: (options: { region?: string; profile?: string }) => S3Lister;
+  readonly run?: (command: string, args: string[]) => Promise<number>;
+}
+
+const USAGE = `Usage: cli.ts dlq <list|redrive> [options]
+       cli.ts backfill --bucket <input bucket> [options]
+       cli.ts deploy --stages <stage,...> [options]
+       cli.ts contract verify [--app <cloud assembly dir>]
+
+Queue selection (one of):
+  --prefix <prefix>          Resource prefix of StackRps (e.g. dev or dev-john)
+  --pipeline <name>          Pipeline name (default: default)
+  --queue <name|url>         dlq: DLQ name or URL; backfill: processor queue name or URL
+  --target <name|url>        dlq redrive: processor queue name or URL (default: derived from --prefix/--pipeline)
+
+Options:
+  --region <region>          AWS region (default: AWS_REGION)
+  --endpoint-url <url>       SQS endpoint (local stand-in)
+  --max <n>                  Maximum messages / objects (default: 1000 messages, all objects)
+  --rate <n>                 Messages per second sent to the processor queue (default: 10)
+  --dry-run                  Only report what would be sent
+
+dlq:
+  --json                     list: print decoded messages as JSON (includes message bodies)
+  --message-id <id>          redrive: message to redrive (repeatable)
+  --all                      redrive: redrive every message in the DLQ
+  --quarantine               Use the quarantine queue (permanent failures) instead of the DLQ
+
+backfill:
+  --bucket <name>            Core input bucket of the pipeline
+  --key-prefix <prefix>      Only objects under this key prefix
+  --from <date>              Only objects last modified at or after this ISO date/time
+  --to <date>                Only objects last modified before this ISO date/time
+  --run-id <id>              Backfill run ID (default: random) - reusing an ID skips objects that run completed
+  --core-profile <profile>   AWS profile for listing the Core input bucket (default: credential chain)
+
+deploy:
+  --stages <stage,...>       Stages in promotion order - a stage is deployed only after the previous ones succeeded
+  --profile <account=name>   AWS profile for an account (repeatable, required when a stage spans accounts)
+  --output <dir>             Directory for the per-stage cloud assemblies (default: cdk.out/stages)
+  --require-approval <level> Passed to cdk deploy: never, any-change or broadening
+  --dry-run                  Synthesize and print the deployment waves only
+
+contract verify:
+  --app <dir>                Cloud assembly directory holding the *.contract.json files (default: cdk.out)`;
+
+const DEFAULT_IO: CliIo = {
+  out: (line) => console.log(line),
+  err: (line) => console.error(line),
+};
+
+export async function main(argv: string[], io: CliIo = DEFAULT_IO): Promise<number> {
+  try {
+    const [command, ...rest] = argv;
+    switch (command) {
+      case 'dlq':
+        return await runDlq(rest, io);
+      case 'backfill':
+        return await runBackfillCommand(rest, io);
+      case 'deploy':
+        return await runDeployCommand(rest, io);
+      case 'contract':
+        return runContractCommand(rest, io);
+      case undefined:
+      case '--help':
+        io.out(USAGE);
+        return 0;
+      default:
+        throw new UsageError(`Unknown command: ${command}`);
+    }
+  } catch (error) {
+    if (error instanceof UsageError) {
+      io.err(`${error.message}\n\n${USAGE}`);
+      return 2;
+    }
+    io.err(`Error: ${(error as Error).message}`);
+    return 1;
+  }
+}
+
+async function runDlq(argv: string[], io: CliIo): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        'prefix': { type: 'string' },
+        'pipeline': { type: 'string' },
+        'queue': { type: 'string' },
+        'target': { type: 'string' },
+        'region': { type: 'string' },
+        'endpoint-url': { type: 'string' },
+        'max': { type: 'string' },
+        'json': { type: 'boolean' },
+        'message-id': { type: 'string', multiple: true },
+        'all': { type: 'boolean' },
+        'rate': { type: 'string' },
+        'dry-run': { type: 'boolean' },
+        'quarantine': { type: 'boolean' },
+      },
+    });
+  } catch (error) {
+    throw new UsageError((error as Error).message);
+  }
+  const { values, positionals } = parsed;
+  const [subcommand] = positionals;
+  if (subcommand !== 'list' && subcommand !== 'redrive') {
+    throw new UsageError(subcommand ? `Unknown dlq subcommand: ${subcommand}` : 'Missing dlq subcommand');
+  }
+
+  const queueNames = values.prefix ? processorQueueNames(values.prefix, values.pipeline) : undefined;
+  const dlq = values.queue ?? (values.quarantine ? queueNames?.quarantineQueueName : queueNames?.deadLetterQueueName);
+  if (!dlq) {
+    throw new UsageError('Specify --prefix (and optionally --pipeline) or --queue');
+  }
+
+  const messageIds = values['message-id'];
+  const target = values.target ?? queueNames?.queueName;
+  if (subcommand === 'redrive') {
+    if (!values.all && !messageIds) {
+      throw new UsageError('Specify --message-id <id> (repeatable) or --all');
+    }
+    if (values.all && messageIds) {
+      throw new UsageError('Specify either --message-id or --all, not both');
+    }
+    if (!target) {
+      throw new UsageError('Specify --target when using --queue');
+    }
+  }
+  const maxMessages = parsePositive('--max', values.max);
+  const messagesPerSecond = parsePositive('--rate', values.rate);
+
+  const createClient = io.sqsClient ?? ((options) => new SQSClient(options));
+  const client = createClient({ region: values.region, endpoint: values['endpoint-url'] });
+  const dlqUrl = await resolveQueueUrl(client, dlq);
+
+  if (subcommand === 'list') {
+    const messages = await listDlqMessages(client, dlqUrl, { maxMessages });
+    if (values.json) {
+      io.out(JSON.stringify(messages.map(({ receiptHandle, ...message }) => message), null, 2));
+    } else {
+      io.out(formatDlqTable(messages));
+      io.out(`\n${messages.length} message(s) in ${dlqUrl}`);
+    }
+    return 0;
+  }
+
+  const targetUrl = await resolveQueueUrl(client, target!);
+
+  const result = await redriveMessages(client, {
+    sourceQueueUrl: dlqUrl,
+    targetQueueUrl: targetUrl,
+    messageIds,
+    maxMessages,
+    messagesPerSecond,
+    dryRun: values['dry-run'],
+    onProgress: ({ redriven, failed, total }) => io.err(`Redriven ${redriven}/${total} (${failed} failed)`),
+  });
+
+  const verb = values['dry-run'] ? 'Would redrive' : 'Redrove';
+  io.out(`${verb} ${result.redriven.length} message(s) from ${dlqUrl} to ${targetUrl}`);
+  for (const id of result.notFound) {
+    io.out(`Not found in DLQ: ${id}`);
+  }
+  for (const failure of result.failed) {
+    io.out(`Failed: ${failure.messageId}: ${failure.reason}`);
+  }
+  return result.failed.length > 0 || result.notFound.length > 0 ? 1 : 0;
+}
+
+async function runBackfillCommand(argv: string[], io: CliIo): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      options: {
+        'bucket': { type: 'string' },
+        'prefix': { type: 'string' },
+        'pipeline': { type: 'string' },
+        'queue': { type: 'string' },
+        'key-prefix': { type: 'string' },
+        'from': { type: 'string' },
+        'to': { type: 'string' },
+        'run-id': { type: 'string' },
+        'region': { type: 'string' },
+        'endpoint-url': { type: 'string' },
+        'core-profile': { type: 'string' },
+        'max': { type: 'string' },
+        'rate': { type: 'string' },
+        'dry-run': { type: 'boolean' },
+      },
+    });
+  } catch (error) {
+    throw new UsageError((error as Error).message);
+  }
+  const { values } = parsed;
+
+  if (!values.bucket) {
+    throw new UsageError('Specify --bucket');
+  }
+  const queue = values.queue ?? (values.prefix ? processorQueueNames(values.prefix, values.pipeline).queueName : undefined);
+  if (!queue) {
+    throw new UsageError('Specify --prefix (and optionally --pipeline) or --queue');
+  }
+  const from = parseDate('--from', values.from);
+  const to = parseDate('--to', values.to);
+  const maxObjects = parsePositive('--max', values.max);
+  const messagesPerSecond = parsePositive('--rate', values.rate);
+
+  const createSqsClient = io.sqsClient ?? ((options) => new SQSClient(options));
+  const createS3Client = io.s3Client ?? ((options) => new S3Client(options));
+  const sqs = createSqsClient({ region: values.region, endpoint: values['endpoint-url'] });
+  const s3 = createS3Client({ region: values.region, profile: values['core-profile'] });
+  const queueUrl = await resolveQueueUrl(sqs, queue);
+
+  const result = await runBackfill(s3, sqs, {
+    bucket: values.bucket,
+    queueUrl,
+    keyPrefix: values['key-prefix'],
+    from,
+    to,
+    runId: values['run-id'],
+    maxObjects,
+    messagesPerSecond,
+    dryRun: values['dry-run'],
+    onProgress: ({ listed, matched, enqueued, failed }) =>
+      io.err(`Listed ${listed} versions, matched ${matched}, enqueued ${enqueued} (${failed} failed)`),
+  });
+
+  const verb = values['dry-run'] ? 'Would enqueue' : 'Enqueued';
+  io.out(`${verb} ${values['dry-run'] ? result.matched : result.enqueued} object(s) from ${values.bucket} to ${queueUrl}`);
+  io.out(`Backfill run ID: ${result.runId}`);
+  for (const failure of result.failures) {
+    io.out(`Failed: ${failure.key}: ${failure.reason}`);
+  }
+  return result.failed > 0 ? 1 : 0;
+}
+
+async function runDeployCommand(argv: string[], io: CliIo): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      options: {
+        'stages': { type: 'string' },
+        'profile': { type: 'string', multiple: true },
+        'output': { type: 'string' },
+        'require-approval': { type: 'string' },
+        'dry-run': { type: 'boolean' },
+      },
+    });
+  } catch (error) {
+    throw new UsageError((error as Error).message);
+  }
+  const { values } = parsed;
+
+  const stages = (values.stages ?? '').split(',').map((stage) => stage.trim()).filter((stage) => stage.length > 0);
+  if (stages.length === 0) {
+    throw new UsageError('Specify --stages');
+  }
+  const profiles: Record<string, string> = {};
+  for (const entry of values.profile ?? []) {
+    const match = /^(\d{12})=(.+)$/.exec(entry);
+    if (!match) {
+      throw new UsageError(`--profile must be <12-digit account ID>=<profile>, got: ${entry}`);
+    }
+    profiles[match[1]] = match[2];
+  }
+  const requireApproval = values['require-approval'];
+  if (requireApproval !== undefined && !REQUIRE_APPROVAL_LEVELS.includes(requireApproval as RequireApproval)) {
+    throw new UsageError(`--require-approval must be one of ${REQUIRE_APPROVAL_LEVELS.join(', ')}, got: ${requireApproval}`);
+  }
+
+  const deployments = await runDeployment(
+    {
+      stages,
+      profiles,
+      outdir: values.output,
+      requireApproval: requireApproval as RequireApproval | undefined,
+      dryRun: values['dry-run'],
+    },
+    { out: io.out, run: io.run ?? runCommand },
+  );
+  if (!values['dry-run']) {
+    io.out(`Deployed ${deployments.map(({ stage }) => stage).join(', ')}`);
+  }
+  return 0;
+}
+
+function runContractCommand(argv: string[], io: CliIo): number {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        app: { type: 'string' },
+      },
+    });
+  } catch (error) {
+    throw new UsageError((error as Error).message);
+  }
+  const { values, positionals } = parsed;
+  const [subcommand] = positionals;
+  if (subcommand !== 'verify') {
+    throw new UsageError(subcommand ? `Unknown contract subcommand: ${subcommand}` : 'Missing contract subcommand');
+  }
+
+  const assemblyDir = values.app ?? 'cdk.out';
+  const contracts = readContracts(assemblyDir);
+  if (contracts.length === 0) {
+    throw new Error(`No contract files in ${assemblyDir} - run cdk synth first`);
+  }
+  const problems = verifyContracts(contracts);
+  for (const problem of problems) {
+    io.out(`Mismatch: ${problem}`);
+  }
+  if (problems.length > 0) {
+    return 1;
+  }
+  io.out(`Contract verified: ${contracts.map((contract) => contract.stackId).join(', ')}`);
+  return 0;
+}
+
+/**
+ * Runs a command with inherited stdio (cdk prompts for approval on the terminal)
+ */
+function runCommand(command: string, args: string[]): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: 'inherit' });
+    child.on('error', reject);
+    child.on('close', (code) => resolve(code ?? 1));
+  });
+}
+
+function parseDate(option: string, value: string | undefined): Date | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) {
+    throw new UsageError(`${option} must be an ISO date or date-time, got: ${value}`);
+  }
+  return parsed;
+}
+
+function parsePositive(option: string, value: string | undefined): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new UsageError(`${option} must be a positive number, got: ${value}`);
+  }
+  return parsed;
+}
+
+if (require.main === module) {
+  void main(process.argv.slice(2)).then((code) => {
+    process.exitCode = code;
+  });
+}
@@ -0,0 +1,388 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Node } from 'constructs';
+import { parse as parseYaml } from 'yaml';
+import { ENVIRONMENT_TIERS, EnvironmentTier } from './environment-tier';
+import { DEFAULT_PIPELINE_NAME, DELETION_HANDLING_MODES, DeletionHandling, validateOutputKeyTemplate } from './pipelines';
+
+/**
+ * Deployment configuration shared by both stacks
+ */
+export interface DeploymentConfig {
+  readonly stage: string;
+  readonly environmentTier: EnvironmentTier; // Explicit tier - never derived from the stage name
+  readonly region: string;
+  readonly accountCoreId: string;
+  readonly accountRpsId: string;
+  readonly deploymentPrefix?: string; // Optional deployment prefix for multi-developer isolation
+  readonly existingEventBusName?: string; // Optional shared event bus for multi-developer dev environments
+  readonly pipelines?: string[]; // Optional pipeline names (data feeds) - default: single 'default' pipeline
+  readonly s3AccessRoleExternalId?: string; // Optional sts:ExternalId required to assume the Core S3 access role
+  readonly deletionHandling?: DeletionHandling; // Optional: apply input deletions to output objects (default: ignore)
+  readonly outputKeyTemplates?: string[]; // Optional '{pipeline}={template}' entries (default per pipeline: '{key}')
+  readonly drReplicaRegion?: string; // Optional DR mode: replicate the Core buckets to this region
+  readonly drFailover?: boolean; // Optional: process the DR replica buckets instead of the primary ones
+  readonly additionalCoreAccountIds?: string[]; // Optional: further Core accounts allowed to send to the RPS bus
+  readonly coreOrganizationId?: string; // Optional: only principals of this AWS Organization may send to the RPS bus
+}
+
+export type ConfigKey = keyof DeploymentConfig;
+
+/**
+ * Where a resolved value came from (lowest to highest precedence)
+ */
+export type ConfigSource = 'default' | 'file' | 'env' | 'context';
+
+export interface ResolvedConfig {
+  readonly config: DeploymentConfig;
+  readonly sources: Partial<Record<ConfigKey, ConfigSource>>;
+  readonly configFile?: string;
+}
+
+export interface LoadConfigOptions {
+  readonly env?: NodeJS.ProcessEnv;
+  readonly configDir?: string; // Directory holding {stage}.yaml|yml|json (default: ./config)
+}
+
+/**
+ * Thrown when the merged configuration does not satisfy the schema
+ * Collects all problems so they can be fixed in one go
+ */
+export class ConfigValidationError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(`Invalid deployment configuration:\n${errors.map((error) => `  - ${error}`).join('\n')}`);
+    this.name = 'ConfigValidationError';
+  }
+}
+
+interface FieldSpec {
+  readonly key: ConfigKey;
+  readonly envVar: string;
+  readonly required: boolean;
+  readonly defaultValue?: string;
+  readonly pattern: RegExp; // Applied to each item for list fields
+  readonly hint: string;
+  readonly list?: boolean; // Comma-separated in env/context, YAML/JSON array in config files
+  readonly flag?: boolean; // Parsed to a boolean: 'true' or 'false' in env/context, YAML/JSON boolean in config files
+}
+
+// Schema: one entry per DeploymentConfig field
+// Context keys and config file keys use the field name, env vars use the names main.ts always used
+const FIELDS: FieldSpec[] = [
+  {
+    key: 'stage',
+    envVar: 'STAGE',
+    required: true,
+    defaultValue: 'dev',
+    pattern: /^[a-z][a-z0-9-]*$/,
+    hint: 'lowercase letters, digits and hyphens, starting with a letter',
+  },
+  {
+    key: 'environmentTier',
+    envVar: 'ENVIRONMENT_TIER',
+    required: true,
+    pattern: new RegExp(`^(${ENVIRONMENT_TIERS.join('|')})$`),
+    hint: `one of ${ENVIRONMENT_TIERS.join(', ')}`,
+  },
+  {
+    key: 'region',
+    envVar: 'REGION',
+    required: true,
+    defaultValue: 'eu-west-1',
+    pattern: /^[a-z]{2}(-[a-z]+)+-\d$/,
+    hint: 'an AWS region such as eu-west-1',
+  },
+  {
+    key: 'accountCoreId',
+    envVar: 'ACCOUNT_CORE_ID',
+    required: true,
+    pattern: /^\d{12}$/,
+    hint: 'a 12-digit AWS account ID',
+  },
+  {
+    key: 'accountRpsId',
+    envVar: 'ACCOUNT_RPS_ID',
+    required: true,
+    pattern: /^\d{12}$/,
+    hint: 'a 12-digit AWS account ID',
+  },
+  {
+    key: 'deploymentPrefix',
+    envVar: 'CDK_DEPLOYMENT_PREFIX',
+    required: false,
+    pattern: /^[a-z0-9][a-z0-9-]*$/,
+    hint: 'lowercase letters, digits and hyphens (no slashes)',
+  },
+  {
+    key: 'existingEventBusName',
+    envVar: 'EXISTING_EVENT_BUS_NAME',
+    required: false,
+    pattern: /^[A-Za-z0-9._-]{1,256}$/,
+    hint: 'a valid EventBridge bus name',
+  },
+  {
+    key: 'pipelines',
+    envVar: 'PIPELINES',
+    required: false,
+    pattern: /^[a-z][a-z0-9-]{0,19}$/,
+    hint: '1-20 lowercase letters, digits and hyphens starting with a letter',
+    list: true,
+  },
+  {
+    key: 's3AccessRoleExternalId',
+    envVar: 'S3_ACCESS_ROLE_EXTERNAL_ID',
+    required: false,
+    pattern: /^[\w+=,.@:/-]{2,1224}$/,
+    hint: '2-1224 letters, digits and +=,.@:/-_',
+  },
+  {
+    key: 'deletionHandling',
+    envVar: 'DELETION_HANDLING',
+    required: false,
+    pattern: new RegExp(`^(${DELETION_HANDLING_MODES.join('|')})$`),
+    hint: `one of ${DELETION_HANDLING_MODES.join(', ')}`,
+  },
+  {
+    key: 'outputKeyTemplates',
+    envVar: 'OUTPUT_KEY_TEMPLATES',
+    required: false,
+    pattern: /^[a-z][a-z0-9-]{0,19}=[^\s,]+$/,
+    hint: '{pipeline}={template} such as orders={date}/{basename}.processed{ext}',
+    list: true,
+  },
+  {
+    key: 'drReplicaRegion',
+    envVar: 'DR_REPLICA_REGION',
+    required: false,
+    pattern: /^[a-z]{2}(-[a-z]+)+-\d$/,
+    hint: 'an AWS region such as eu-central-1',
+  },
+  {
+    key: 'drFailover',
+    envVar: 'DR_FAILOVER',
+    required: false,
+    pattern: /^(true|false)$/,
+    hint: 'true or false',
+    flag: true,
+  },
+  {
+    key: 'additionalCoreAccountIds',
+    envVar: 'ADDITIONAL_CORE_ACCOUNT_IDS',
+    required: false,
+    pattern: /^\d{12}$/,
+    hint: 'a 12-digit AWS account ID',
+    list: true,
+  },
+  {
+    key: 'coreOrganizationId',
+    envVar: 'CORE_ORGANIZATION_ID',
+    required: false,
+    pattern: /^o-[a-z0-9]{10,32}$/,
+    hint: 'an AWS Organizations ID such as o-a1b2c3d4e5',
+  },
+];
+
+const CONFIG_FILE_EXTENSIONS = ['.yaml', '.yml', '.json'];
+
+/**
+ * Load deployment configuration
+ *
+ * Precedence (highest wins): CDK context (-c key=value) > environment variables > config/{stage}.yaml|yml|json > defaults
+ * The stage itself is resolved from context/env/default first, since it selects the config file.
+ */
+export function loadConfig(node: Node, options: LoadConfigOptions = {}): ResolvedConfig {
+  const env = options.env ?? process.env;
+  const configDir = options.configDir ?? path.join(process.cwd(), 'config');
+  const errors: string[] = [];
+
+  const values: Partial<Record<ConfigKey, string | string[] | boolean>> = {};
+  const sources: Partial<Record<ConfigKey, ConfigSource>> = {};
+
+  const fromEnv = (field: FieldSpec): unknown => {
+    const value = env[field.envVar];
+    return value === undefined || value === '' ? undefined : value;
+  };
+  const fromContext = (field: FieldSpec): unknown => node.tryGetContext(field.key);
+
+  // Stage selects the config file, so it cannot come from the file itself
+  const stageField = FIELDS[0];
+  const stage = fromContext(stageField) ?? fromEnv(stageField) ?? stageField.defaultValue;
+
+  let fileValues: Record<string, unknown> = {};
+  let configFile: string | undefined;
+
+  if (typeof stage === 'string') {
+    configFile = findConfigFile(configDir, stage);
+    if (configFile) {
+      try {
+        fileValues = readConfigFile(configFile);
+      } catch (error) {
+        errors.push(`${configFile}: ${(error as Error).message}`);
+      }
+    }
+  }
+
+  for (const key of Object.keys(fileValues)) {
+    if (key === 'stage') {
+      errors.push(`${configFile}: 'stage' cannot be set in a config file (use STAGE or -c stage=...)`);
+    } else if (!FIELDS.some((field) => field.key === key)) {
+      errors.push(`${configFile}: unknown key '${key}'`);
+    }
+  }
+
+  for (const field of FIELDS) {
+    const candidates: [ConfigSource, unknown][] = [
+      ['context', fromContext(field)],
+      ['env', fromEnv(field)],
+      ['file', field.key === 'stage' ? undefined : fileValues[field.key]],
+      ['default', field.defaultValue],
+    ];
+
+    const match = candidates.find(([, value]) => value !== undefined && value !== null);
+
+    if (!match) {
+      if (field.required) {
+        errors.push(`${field.key} is required - set ${field.envVar}, -c ${field.key}=..., or add it to config/<stage>.yaml`);
+      }
+      continue;
+    }
+
+    const [source, value] = match;
+
+    if (field.list) {
+      const items = typeof value === 'string' ? value.split(',').map((item) => item.trim()) : value;
+      if (!Array.isArray(items) || items.length === 0 || items.some((item) => typeof item !== 'string')) {
+        errors.push(`${field.key} must be a non-empty list of strings (from ${describeSource(source, field)})`);
+        continue;
+      }
+      const invalid = items.filter((item: string) => !field.pattern.test(item));
+      if (invalid.length > 0) {
+        errors.push(`${field.key} entries must be ${field.hint} (from ${describeSource(source, field)}), got: '${invalid.join('\', \'')}'`);
+        continue;
+      }
+      values[field.key] = items;
+      sources[field.key] = source;
+      continue;
+    }
+
+    if (field.flag) {
+      const text = typeof value === 'boolean' ? String(value) : value;
+      if (typeof text !== 'string' || !field.pattern.test(text)) {
+        errors.push(`${field.key} must be ${field.hint} (from ${describeSource(source, field)}), got: '${String(value)}'`);
+        continue;
+      }
+      values[field.key] = text === 'true';
+      sources[field.key] = source;
+      continue;
+    }
+
+    if (typeof value !== 'string') {
+      errors.push(`${field.key} must be a string (from ${describeSource(source, field)}), got ${typeof value} - quote numeric values such as account IDs in YAML`);
+      continue;
+    }
+    if (!field.pattern.test(value)) {
+      errors.push(`${field.key} must be ${field.hint} (from ${describeSource(source, field)}), got: '${value}'`);
+      continue;
+    }
+
+    values[field.key] = value;
+    sources[field.key] = source;
+  }
+
+  // Templates must name configured pipelines and be valid (same checks as the stacks)
+  const pipelineNames = (values.pipelines as string[] | undefined) ?? [DEFAULT_PIPELINE_NAME];
+  for (const [pipelineName, template] of Object.entries(outputKeyTemplatesByPipeline((values.outputKeyTemplates ?? []) as string[]))) {
+    if (!pipelineNames.includes(pipelineName)) {
+      errors.push(`outputKeyTemplates entry for unknown pipeline '${pipelineName}', expected one of: ${pipelineNames.join(', ')}`);
+      continue;
+    }
+    try {
+      validateOutputKeyTemplate(template, `outputKeyTemplates[${pipelineName}]`);
+    } catch (error) {
+      errors.push((error as Error).message);
+    }
+  }
+
+  if (values.drReplicaRegion !== undefined && values.drReplicaRegion === values.region) {
+    errors.push(`drReplicaRegion must differ from region, got: '${values.drReplicaRegion}'`);
+  }
+  if (values.drFailover === true && values.drReplicaRegion === undefined) {
+    errors.push('drFailover requires drReplicaRegion - set DR_REPLICA_REGION, -c drReplicaRegion=..., or add it to config/<stage>.yaml');
+  }
+
+  if (((values.additionalCoreAccountIds ?? []) as string[]).includes(values.accountCoreId as string)) {
+    errors.push(`additionalCoreAccountIds must not repeat accountCoreId, got: '${values.accountCoreId}'`);
+  }
+
+  if (errors.length > 0) {
+    throw new ConfigValidationError(errors);
+  }
+
+  return {
+    config: values as DeploymentConfig,
+    sources,
+    configFile,
+  };
+}
+
+/**
+ * Split '{pipeline}={template}' entries into a map (the template may contain '=' itself)
+ */
+export function outputKeyTemplatesByPipeline(entries: string[]): Record<string, string> {
+  return Object.fromEntries(entries.map((entry) => {
+    const separator = entry.indexOf('=');
+    return [entry.slice(0, separator), entry.slice(separator + 1)];
+  }));
+}
+
+/**
+ * Render resolved config with the source of each value (printed at synth for audit)
+ */
+export function formatResolvedConfig(resolved: ResolvedConfig): string {
+  const lines = [
+    '=== Resolved deployment configuration ===',
+    `Config file: ${resolved.configFile ?? '(none)'}`,
+  ];
+
+  for (const field of FIELDS) {
+    const value = resolved.config[field.key];
+    const source = resolved.sources[field.key];
+    const display = Array.isArray(value) ? value.join(',') : value?.toString();
+    lines.push(`${field.key.padEnd(22)} ${(display ?? '(unset)').padEnd(30)} ${source ? `[${describeSource(source, field)}]` : ''}`.trimEnd());
+  }
+
+  return lines.join('\n');
+}
+
+function describeSource(source: ConfigSource, field: FieldSpec): string {
+  switch (source) {
+    case 'env':
+      return `env ${field.envVar}`;
+    case 'context':
+      return `context ${field.key}`;
+    case 'file':
+      return 'config file';
+    default:
+      return 'default';
+  }
+}
+
+function findConfigFile(configDir: string, stage: string): string | undefined {
+  return CONFIG_FILE_EXTENSIONS
+    .map((extension) => path.join(configDir, `${stage}${extension}`))
+    .find((candidate) => fs.existsSync(candidate));
+}
+
+function readConfigFile(file: string): Record<string, unknown> {
+  const content = fs.readFileSync(file, 'utf-8');
+  const parsed = file.endsWith('.json') ? JSON.parse(content) : parseYaml(content);
+
+  if (parsed === null || parsed === undefined) {
+    return {};
+  }
+  if (typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('config file must contain an object at the top level');
+  }
+
+  return parsed as Record<string, unknown>;
+}
@@ -0,0 +1,99 @@
+import * as events from 'aws-cdk-lib/aws-events';
+
+/**
+ * Consumer helpers - RPS accounts subscribing to Core input bucket events (see RESOURCE-CONTRACT.md)
+ *
+ * The 'default' consumer is the single accountRpsId shorthand and keeps the original names and construct IDs.
+ */
+export const DEFAULT_CONSUMER_NAME = 'default';
+
+/**
+ * Object key filter - prefix and suffix are combined with AND, multiple filters with OR
+ */
+export interface ObjectKeyFilter {
+  readonly prefix?: string; // e.g. 'invoices/'
+  readonly suffix?: string; // e.g. '.csv'
+}
+
+export interface RpsConsumerProps {
+  readonly name: string; // Lowercase letters, digits and hyphens (e.g. 'analytics')
+  readonly accountId: string; // RPS account ID - trusted by the S3AccessRole
+  readonly eventBusArn?: string; // Target bus (default: arn:aws:events:{region}:{accountId}:event-bus/{prefix}-cross-account-bus)
+  readonly objectKeyFilters?: ObjectKeyFilter[]; // Only forward matching object keys (default: all objects)
+}
+
+export function isDefaultConsumer(consumerName: string): boolean {
+  return consumerName === DEFAULT_CONSUMER_NAME;
+}
+
+/**
+ * Bus StackRps creates in the consumer account unless it is given an existingEventBusName
+ */
+export function crossAccountEventBusName(prefix: string): string {
+  return `${prefix}-cross-account-bus`;
+}
+
+/**
+ * Bus of a consumer account: {prefix}-cross-account-bus, or the existingEventBusName of its StackRps
+ */
+export function consumerEventBusArn(prefix: string, region: string, accountId: string, eventBusName?: string): string {
+  return `arn:aws:events:${region}:${accountId}:event-bus/${eventBusName ?? crossAccountEventBusName(prefix)}`;
+}
+
+/**
+ * Event pattern matchers for detail.object.key, or undefined when all objects are forwarded
+ */
+export function objectKeyMatchers(filters: ObjectKeyFilter[] | undefined): string[] | undefined {
+  if (!filters || filters.length === 0) {
+    return undefined;
+  }
+
+  const matchers = filters.map((filter) => {
+    if (filter.prefix && filter.suffix) {
+      return events.Match.wildcard(`${escapeWildcard(filter.prefix)}*${escapeWildcard(filter.suffix)}`);
+    }
+    if (filter.prefix) {
+      return events.Match.prefix(filter.prefix);
+    }
+    return events.Match.suffix(filter.suffix!);
+  });
+
+  return matchers.length === 1 ? matchers[0] : events.Match.anyOf(...matchers);
+}
+
+/**
+ * Validate consumers (non-empty list, naming pattern, unique names, account IDs, bus ARNs, filters)
+ */
+export function validateConsumers(consumers: RpsConsumerProps[], context: string): void {
+  if (consumers.length === 0) {
+    throw new Error(`${context}: consumers must contain at least one consumer`);
+  }
+
+  const seen = new Set<string>();
+  for (const consumer of consumers) {
+    if (!/^[a-z][a-z0-9-]{0,19}$/.test(consumer.name)) {
+      throw new Error(`${context}: consumer name must be 1-20 lowercase letters, digits and hyphens starting with a letter, got: ${consumer.name}`);
+    }
+    if (seen.has(consumer.name)) {
+      throw new Error(`${context}: duplicate consumer name: ${consumer.name}`);
+    }
+    seen.add(consumer.name);
+
+    if (!/^\d{12}$/.test(consumer.accountId)) {
+      throw new Error(`${context}: accountId of consumer '${consumer.name}' must be a 12-digit AWS account ID, got: ${consumer.accountId}`);
+    }
+    if (consumer.eventBusArn !== undefined && !/^arn:aws[a-z-]*:events:[a-z0-9-]+:\d{12}:event-bus\/[A-Za-z0-9._-]+$/.test(consumer.eventBusArn)) {
+      throw new Error(`${context}: eventBusArn of consumer '${consumer.name}' must be an EventBridge bus ARN, got: ${consumer.eventBusArn}`);
+    }
+    for (const filter of consumer.objectKeyFilters ?? []) {
+      if (!filter.prefix && !filter.suffix) {
+        throw new Error(`${context}: objectKeyFilters of consumer '${consumer.name}' need a prefix or suffix`);
+      }
+    }
+  }
+}
+
+// Literal '*' in wildcard patterns must be escaped
+function escapeWildcard(value: string): string {
+  return value.replace(/\*/g, '\\*');
+}
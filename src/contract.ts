@@ -0,0 +1,210 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as cdk from 'aws-cdk-lib';
+import { TrustedRoles } from './cross-account-trust';
+
+/**
+ * Cross-account contract artifact (see RESOURCE-CONTRACT.md)
+ *
+ * StackCore and StackRps each write their view of the names both accounts rely on - bus ARN, role names, bucket
+ * names, bus policy statement IDs - to {stackId}.contract.json in the cloud assembly at synth time.
+ * verifyContracts compares the views, so the two sides cannot drift apart silently (e.g. an RPS stack using
+ * existingEventBusName while the Core rule still targets {prefix}-cross-account-bus).
+ */
+export const CONTRACT_VERSION = 1;
+
+export const CONTRACT_FILE_SUFFIX = '.contract.json';
+
+export interface ContractPipeline {
+  readonly name: string;
+  readonly inputBucketName: string;
+  readonly outputBucketName: string;
+  readonly replicaInputBucketName?: string;
+  readonly replicaOutputBucketName?: string;
+}
+
+/**
+ * What StackCore provides
+ */
+export interface CoreContract {
+  readonly version: number;
+  readonly side: 'core';
+  readonly stackId: string;
+  readonly stage: string; // Resource prefix
+  readonly accountId: string;
+  readonly region: string;
+  readonly s3AccessRole: {
+    readonly arn: string;
+    readonly trustedRoles: TrustedRoles[];
+    readonly externalIdRequired: boolean;
+  };
+  readonly eventBusTargets: {
+    readonly consumer: string;
+    readonly accountId: string;
+    readonly eventBusArn: string;
+    readonly ruleArns: string[]; // Rules sending to the bus (one per pipeline, plus the DR standby rules)
+  }[];
+  readonly pipelines: ContractPipeline[];
+  readonly manifestBucketName: string;
+}
+
+/**
+ * What StackRps expects from the Core account (and offers it)
+ */
+export interface RpsContract {
+  readonly version: number;
+  readonly side: 'rps';
+  readonly stackId: string;
+  readonly stage: string; // Resource prefix (without the deployment prefix)
+  readonly deploymentPrefix?: string;
+  readonly accountId: string;
+  readonly region: string;
+  readonly coreAccountId: string;
+  readonly eventBusArn: string; // Bus the Core rules must target
+  readonly busPolicyStatement: {
+    readonly statementId: string;
+    readonly sourceAccounts: string[]; // aws:SourceAccount
+    readonly sourceArns: string[]; // aws:SourceArn patterns
+    readonly organizationId?: string; // aws:PrincipalOrgID
+  };
+  readonly processorRoleName: string; // Must be trusted by the S3AccessRole
+  readonly s3AccessRoleArn: string;
+  readonly externalIdProvided: boolean;
+  readonly pipelines: ContractPipeline[];
+  readonly manifestBucketName?: string;
+}
+
+export type ContractView = CoreContract | RpsContract;
+
+/**
+ * Stack synthesizer writing the stack's contract view next to its template
+ * StackCore and StackRps use it unless another synthesizer is passed in their props
+ */
+export class ContractStackSynthesizer extends cdk.DefaultStackSynthesizer {
+  private contract?: ContractView;
+
+  public setContract(contract: ContractView): void {
+    this.contract = contract;
+  }
+
+  public synthesize(session: cdk.ISynthesisSession): void {
+    super.synthesize(session);
+    if (this.contract) {
+      const resolved = this.boundStack.resolve(this.contract);
+      fs.writeFileSync(path.join(session.outdir, contractFileName(this.boundStack.artifactId)), `${JSON.stringify(resolved, null, 2)}\n`);
+    }
+  }
+}
+
+export function contractFileName(stackArtifactId: string): string {
+  return `${stackArtifactId}${CONTRACT_FILE_SUFFIX}`;
+}
+
+/**
+ * Registers the stack's contract view - written when the stack is synthesized
+ */
+export function publishContract(stack: cdk.Stack, contract: ContractView): void {
+  if (stack.synthesizer instanceof ContractStackSynthesizer) {
+    stack.synthesizer.setContract(contract);
+  } else {
+    cdk.Annotations.of(stack).addWarningV2('contract:synthesizer', 'Custom stack synthesizer - no contract file is written');
+  }
+}
+
+/**
+ * Reads every contract view of a cloud assembly directory
+ */
+export function readContracts(assemblyDir: string): ContractView[] {
+  return fs.readdirSync(assemblyDir)
+    .filter((file) => file.endsWith(CONTRACT_FILE_SUFFIX))
+    .sort()
+    .map((file) => JSON.parse(fs.readFileSync(path.join(assemblyDir, file), 'utf8')) as ContractView);
+}
+
+/**
+ * Compares every RPS view with the Core view of its stage and Core account - returns the disagreements
+ */
+export function verifyContracts(contracts: ContractView[]): string[] {
+  const problems: string[] = [];
+  const unsupported = contracts.filter((contract) => contract.version !== CONTRACT_VERSION);
+  unsupported.forEach((contract) => problems.push(`${contract.stackId}: unsupported contract version ${contract.version}`));
+
+  const current = contracts.filter((contract) => contract.version === CONTRACT_VERSION);
+  const cores = current.filter((contract): contract is CoreContract => contract.side === 'core');
+  const rpsViews = current.filter((contract): contract is RpsContract => contract.side === 'rps');
+
+  for (const rps of rpsViews) {
+    const core = cores.find((candidate) => candidate.stage === rps.stage && candidate.accountId === rps.coreAccountId);
+    if (!core) {
+      problems.push(`${rps.stackId}: no Core contract for stage '${rps.stage}' in account ${rps.coreAccountId}`);
+      continue;
+    }
+    problems.push(...compareViews(core, rps).map((problem) => `${rps.stackId} / ${core.stackId}: ${problem}`));
+  }
+
+  // Deployments sharing a bus must not overwrite each other's bus policy statement
+  const statementsByBus = new Map<string, RpsContract[]>();
+  rpsViews.forEach((rps) => statementsByBus.set(rps.eventBusArn, [...(statementsByBus.get(rps.eventBusArn) ?? []), rps]));
+  for (const [eventBusArn, sharing] of statementsByBus) {
+    const statementIds = sharing.map((rps) => rps.busPolicyStatement.statementId);
+    const duplicate = statementIds.find((statementId, index) => statementIds.indexOf(statementId) !== index);
+    if (duplicate !== undefined) {
+      problems.push(`${eventBusArn}: bus policy statement '${duplicate}' is used by more than one RPS stack`);
+    }
+  }
+  return problems;
+}
+
+function compareViews(core: CoreContract, rps: RpsContract): string[] {
+  const problems: string[] = [];
+
+  const targets = core.eventBusTargets.filter((target) => target.accountId === rps.accountId);
+  if (!targets.some((target) => target.eventBusArn === rps.eventBusArn)) {
+    const targeted = targets.map((target) => target.eventBusArn).join(', ') || 'none';
+    problems.push(`RPS bus ${rps.eventBusArn} is not targeted by the Core rules (targets in account ${rps.accountId}: ${targeted})`);
+  }
+  const { statementId, sourceAccounts, sourceArns } = rps.busPolicyStatement;
+  if (!sourceAccounts.includes(core.accountId)) {
+    problems.push(`bus policy statement '${statementId}' allows ${sourceAccounts.join(', ')}, not the Core account ${core.accountId}`);
+  }
+  const ruleArns = targets.filter((target) => target.eventBusArn === rps.eventBusArn).flatMap((target) => target.ruleArns);
+  const rejected = ruleArns.filter((ruleArn) => !sourceArns.some((pattern) => matchesWildcard(pattern, ruleArn)));
+  if (rejected.length > 0) {
+    problems.push(`bus policy statement '${statementId}' does not accept the Core rules ${rejected.join(', ')}`);
+  }
+
+  if (rps.s3AccessRoleArn !== core.s3AccessRole.arn) {
+    problems.push(`RPS assumes ${rps.s3AccessRoleArn}, Core provides ${core.s3AccessRole.arn}`);
+  }
+  const trusted = core.s3AccessRole.trustedRoles.find((roles) => roles.accountId === rps.accountId);
+  if (!trusted || !trusted.rolePatterns.some((pattern) => matchesWildcard(pattern, rps.processorRoleName))) {
+    problems.push(`processor role ${rps.processorRoleName} in account ${rps.accountId} is not trusted by the S3AccessRole`);
+  }
+  if (rps.externalIdProvided !== core.s3AccessRole.externalIdRequired) {
+    problems.push(core.s3AccessRole.externalIdRequired
+      ? 'the S3AccessRole requires an ExternalId the RPS stack does not pass'
+      : 'the RPS stack passes an ExternalId the S3AccessRole does not require');
+  }
+
+  for (const pipeline of rps.pipelines) {
+    const corePipeline = core.pipelines.find((candidate) => candidate.name === pipeline.name);
+    if (!corePipeline) {
+      problems.push(`pipeline '${pipeline.name}' does not exist in the Core stack`);
+      continue;
+    }
+    for (const key of ['inputBucketName', 'outputBucketName', 'replicaInputBucketName', 'replicaOutputBucketName'] as const) {
+      if (pipeline[key] !== corePipeline[key]) {
+        problems.push(`pipeline '${pipeline.name}' ${key}: RPS uses ${pipeline[key] ?? 'none'}, Core provides ${corePipeline[key] ?? 'none'}`);
+      }
+    }
+  }
+  if (rps.manifestBucketName !== undefined && rps.manifestBucketName !== core.manifestBucketName) {
+    problems.push(`manifest bucket: RPS writes to ${rps.manifestBucketName}, Core provides ${core.manifestBucketName}`);
+  }
+  return problems;
+}
+
+function matchesWildcard(pattern: string, value: string): boolean {
+  const regex = pattern.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${regex}$`).test(value);
+}
@@ -0,0 +1,122 @@
+import * as cdk from 'aws-cdk-lib';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import { Construct } from 'constructs';
+
+/**
+ * Roles of one account allowed to assume a CrossAccountRole
+ */
+export interface TrustedRoles {
+  readonly accountId: string;
+  readonly rolePatterns: string[]; // Role names, '*' wildcards allowed (e.g. 'dev-*-processor-lambda-role')
+}
+
+export interface CrossAccountRoleProps {
+  readonly roleName: string;
+  readonly description?: string;
+  readonly trustedRoles: TrustedRoles[]; // One trust statement per account
+  readonly externalId?: string; // Require this sts:ExternalId in every trust statement
+  readonly requiredSessionTags?: Record<string, string>; // Tag key -> required value (policy variables allowed), no other tags accepted
+  readonly sourceVpcIds?: string[]; // Only accept AssumeRole calls made through STS VPC endpoints in these VPCs
+  readonly maxSessionDuration?: cdk.Duration; // 1-12 hours (default: 1 hour)
+}
+
+/**
+ * IAM role assumable from other accounts, with the trust policy generated from typed inputs
+ *
+ * Exact role names become role ARN principals. Patterns with wildcards cannot be principals, so they trust the
+ * account root with a StringLike condition on aws:PrincipalArn instead. Every statement carries the same
+ * ExternalId, session tag and source VPC conditions.
+ */
+export class CrossAccountRole extends iam.Role {
+  constructor(scope: Construct, id: string, props: CrossAccountRoleProps) {
+    validateCrossAccountRoleProps(props);
+
+    super(scope, id, {
+      roleName: props.roleName,
+      description: props.description,
+      assumedBy: new CrossAccountTrustPrincipal(props),
+      maxSessionDuration: props.maxSessionDuration ?? cdk.Duration.hours(1),
+    });
+  }
+}
+
+/**
+ * Trust policy statements for a CrossAccountRole, one per trusted account
+ */
+export function crossAccountTrustStatements(props: CrossAccountRoleProps): iam.PolicyStatement[] {
+  const sessionTagKeys = Object.keys(props.requiredSessionTags ?? {});
+
+  return props.trustedRoles.map(({ accountId, rolePatterns }) => {
+    const roleArns = rolePatterns.map((pattern) => `arn:aws:iam::${accountId}:role/${pattern}`);
+    const usesWildcards = rolePatterns.some((pattern) => pattern.includes('*'));
+
+    const stringEquals: Record<string, string | string[]> = {
+      ...(props.externalId && { 'sts:ExternalId': props.externalId }),
+      ...Object.fromEntries(Object.entries(props.requiredSessionTags ?? {}).map(([key, value]) => [`aws:RequestTag/${key}`, value])),
+      ...(props.sourceVpcIds && { 'aws:SourceVpc': props.sourceVpcIds }),
+    };
+    const conditions: Record<string, Record<string, string | string[]>> = {
+      ...(Object.keys(stringEquals).length > 0 && { StringEquals: stringEquals }),
+      ...(sessionTagKeys.length > 0 && { 'ForAllValues:StringEquals': { 'aws:TagKeys': sessionTagKeys } }),
+      ...(usesWildcards && { StringLike: { 'aws:PrincipalArn': roleArns } }),
+    };
+
+    return new iam.PolicyStatement({
+      effect: iam.Effect.ALLOW,
+      principals: usesWildcards
+        ? [new iam.ArnPrincipal(`arn:aws:iam::${accountId}:root`)]
+        : roleArns.map((roleArn) => new iam.ArnPrincipal(roleArn)),
+      actions: sessionTagKeys.length > 0 ? ['sts:AssumeRole', 'sts:TagSession'] : ['sts:AssumeRole'],
+      conditions,
+    });
+  });
+}
+
+function validateCrossAccountRoleProps(props: CrossAccountRoleProps): void {
+  if (props.trustedRoles.length === 0) {
+    throw new Error('CrossAccountRole: trustedRoles must contain at least one account');
+  }
+  for (const { accountId, rolePatterns } of props.trustedRoles) {
+    if (!/^\d{12}$/.test(accountId)) {
+      throw new Error(`CrossAccountRole: accountId must be a 12-digit AWS account ID, got: ${accountId}`);
+    }
+    if (rolePatterns.length === 0) {
+      throw new Error(`CrossAccountRole: rolePatterns for account ${accountId} must not be empty`);
+    }
+    // A lone '*' would trust every role in the account
+    const invalidPattern = rolePatterns.find((pattern) => !/^[\w+=,.@*-]{1,64}$/.test(pattern) || /^\**$/.test(pattern));
+    if (invalidPattern !== undefined) {
+      throw new Error(`CrossAccountRole: role pattern must be a role name with optional '*' wildcards, got: '${invalidPattern}'`);
+    }
+  }
+  // sts:ExternalId: 2-1224 characters of [\w+=,.@:/-]
+  if (props.externalId !== undefined && !/^[\w+=,.@:/-]{2,1224}$/.test(props.externalId)) {
+    throw new Error(`CrossAccountRole: externalId must be 2-1224 characters of letters, digits and +=,.@:/-, got: '${props.externalId}'`);
+  }
+  const maxSessionSeconds = props.maxSessionDuration?.toSeconds();
+  if (maxSessionSeconds !== undefined && (maxSessionSeconds < 3600 || maxSessionSeconds > 43200)) {
+    throw new Error(`CrossAccountRole: maxSessionDuration must be between 1 and 12 hours, got: ${maxSessionSeconds} seconds`);
+  }
+}
+
+/**
+ * Principal adding the generated statements to the role's trust policy (iam.Role calls addToAssumeRolePolicy)
+ */
+class CrossAccountTrustPrincipal extends iam.PrincipalBase implements iam.IAssumeRolePrincipal {
+  public readonly policyFragment: iam.PrincipalPolicyFragment;
+
+  constructor(private readonly props: CrossAccountRoleProps) {
+    super();
+    this.policyFragment = new iam.PrincipalPolicyFragment({
+      AWS: props.trustedRoles.map(({ accountId }) => `arn:aws:iam::${accountId}:root`),
+    });
+  }
+
+  public addToAssumeRolePolicy(document: iam.PolicyDocument): void {
+    document.addStatements(...crossAccountTrustStatements(this.props));
+  }
+
+  public dedupeString(): string | undefined {
+    return undefined;
+  }
+}
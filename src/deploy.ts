@@ -0,0 +1,182 @@
+import * as path from 'path';
+import * as cxapi from 'aws-cdk-lib/cx-api';
+import { readContracts, verifyContracts } from './contract';
+
+/**
+ * Orchestrated deployment of one or more stages
+ *
+ * The deployment order comes from the synthesized cloud assembly: addDeploymentStacks (app.ts) records it as stack
+ * dependencies, and deploymentWaves turns those into waves - every stack of a wave only depends on earlier waves.
+ * Each wave is deployed with `cdk deploy --exclusively`, one command per account so every account uses its own AWS
+ * profile. Stages are promoted in the given order: all stages are synthesized and their contract files verified
+ * (contract.ts) first, and a stage is only deployed once every earlier stage deployed successfully.
+ */
+
+export interface DeploymentStep {
+  readonly stackId: string; // Stack artifact ID (cdk deploy selector), e.g. dev-StackCore
+  readonly stackName: string;
+  readonly account: string;
+  readonly region: string;
+  readonly dependsOn: string[]; // Stack artifact IDs
+}
+
+export type RequireApproval = 'never' | 'any-change' | 'broadening';
+
+export const REQUIRE_APPROVAL_LEVELS: readonly RequireApproval[] = ['never', 'any-change', 'broadening'];
+
+export interface DeployOptions {
+  readonly stages: string[]; // Promotion order, e.g. ['dev', 'prod']
+  readonly profiles?: Record<string, string>; // Account ID -> AWS profile
+  readonly outdir?: string; // Cloud assemblies go to {outdir}/{stage} (default: cdk.out/stages)
+  readonly requireApproval?: RequireApproval; // Passed to cdk deploy (default: cdk's own default)
+  readonly dryRun?: boolean; // Synthesize and print the plan only
+}
+
+export interface DeployIo {
+  readonly out: (line: string) => void;
+  readonly run: (command: string, args: string[]) => Promise<number>; // Resolves to the exit code
+  readonly loadAssembly?: (directory: string) => cxapi.CloudAssembly;
+}
+
+export interface StageDeployment {
+  readonly stage: string;
+  readonly assemblyDir: string;
+  readonly waves: DeploymentStep[][];
+}
+
+/**
+ * Groups the assembly's stacks into waves by their stack dependencies (stacks sorted by ID within a wave)
+ */
+export function deploymentWaves(assembly: cxapi.CloudAssembly): DeploymentStep[][] {
+  const stackIds = new Set(assembly.stacks.map((stack) => stack.id));
+  const remaining = new Map<string, DeploymentStep>(
+    assembly.stacks.map((stack) => [
+      stack.id,
+      {
+        stackId: stack.id,
+        stackName: stack.stackName,
+        account: stack.environment.account,
+        region: stack.environment.region,
+        // Asset manifests are dependencies too - only other stacks order the deployment
+        dependsOn: stack.dependencies.map((dependency) => dependency.id).filter((id) => stackIds.has(id)),
+      },
+    ]),
+  );
+
+  const waves: DeploymentStep[][] = [];
+  const deployed = new Set<string>();
+  while (remaining.size > 0) {
+    const wave = [...remaining.values()]
+      .filter((step) => step.dependsOn.every((id) => deployed.has(id)))
+      .sort((a, b) => a.stackId.localeCompare(b.stackId));
+    if (wave.length === 0) {
+      throw new Error(`Deployment: dependency cycle between stacks ${[...remaining.keys()].join(', ')}`);
+    }
+    wave.forEach((step) => {
+      remaining.delete(step.stackId);
+      deployed.add(step.stackId);
+    });
+    waves.push(wave);
+  }
+  return waves;
+}
+
+/**
+ * Lines describing the waves of a stage (dry run and progress output)
+ */
+export function formatDeploymentPlan(deployment: StageDeployment): string[] {
+  return [
+    `Stage ${deployment.stage} (${deployment.assemblyDir})`,
+    ...deployment.waves.map((wave, index) =>
+      `  Wave ${index + 1}: ${wave.map((step) => `${step.stackId} (${step.account}/${step.region})`).join(', ')}`),
+  ];
+}
+
+export async function runDeployment(options: DeployOptions, io: DeployIo): Promise<StageDeployment[]> {
+  const { stages, profiles = {}, outdir = path.join('cdk.out', 'stages'), requireApproval, dryRun } = options;
+  const loadAssembly = io.loadAssembly ?? ((directory: string) => new cxapi.CloudAssembly(directory));
+
+  if (stages.length === 0) {
+    throw new Error('Deployment: at least one stage is required');
+  }
+  const duplicate = stages.find((stage, index) => stages.indexOf(stage) !== index);
+  if (duplicate !== undefined) {
+    throw new Error(`Deployment: stage '${duplicate}' is listed more than once`);
+  }
+
+  // Synthesize every stage before deploying anything - a broken later stage must not leave earlier ones promoted
+  const deployments: StageDeployment[] = [];
+  for (const stage of stages) {
+    const assemblyDir = path.join(outdir, stage);
+    const exitCode = await io.run('npx', ['cdk', 'synth', '--quiet', '--context', `stage=${stage}`, '--output', assemblyDir]);
+    if (exitCode !== 0) {
+      throw new Error(`Deployment: synth of stage '${stage}' failed (exit code ${exitCode}) - nothing was deployed`);
+    }
+    const assembly = loadAssembly(assemblyDir);
+    const problems = verifyContracts(readContracts(assembly.directory));
+    if (problems.length > 0) {
+      throw new Error(`Deployment: contract of stage '${stage}' does not verify - nothing was deployed\n${problems.map((problem) => `  - ${problem}`).join('\n')}`);
+    }
+    const deployment = { stage, assemblyDir, waves: deploymentWaves(assembly) };
+    validateProfiles(deployment, profiles);
+    deployments.push(deployment);
+  }
+
+  for (const deployment of deployments) {
+    formatDeploymentPlan(deployment).forEach((line) => io.out(line));
+  }
+  if (dryRun) {
+    return deployments;
+  }
+
+  for (const [stageIndex, deployment] of deployments.entries()) {
+    const notPromoted = stages.slice(stageIndex + 1);
+    for (const [waveIndex, wave] of deployment.waves.entries()) {
+      for (const [account, steps] of groupByAccount(wave)) {
+        const stackIds = steps.map((step) => step.stackId);
+        io.out(`Deploying stage ${deployment.stage} wave ${waveIndex + 1}: ${stackIds.join(', ')}`);
+
+        const exitCode = await io.run('npx', [
+          'cdk',
+          'deploy',
+          '--app',
+          deployment.assemblyDir,
+          '--exclusively',
+          ...stackIds,
+          ...(profiles[account] ? ['--profile', profiles[account]] : []),
+          ...(requireApproval ? ['--require-approval', requireApproval] : []),
+        ]);
+        if (exitCode !== 0) {
+          const notPromotedNote = notPromoted.length > 0 ? ` - not promoted to ${notPromoted.join(', ')}` : '';
+          throw new Error(
+            `Deployment: ${stackIds.join(', ')} of stage '${deployment.stage}' failed (exit code ${exitCode})${notPromotedNote}`,
+          );
+        }
+      }
+    }
+    io.out(`Stage ${deployment.stage} deployed`);
+  }
+  return deployments;
+}
+
+/**
+ * Without a profile, cdk uses the default credential chain - only valid while a stage spans a single account
+ */
+function validateProfiles(deployment: StageDeployment, profiles: Record<string, string>): void {
+  const accounts = [...new Set(deployment.waves.flat().map((step) => step.account))];
+  const missing = accounts.filter((account) => !profiles[account]);
+  if (accounts.length > 1 && missing.length > 0) {
+    throw new Error(
+      `Deployment: stage '${deployment.stage}' spans accounts ${accounts.join(', ')} - `
+      + `specify --profile <account>=<profile> for ${missing.join(', ')}`,
+    );
+  }
+}
+
+function groupByAccount(wave: DeploymentStep[]): Map<string, DeploymentStep[]> {
+  const groups = new Map<string, DeploymentStep[]>();
+  for (const step of wave) {
+    groups.set(step.account, [...(groups.get(step.account) ?? []), step]);
+  }
+  return groups;
+}
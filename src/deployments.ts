@@ -0,0 +1,35 @@
+/**
+ * Deployment-scoped data access for tiers that allow deployment prefixes (see environment-tier.ts)
+ *
+ * Every RPS deployment ('dev-john', 'dev-alice', ...) tags its processor Lambda role with its deployment name and
+ * passes the same value as a session tag when assuming the Core S3AccessRole. The trust policy only accepts a session
+ * tag equal to the caller's role tag, and the role's S3 grants use it as a policy variable, so a deployment can only
+ * read input/{deployment}/ and write output/{deployment}/ in the pipeline buckets.
+ *
+ * No CDK imports - the processor Lambda bundles this module for deploymentKeyPrefixes.
+ */
+export const DEPLOYMENT_TAG_KEY = 'deployment';
+
+/**
+ * Deployment name of the deployment without a deploymentPrefix
+ */
+export const DEFAULT_DEPLOYMENT_NAME = 'default';
+
+/**
+ * IAM policy variable resolving to the caller's deployment session tag
+ */
+export const DEPLOYMENT_TAG_VARIABLE = `\${aws:PrincipalTag/${DEPLOYMENT_TAG_KEY}}`;
+
+export function deploymentName(deploymentPrefix: string | undefined): string {
+  return deploymentPrefix ?? DEFAULT_DEPLOYMENT_NAME;
+}
+
+/**
+ * Key prefixes a deployment may read and write ({deployment} may be DEPLOYMENT_TAG_VARIABLE)
+ */
+export function deploymentKeyPrefixes(deployment: string): { input: string; output: string } {
+  return {
+    input: `input/${deployment}/`,
+    output: `output/${deployment}/`,
+  };
+}
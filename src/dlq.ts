@@ -0,0 +1,294 @@
+import {
+  ChangeMessageVisibilityBatchCommand,
+  DeleteMessageBatchCommand,
+  GetQueueUrlCommand,
+  Message,
+  MessageAttributeValue,
+  ReceiveMessageCommand,
+  SendMessageBatchCommand,
+  SQSClient,
+} from '@aws-sdk/client-sqs';
+import { DEFAULT_PIPELINE_NAME, pipelineResourcePrefix } from './pipelines';
+import { createRateLimiter } from './rate-limit';
+
+/**
+ * Dead letter queue inspection and redrive for the RPS processor queues
+ *
+ * Messages are EventBridge "Object Created" events as delivered by the RPS rule (see RESOURCE-CONTRACT.md).
+ * Only the `send` method of the SQS client is used, so any SQS-compatible endpoint (ElasticMQ, LocalStack)
+ * or an in-memory stand-in works.
+ */
+export type SqsSender = Pick<SQSClient, 'send'>;
+
+/**
+ * One DLQ message with the wrapped S3 event decoded
+ * Poison messages (body is not an S3 event) keep their raw body and a decodeError
+ */
+export interface DlqMessage {
+  readonly messageId: string;
+  readonly receiptHandle: string;
+  readonly receiveCount: number; // ApproximateReceiveCount - includes failed processor attempts
+  readonly sentAt?: string; // When the message was first sent to the processor queue
+  readonly eventId?: string; // EventBridge event ID (correlation ID in processor logs)
+  readonly bucket?: string;
+  readonly key?: string; // URL-decoded
+  readonly versionId?: string;
+  readonly failureReason?: string; // Quarantined messages: why the processor gave up (failure-reason attribute)
+  readonly decodeError?: string;
+  readonly body: string;
+  readonly messageAttributes?: Record<string, MessageAttributeValue>;
+}
+
+export interface ListOptions {
+  readonly maxMessages?: number; // Stop after this many messages (default: 1000)
+  readonly visibilityTimeoutSeconds?: number; // Hide received messages while scanning (default: 60s, redrive: the paced run plus 60s)
+}
+
+export interface RedriveOptions extends ListOptions {
+  readonly sourceQueueUrl: string; // DLQ
+  readonly targetQueueUrl: string; // Processor queue
+  readonly messageIds?: string[]; // Redrive only these messages (default: all)
+  readonly messagesPerSecond?: number; // Rate limit for sends to the processor queue (default: 10)
+  readonly dryRun?: boolean; // Report what would be redriven without sending or deleting
+  readonly sleep?: (ms: number) => Promise<void>;
+  readonly onProgress?: (progress: RedriveProgress) => void;
+}
+
+export interface RedriveProgress {
+  readonly redriven: number;
+  readonly failed: number;
+  readonly total: number;
+}
+
+export interface RedriveResult {
+  readonly redriven: string[]; // Message IDs sent to the processor queue and deleted from the DLQ
+  readonly failed: { readonly messageId: string; readonly reason: string }[];
+  readonly notFound: string[]; // Requested message IDs that were not in the DLQ
+}
+
+export const SQS_BATCH_SIZE = 10;
+const DEFAULT_MAX_MESSAGES = 1000;
+
+/**
+ * Processor queue and DLQ names for a pipeline - mirrors the naming in StackRps
+ */
+export function processorQueueNames(resourcePrefix: string, pipelineName: string = DEFAULT_PIPELINE_NAME): {
+  queueName: string;
+  deadLetterQueueName: string;
+  quarantineQueueName: string;
+} {
+  const namePrefix = pipelineResourcePrefix(resourcePrefix, pipelineName);
+  return {
+    queueName: `${namePrefix}-processor-queue`,
+    deadLetterQueueName: `${namePrefix}-processor-dlq`,
+    quarantineQueueName: `${namePrefix}-processor-quarantine`,
+  };
+}
+
+/**
+ * Accept either a queue URL or a queue name
+ */
+export async function resolveQueueUrl(client: SqsSender, queue: string): Promise<string> {
+  if (/^https?:\/\//.test(queue)) {
+    return queue;
+  }
+  const response = await client.send(new GetQueueUrlCommand({ QueueName: queue }));
+  if (!response.QueueUrl) {
+    throw new Error(`Queue not found: ${queue}`);
+  }
+  return response.QueueUrl;
+}
+
+export function decodeDlqMessage(message: Message): DlqMessage {
+  const base = {
+    messageId: message.MessageId ?? '',
+    receiptHandle: message.ReceiptHandle ?? '',
+    receiveCount: Number(message.Attributes?.ApproximateReceiveCount ?? 0),
+    sentAt: message.Attributes?.SentTimestamp
+      ? new Date(Number(message.Attributes.SentTimestamp)).toISOString()
+      : undefined,
+    body: message.Body ?? '',
+    messageAttributes: message.MessageAttributes,
+    failureReason: message.MessageAttributes?.['failure-reason']?.StringValue,
+  };
+
+  let event: { id?: unknown; detail?: { bucket?: { name?: unknown }; object?: Record<string, unknown> } };
+  try {
+    event = JSON.parse(base.body);
+  } catch (error) {
+    return { ...base, decodeError: `Body is not JSON: ${(error as Error).message}` };
+  }
+
+  const bucket = event?.detail?.bucket?.name;
+  const key = event?.detail?.object?.key;
+  if (typeof bucket !== 'string' || typeof key !== 'string') {
+    return { ...base, decodeError: 'Body is not an EventBridge S3 event (missing detail.bucket.name or detail.object.key)' };
+  }
+
+  const versionId = event.detail?.object?.['version-id'];
+  return {
+    ...base,
+    eventId: typeof event.id === 'string' ? event.id : undefined,
+    bucket,
+    key: decodeS3Key(key),
+    versionId: typeof versionId === 'string' ? versionId : undefined,
+  };
+}
+
+/**
+ * Receive up to maxMessages from the DLQ without deleting them
+ * Received messages are made visible again afterwards so the listing does not hide them
+ */
+export async function listDlqMessages(client: SqsSender, queueUrl: string, options: ListOptions = {}): Promise<DlqMessage[]> {
+  const messages = await receiveAll(client, queueUrl, options);
+  await releaseMessages(client, queueUrl, messages);
+  return messages;
+}
+
+/**
+ * Move messages from the DLQ back to the processor queue
+ *
+ * Each message is sent with its original body and attributes, and only deleted from the DLQ once the send
+ * succeeded - a failed send leaves the message in the DLQ. Sends are paced to messagesPerSecond.
+ */
+export async function redriveMessages(client: SqsSender, options: RedriveOptions): Promise<RedriveResult> {
+  const messagesPerSecond = options.messagesPerSecond ?? 10;
+  const rateLimit = createRateLimiter(messagesPerSecond, options.sleep);
+
+  // Keep received messages hidden for the whole paced redrive (SQS maximum: 12 hours)
+  const maxMessages = options.maxMessages ?? DEFAULT_MAX_MESSAGES;
+  const received = await receiveAll(client, options.sourceQueueUrl, {
+    maxMessages,
+    visibilityTimeoutSeconds: options.visibilityTimeoutSeconds
+      ?? Math.min(12 * 60 * 60, 60 + Math.ceil(maxMessages / messagesPerSecond)),
+  });
+  const wanted = options.messageIds ? new Set(options.messageIds) : undefined;
+  const selected = wanted ? received.filter((message) => wanted.has(message.messageId)) : received;
+  const notFound = wanted ? [...wanted].filter((id) => !received.some((message) => message.messageId === id)) : [];
+
+  const redriven: string[] = [];
+  const failed: { messageId: string; reason: string }[] = [];
+
+  if (options.dryRun) {
+    await releaseMessages(client, options.sourceQueueUrl, received);
+    return { redriven: selected.map((message) => message.messageId), failed, notFound };
+  }
+
+  for (let start = 0; start < selected.length; start += SQS_BATCH_SIZE) {
+    const batch = selected.slice(start, start + SQS_BATCH_SIZE);
+    await rateLimit(batch.length);
+
+    const sendResponse = await client.send(new SendMessageBatchCommand({
+      QueueUrl: options.targetQueueUrl,
+      Entries: batch.map((message, index) => ({
+        Id: String(index),
+        MessageBody: message.body,
+        MessageAttributes: message.messageAttributes,
+      })),
+    }));
+
+    const sent = (sendResponse.Successful ?? []).map((entry) => batch[Number(entry.Id)]);
+    for (const entry of sendResponse.Failed ?? []) {
+      failed.push({ messageId: batch[Number(entry.Id)].messageId, reason: entry.Message ?? entry.Code ?? 'SendMessage failed' });
+    }
+
+    if (sent.length > 0) {
+      const deleteResponse = await client.send(new DeleteMessageBatchCommand({
+        QueueUrl: options.sourceQueueUrl,
+        Entries: sent.map((message, index) => ({ Id: String(index), ReceiptHandle: message.receiptHandle })),
+      }));
+      // A failed delete means the message is now in both queues - the processing ledger skips the duplicate
+      for (const entry of deleteResponse.Failed ?? []) {
+        failed.push({
+          messageId: sent[Number(entry.Id)].messageId,
+          reason: `Sent to processor queue but not deleted from DLQ: ${entry.Message ?? entry.Code}`,
+        });
+      }
+      const notDeleted = new Set((deleteResponse.Failed ?? []).map((entry) => Number(entry.Id)));
+      sent.forEach((message, index) => {
+        if (!notDeleted.has(index)) {
+          redriven.push(message.messageId);
+        }
+      });
+    }
+
+    options.onProgress?.({ redriven: redriven.length, failed: failed.length, total: selected.length });
+  }
+
+  // Everything not redriven (not selected, or failed to send) becomes visible in the DLQ again
+  const redrivenIds = new Set(redriven);
+  await releaseMessages(client, options.sourceQueueUrl, received.filter((message) => !redrivenIds.has(message.messageId)));
+
+  return { redriven, failed, notFound };
+}
+
+/**
+ * Fixed-width table: message ID, receive count, bucket, key (poison messages show the decode error)
+ */
+export function formatDlqTable(messages: DlqMessage[]): string {
+  const rows = [
+    ['MESSAGE ID', 'RECEIVES', 'SENT', 'BUCKET', 'KEY'],
+    ...messages.map((message) => [
+      message.messageId,
+      String(message.receiveCount),
+      message.sentAt ?? '-',
+      message.bucket ?? '-',
+      message.key ?? `(${message.decodeError})`,
+    ]),
+  ];
+  const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+  return rows
+    .map((row) => row.map((cell, column) => (column === row.length - 1 ? cell : cell.padEnd(widths[column]))).join('  '))
+    .join('\n');
+}
+
+async function receiveAll(client: SqsSender, queueUrl: string, options: ListOptions): Promise<DlqMessage[]> {
+  const maxMessages = options.maxMessages ?? DEFAULT_MAX_MESSAGES;
+  const messages = new Map<string, DlqMessage>();
+
+  while (messages.size < maxMessages) {
+    const response = await client.send(new ReceiveMessageCommand({
+      QueueUrl: queueUrl,
+      MaxNumberOfMessages: Math.min(SQS_BATCH_SIZE, maxMessages - messages.size),
+      VisibilityTimeout: options.visibilityTimeoutSeconds ?? 60,
+      WaitTimeSeconds: 1,
+      MessageSystemAttributeNames: ['ApproximateReceiveCount', 'SentTimestamp'],
+      MessageAttributeNames: ['All'],
+    }));
+
+    const received = response.Messages ?? [];
+    if (received.length === 0) {
+      break;
+    }
+    for (const message of received) {
+      const decoded = decodeDlqMessage(message);
+      messages.set(decoded.messageId, decoded);
+    }
+  }
+
+  return [...messages.values()];
+}
+
+async function releaseMessages(client: SqsSender, queueUrl: string, messages: DlqMessage[]): Promise<void> {
+  for (let start = 0; start < messages.length; start += SQS_BATCH_SIZE) {
+    await client.send(new ChangeMessageVisibilityBatchCommand({
+      QueueUrl: queueUrl,
+      Entries: messages.slice(start, start + SQS_BATCH_SIZE).map((message, index) => ({
+        Id: String(index),
+        ReceiptHandle: message.receiptHandle,
+        VisibilityTimeout: 0,
+      })),
+    }));
+  }
+}
+
+/**
+ * S3 event keys are URL-encoded with '+' for spaces - shown decoded, or as received if malformed
+ */
+function decodeS3Key(key: string): string {
+  try {
+    return decodeURIComponent(key.replace(/\+/g, ' '));
+  } catch {
+    return key;
+  }
+}
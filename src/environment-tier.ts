@@ -0,0 +1,92 @@
+import * as cdk from 'aws-cdk-lib';
+import * as logs from 'aws-cdk-lib/aws-logs';
+
+/**
+ * Explicit environment tier - drives all environment-dependent behaviour in both stacks
+ * (never derived from the prefix: 'devops-prod' must not behave like dev)
+ */
+export type EnvironmentTier = 'dev' | 'test' | 'staging' | 'prod';
+
+export const ENVIRONMENT_TIERS: EnvironmentTier[] = ['dev', 'test', 'staging', 'prod'];
+
+export interface AlarmThresholds {
+  readonly dlqMessages: number; // Messages visible in the DLQ
+  readonly queueOldestMessageAgeSeconds: number; // Age of oldest message in the processor queue
+  readonly lambdaErrors: number; // Processor Lambda errors per 5 minutes
+  readonly lambdaThrottles: number; // Processor Lambda throttles per 5 minutes
+  readonly failedInvocations: number; // EventBridge rule FailedInvocations per 5 minutes
+}
+
+export interface TierPolicy {
+  readonly removalPolicy: cdk.RemovalPolicy;
+  readonly autoDeleteObjects: boolean;
+  // Allow deployment-specific roles ({prefix}-*-processor-lambda-role) in the S3AccessRole trust policy
+  readonly allowDeploymentPrefixes: boolean;
+  readonly logRetention: logs.RetentionDays;
+  readonly alarmThresholds: AlarmThresholds;
+}
+
+export const TIER_POLICIES: Record<EnvironmentTier, TierPolicy> = {
+  dev: {
+    removalPolicy: cdk.RemovalPolicy.DESTROY,
+    autoDeleteObjects: true,
+    allowDeploymentPrefixes: true,
+    logRetention: logs.RetentionDays.ONE_WEEK,
+    alarmThresholds: {
+      dlqMessages: 10,
+      queueOldestMessageAgeSeconds: 3600,
+      lambdaErrors: 10,
+      lambdaThrottles: 10,
+      failedInvocations: 10,
+    },
+  },
+  test: {
+    removalPolicy: cdk.RemovalPolicy.DESTROY,
+    autoDeleteObjects: true,
+    allowDeploymentPrefixes: false,
+    logRetention: logs.RetentionDays.TWO_WEEKS,
+    alarmThresholds: {
+      dlqMessages: 5,
+      queueOldestMessageAgeSeconds: 1800,
+      lambdaErrors: 5,
+      lambdaThrottles: 5,
+      failedInvocations: 5,
+    },
+  },
+  staging: {
+    removalPolicy: cdk.RemovalPolicy.RETAIN,
+    autoDeleteObjects: false,
+    allowDeploymentPrefixes: false,
+    logRetention: logs.RetentionDays.ONE_MONTH,
+    alarmThresholds: {
+      dlqMessages: 1,
+      queueOldestMessageAgeSeconds: 900,
+      lambdaErrors: 1,
+      lambdaThrottles: 1,
+      failedInvocations: 1,
+    },
+  },
+  prod: {
+    removalPolicy: cdk.RemovalPolicy.RETAIN,
+    autoDeleteObjects: false,
+    allowDeploymentPrefixes: false,
+    logRetention: logs.RetentionDays.ONE_YEAR,
+    alarmThresholds: {
+      dlqMessages: 1,
+      queueOldestMessageAgeSeconds: 600,
+      lambdaErrors: 1,
+      lambdaThrottles: 1,
+      failedInvocations: 1,
+    },
+  },
+};
+
+/**
+ * Look up the policy for a tier, failing on unknown values (props may come from untyped config)
+ */
+export function getTierPolicy(environmentTier: EnvironmentTier, context: string): TierPolicy {
+  if (!ENVIRONMENT_TIERS.includes(environmentTier)) {
+    throw new Error(`${context}: environmentTier must be one of ${ENVIRONMENT_TIERS.join(', ')}, got: ${environmentTier}`);
+  }
+  return TIER_POLICIES[environmentTier];
+}
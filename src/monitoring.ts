@@ -0,0 +1,282 @@
+import * as cdk from 'aws-cdk-lib';
+import * as cloudwatch from 'aws-cdk-lib/aws-cloudwatch';
+import * as cloudwatchActions from 'aws-cdk-lib/aws-cloudwatch-actions';
+import * as events from 'aws-cdk-lib/aws-events';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as kms from 'aws-cdk-lib/aws-kms';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import * as sns from 'aws-cdk-lib/aws-sns';
+import * as sqs from 'aws-cdk-lib/aws-sqs';
+import { NagSuppressions } from 'cdk-nag';
+import { Construct } from 'constructs';
+import { AlarmThresholds } from './environment-tier';
+
+export interface FlowMonitoringProps {
+  readonly namePrefix: string; // Prefix for dashboard, alarm and topic names (e.g. 'dev-core', 'dev-john-rps')
+  readonly alarmThresholds: AlarmThresholds; // From the tier policy
+  readonly alarmTopicArn?: string; // Existing SNS topic for alarm notifications (default: create '{namePrefix}-alarms')
+}
+
+/**
+ * Custom processor metrics shown next to the AWS service metrics
+ */
+export interface ProcessorMetricsProps {
+  readonly namespace: string;
+  readonly service: string; // Value of the 'service' dimension
+  readonly metricNames: Record<string, string>;
+}
+
+const PERIOD = cdk.Duration.minutes(5);
+
+/**
+ * CloudWatch dashboard and alarms for one side of the file flow
+ *
+ * Stacks register their resources (EventBridge rules, queues, the processor Lambda) in flow order;
+ * each registration adds a dashboard row and the alarms for that resource. All alarms notify one SNS topic.
+ */
+export class FlowMonitoring extends Construct {
+  public readonly dashboard: cloudwatch.Dashboard;
+  public readonly alarmTopic: sns.ITopic;
+  public readonly alarms: cloudwatch.Alarm[] = [];
+
+  private readonly namePrefix: string;
+  private readonly thresholds: AlarmThresholds;
+  private readonly alarmAction: cloudwatch.IAlarmAction;
+
+  constructor(scope: Construct, id: string, props: FlowMonitoringProps) {
+    super(scope, id);
+
+    this.namePrefix = props.namePrefix;
+    this.thresholds = props.alarmThresholds;
+
+    this.alarmTopic = props.alarmTopicArn
+      ? sns.Topic.fromTopicArn(this, 'AlarmTopic', props.alarmTopicArn)
+      : this.createAlarmTopic();
+    this.alarmAction = new cloudwatchActions.SnsAction(this.alarmTopic);
+
+    this.dashboard = new cloudwatch.Dashboard(this, 'Dashboard', {
+      dashboardName: `${props.namePrefix}-flow`,
+      defaultInterval: cdk.Duration.hours(3),
+    });
+  }
+
+  /**
+   * EventBridge rule: matched events, deliveries and failed deliveries
+   * Rules on a custom bus are additionally identified by the EventBusName dimension
+   */
+  public addEventRule(label: string, rule: events.IRule, eventBusName?: string): void {
+    const metric = (metricName: string) => new cloudwatch.Metric({
+      namespace: 'AWS/Events',
+      metricName,
+      dimensionsMap: {
+        RuleName: rule.ruleName,
+        ...(eventBusName && { EventBusName: eventBusName }),
+      },
+      statistic: cloudwatch.Stats.SUM,
+      period: PERIOD,
+    });
+
+    const failedInvocations = metric('FailedInvocations');
+
+    this.addAlarm(`${constructId(label)}FailedInvocations`, {
+      alarmName: `${this.namePrefix}-${label}-failed-invocations`,
+      alarmDescription: `EventBridge rule ${label} failed to deliver events to its target`,
+      metric: failedInvocations,
+      threshold: this.thresholds.failedInvocations,
+    });
+
+    this.dashboard.addWidgets(
+      new cloudwatch.GraphWidget({
+        title: `${label}: EventBridge rule`,
+        left: [metric('TriggeredRules'), metric('Invocations')],
+        right: [failedInvocations],
+        width: 24,
+      }),
+    );
+  }
+
+  /**
+   * Processor queue and its DLQ: depth, oldest message age, DLQ depth
+   */
+  public addQueue(label: string, queue: sqs.IQueue, deadLetterQueue: sqs.IQueue): void {
+    const oldestMessageAge = queue.metricApproximateAgeOfOldestMessage({ period: PERIOD, statistic: cloudwatch.Stats.MAXIMUM });
+    const dlqDepth = deadLetterQueue.metricApproximateNumberOfMessagesVisible({ period: PERIOD, statistic: cloudwatch.Stats.MAXIMUM });
+
+    this.addAlarm(`${constructId(label)}OldestMessageAge`, {
+      alarmName: `${this.namePrefix}-${label}-oldest-message-age`,
+      alarmDescription: `Messages in ${label} processor queue are not being consumed`,
+      metric: oldestMessageAge,
+      threshold: this.thresholds.queueOldestMessageAgeSeconds,
+    });
+
+    this.addAlarm(`${constructId(label)}DlqDepth`, {
+      alarmName: `${this.namePrefix}-${label}-dlq-depth`,
+      alarmDescription: `Messages in ${label} dead letter queue - files failed processing`,
+      metric: dlqDepth,
+      threshold: this.thresholds.dlqMessages,
+    });
+
+    this.dashboard.addWidgets(
+      new cloudwatch.GraphWidget({
+        title: `${label}: processor queue`,
+        left: [
+          queue.metricNumberOfMessagesSent({ period: PERIOD }),
+          queue.metricApproximateNumberOfMessagesVisible({ period: PERIOD, statistic: cloudwatch.Stats.MAXIMUM }),
+        ],
+        right: [oldestMessageAge],
+        width: 12,
+      }),
+      new cloudwatch.GraphWidget({
+        title: `${label}: dead letter queue`,
+        left: [dlqDepth],
+        width: 12,
+      }),
+    );
+  }
+
+  /**
+   * Processor Lambda: invocations, errors, throttles, duration and the processor's own EMF metrics
+   */
+  /**
+   * Alarm as soon as a message is quarantined - quarantined messages are never retried automatically
+   */
+  public addQuarantineQueue(label: string, queue: sqs.IQueue): void {
+    const depth = queue.metricApproximateNumberOfMessagesVisible({ period: PERIOD, statistic: cloudwatch.Stats.MAXIMUM });
+
+    this.addAlarm(`${constructId(label)}QuarantineDepth`, {
+      alarmName: `${this.namePrefix}-${label}-quarantine-depth`,
+      alarmDescription: `Messages in ${label} quarantine queue - events that cannot be processed`,
+      metric: depth,
+      threshold: this.thresholds.dlqMessages,
+    });
+
+    this.dashboard.addWidgets(
+      new cloudwatch.GraphWidget({
+        title: `${label}: quarantine queue`,
+        left: [depth],
+        width: 12,
+      }),
+    );
+  }
+
+  public addProcessor(processor: lambda.IFunction, processorMetrics: ProcessorMetricsProps): void {
+    const errors = processor.metricErrors({ period: PERIOD, statistic: cloudwatch.Stats.SUM });
+    const throttles = processor.metricThrottles({ period: PERIOD, statistic: cloudwatch.Stats.SUM });
+
+    this.addAlarm('ProcessorErrors', {
+      alarmName: `${this.namePrefix}-processor-errors`,
+      alarmDescription: 'Processor Lambda invocations failed',
+      metric: errors,
+      threshold: this.thresholds.lambdaErrors,
+    });
+
+    this.addAlarm('ProcessorThrottles', {
+      alarmName: `${this.namePrefix}-processor-throttles`,
+      alarmDescription: 'Processor Lambda invocations were throttled',
+      metric: throttles,
+      threshold: this.thresholds.lambdaThrottles,
+    });
+
+    const customMetric = (metricName: string) => new cloudwatch.Metric({
+      namespace: processorMetrics.namespace,
+      metricName,
+      dimensionsMap: { service: processorMetrics.service },
+      statistic: cloudwatch.Stats.SUM,
+      period: PERIOD,
+    });
+    const {
+      filesProcessed,
+      processingFailures,
+      duplicatesSkipped,
+      recordsTimedOut,
+      messagesQuarantined,
+      outputsDeleted,
+      bytesRead,
+      bytesWritten,
+    } = processorMetrics.metricNames;
+
+    this.dashboard.addWidgets(
+      new cloudwatch.GraphWidget({
+        title: 'Processor Lambda',
+        left: [processor.metricInvocations({ period: PERIOD }), errors, throttles],
+        right: [processor.metricDuration({ period: PERIOD, statistic: cloudwatch.Stats.p(99) })],
+        width: 12,
+      }),
+      new cloudwatch.GraphWidget({
+        title: 'Processed files',
+        left: [
+          customMetric(filesProcessed),
+          customMetric(processingFailures),
+          customMetric(duplicatesSkipped),
+          customMetric(recordsTimedOut),
+          customMetric(messagesQuarantined),
+          customMetric(outputsDeleted),
+        ],
+        right: [customMetric(bytesRead), customMetric(bytesWritten)],
+        width: 12,
+      }),
+    );
+  }
+
+  private addAlarm(id: string, props: {
+    alarmName: string;
+    alarmDescription: string;
+    metric: cloudwatch.IMetric;
+    threshold: number;
+  }): void {
+    const alarm = new cloudwatch.Alarm(this, id, {
+      ...props,
+      evaluationPeriods: 1,
+      comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+      treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+    });
+    alarm.addAlarmAction(this.alarmAction);
+    alarm.addOkAction(this.alarmAction);
+    this.alarms.push(alarm);
+  }
+
+  /**
+   * Encrypted topic - CloudWatch needs a customer managed key (AWS managed SNS keys cannot be used by alarms)
+   */
+  private createAlarmTopic(): sns.ITopic {
+    const topicKey = new kms.Key(this, 'AlarmTopicKey', {
+      description: `KMS key for ${this.namePrefix} alarm topic encryption`,
+      enableKeyRotation: true,
+    });
+    topicKey.addToResourcePolicy(
+      new iam.PolicyStatement({
+        sid: 'AllowCloudWatchAlarms',
+        effect: iam.Effect.ALLOW,
+        principals: [new iam.ServicePrincipal('cloudwatch.amazonaws.com')],
+        actions: ['kms:Decrypt', 'kms:GenerateDataKey*'],
+        resources: ['*'],
+      }),
+    );
+
+    NagSuppressions.addResourceSuppressions(
+      topicKey,
+      [
+        {
+          id: 'AwsSolutions-KMS5',
+          reason: 'KMS key rotation is enabled',
+        },
+      ],
+      true,
+    );
+
+    return new sns.Topic(this, 'AlarmTopic', {
+      topicName: `${this.namePrefix}-alarms`,
+      displayName: `${this.namePrefix} operational alarms`,
+      masterKey: topicKey,
+      enforceSSL: true,
+    });
+  }
+}
+
+// 'orders-receive-s3-events' -> 'OrdersReceiveS3Events'
+function constructId(label: string): string {
+  return label
+    .split('-')
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('');
+}
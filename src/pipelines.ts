@@ -0,0 +1,169 @@
+/**
+ * Pipeline naming helpers - single source for the naming contract in RESOURCE-CONTRACT.md
+ *
+ * A pipeline is one data feed: input bucket + output bucket in Core, rule + queue in RPS.
+ * The 'default' pipeline keeps the original (pipeline-less) names so existing deployments are not replaced.
+ */
+export const DEFAULT_PIPELINE_NAME = 'default';
+
+export interface PipelineProps {
+  readonly name: string; // Lowercase letters, digits and hyphens (e.g. 'orders')
+  readonly outputKeyTemplate?: string; // Output object key, e.g. '{date}/{basename}.processed{ext}' (default: '{key}')
+}
+
+/**
+ * Output key template variables - mirrors renderOutputKey in lambda/output-keys.ts
+ * For source key 'in/orders.csv': {key} 'in/orders.csv', {dir} 'in', {filename} 'orders.csv', {basename} 'orders',
+ * {ext} '.csv'. {date} (YYYY-MM-DD), {year}, {month} and {day} are the UTC date of the S3 event.
+ */
+export const OUTPUT_KEY_VARIABLES = ['key', 'dir', 'filename', 'basename', 'ext', 'pipeline', 'date', 'year', 'month', 'day'];
+const DATE_VARIABLES = ['date', 'year', 'month', 'day'];
+
+// Same key as the input object
+export const DEFAULT_OUTPUT_KEY_TEMPLATE = '{key}';
+
+/**
+ * RPS view of a pipeline - bucket names are passed in (static naming contract, no cross-account references)
+ */
+export interface RpsPipelineProps extends PipelineProps {
+  readonly inputBucketName: string;
+  readonly outputBucketName: string;
+  readonly replicaInputBucketName?: string; // Core DR replica buckets (StackCore drReplicaRegion)
+  readonly replicaOutputBucketName?: string;
+}
+
+export function isDefaultPipeline(pipelineName: string): boolean {
+  return pipelineName === DEFAULT_PIPELINE_NAME;
+}
+
+/**
+ * {prefix}-core-{kind}-bucket-{account}-{region} or {prefix}-{pipeline}-core-{kind}-bucket-{account}-{region}
+ * The manifest bucket is shared by all pipelines and always uses the default pipeline name
+ */
+export function coreBucketName(
+  kind: 'input' | 'output' | 'manifest',
+  prefix: string,
+  pipelineName: string,
+  accountCoreId: string,
+  region: string,
+): string {
+  return `${pipelineResourcePrefix(prefix, pipelineName)}-core-${kind}-bucket-${accountCoreId}-${region}`;
+}
+
+/**
+ * alias/{prefix}[-{pipeline}]-{kind}-bucket-key - the same alias in the primary and the DR replica region
+ */
+export function coreBucketKeyAlias(kind: 'input' | 'output', prefix: string, pipelineName: string): string {
+  return `alias/${pipelineResourcePrefix(prefix, pipelineName)}-${kind}-bucket-key`;
+}
+
+/**
+ * Prefix for per-pipeline resource names: 'dev' for the default pipeline, 'dev-orders' otherwise
+ */
+export function pipelineResourcePrefix(resourcePrefix: string, pipelineName: string): string {
+  return isDefaultPipeline(pipelineName) ? resourcePrefix : `${resourcePrefix}-${pipelineName}`;
+}
+
+/**
+ * Core rule forwarding a pipeline's input events to a consumer: {prefix}[-{pipeline}][-{consumer}]-s3-input-events
+ * Standby rules in the DR replica region (StackCoreReplica) end in -s3-replica-input-events
+ */
+export function coreEventRuleName(prefix: string, pipelineName: string, consumerName: string, replica = false): string {
+  return `${pipelineResourcePrefix(pipelineResourcePrefix(prefix, pipelineName), consumerName)}-s3-${replica ? 'replica-' : ''}input-events`;
+}
+
+/**
+ * ARN pattern matching every Core rule of a stage in one account and region (primary and standby rules)
+ */
+export function coreEventRuleArnPattern(prefix: string, accountId: string, region: string): string {
+  return `arn:aws:events:${region}:${accountId}:rule/${prefix}-*input-events`;
+}
+
+/**
+ * Construct ID for per-pipeline constructs: 'InputBucket' for the default pipeline, 'OrdersInputBucket' otherwise
+ */
+export function pipelineConstructId(pipelineName: string, id: string): string {
+  if (isDefaultPipeline(pipelineName)) {
+    return id;
+  }
+  const pascalName = pipelineName
+    .split('-')
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('');
+  return `${pascalName}${id}`;
+}
+
+// What the processor does with the output object when its input object is deleted
+export const DELETION_HANDLING_MODES = ['ignore', 'delete', 'tombstone'] as const;
+export type DeletionHandling = typeof DELETION_HANDLING_MODES[number];
+
+/**
+ * S3 event types the Core rules forward and the RPS rules deliver to the processor
+ * 'Object Deleted' is only included when the processor handles deletions (StackRps deletionHandling)
+ */
+export function s3EventDetailTypes(includeObjectDeleted: boolean): string[] {
+  return includeObjectDeleted ? ['Object Created', 'Object Deleted'] : ['Object Created'];
+}
+
+/**
+ * Static part of an output key template before its first variable - the S3AccessRole may only write below it
+ * 'processed/year={year}/month={month}/{filename}' -> 'processed/year=', '{key}' -> '' (whole bucket)
+ */
+export function outputKeyPrefix(template: string): string {
+  const firstVariable = template.indexOf('{');
+  return firstVariable === -1 ? template : template.slice(0, firstVariable);
+}
+
+/**
+ * Date variables come from the event time - an 'Object Deleted' event cannot recompute them
+ */
+export function usesDateVariables(template: string): boolean {
+  return templateVariables(template).some((variable) => DATE_VARIABLES.includes(variable));
+}
+
+/**
+ * Validate an output key template: known variables only, balanced braces, and a variable naming the file
+ */
+export function validateOutputKeyTemplate(template: string, context: string): void {
+  if (template.trim().length === 0 || template.startsWith('/')) {
+    throw new Error(`${context}: outputKeyTemplate must be a non-empty key without a leading '/', got: '${template}'`);
+  }
+  if (template.replace(/\{[a-z]+\}/g, '').match(/[{}]/)) {
+    throw new Error(`${context}: outputKeyTemplate has unbalanced braces: '${template}'`);
+  }
+  const unknown = templateVariables(template).filter((variable) => !OUTPUT_KEY_VARIABLES.includes(variable));
+  if (unknown.length > 0) {
+    throw new Error(`${context}: outputKeyTemplate uses unknown variable(s) ${unknown.map((variable) => `{${variable}}`).join(', ')}, expected: ${OUTPUT_KEY_VARIABLES.join(', ')}`);
+  }
+  // Without the file name every object of a prefix/day would be written to the same key
+  if (!templateVariables(template).some((variable) => ['key', 'filename', 'basename'].includes(variable))) {
+    throw new Error(`${context}: outputKeyTemplate must contain {key}, {filename} or {basename}, got: '${template}'`);
+  }
+}
+
+function templateVariables(template: string): string[] {
+  return Array.from(template.matchAll(/\{([a-z]+)\}/g), (match) => match[1]);
+}
+
+/**
+ * Validate pipeline names (non-empty list, naming pattern, unique) and output key templates
+ */
+export function validatePipelines(pipelines: PipelineProps[], context: string): void {
+  if (pipelines.length === 0) {
+    throw new Error(`${context}: pipelines must contain at least one pipeline`);
+  }
+
+  const seen = new Set<string>();
+  for (const pipeline of pipelines) {
+    if (!/^[a-z][a-z0-9-]{0,19}$/.test(pipeline.name)) {
+      throw new Error(`${context}: pipeline name must be 1-20 lowercase letters, digits and hyphens starting with a letter, got: ${pipeline.name}`);
+    }
+    if (seen.has(pipeline.name)) {
+      throw new Error(`${context}: duplicate pipeline name: ${pipeline.name}`);
+    }
+    seen.add(pipeline.name);
+    if (pipeline.outputKeyTemplate !== undefined) {
+      validateOutputKeyTemplate(pipeline.outputKeyTemplate, `${context}: pipeline '${pipeline.name}'`);
+    }
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * CloudWatch namespace and EMF metric names of the processor Lambda
+ *
+ * Single source for both sides: lambda/observability.ts emits these names, StackRps builds its dashboard and alarms
+ * on them. Metrics carry a single 'service' dimension: {resourcePrefix}-processor. No CDK imports - the processor
+ * Lambda bundles this module.
+ */
+export const PROCESSOR_METRICS_NAMESPACE = 'CrossAccountProcessor';
+
+export const PROCESSOR_METRICS = {
+  filesProcessed: 'FilesProcessed',
+  bytesRead: 'BytesRead',
+  bytesWritten: 'BytesWritten',
+  processingFailures: 'ProcessingFailures',
+  duplicatesSkipped: 'DuplicatesSkipped',
+  recordsTimedOut: 'RecordsTimedOut',
+  messagesQuarantined: 'MessagesQuarantined',
+  outputsDeleted: 'OutputsDeleted',
+} as const;
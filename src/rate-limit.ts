@@ -0,0 +1,26 @@
+/**
+ * Paces batched sends to a fixed rate - used by the DLQ redrive and backfill commands
+ *
+ * Call before each batch with the batch size; the first batch goes out immediately and later batches wait
+ * until the previous ones have used up their share of the rate.
+ */
+export type RateLimiter = (count: number) => Promise<void>;
+
+export function createRateLimiter(
+  perSecond: number,
+  sleep: (ms: number) => Promise<void> = (ms) => new Promise<void>((resolve) => setTimeout(resolve, ms)),
+): RateLimiter {
+  if (!(perSecond > 0)) {
+    throw new Error(`Rate must be greater than 0, got: ${perSecond}`);
+  }
+
+  let nextSendAt = Date.now();
+
+  return async (count: number) => {
+    const now = Date.now();
+    if (nextSendAt > now) {
+      await sleep(nextSendAt - now);
+    }
+    nextSendAt = Math.max(now, nextSendAt) + (count / perSecond) * 1000;
+  };
+}
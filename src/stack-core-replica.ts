@@ -0,0 +1,289 @@
+import * as cdk from 'aws-cdk-lib';
+import * as events from 'aws-cdk-lib/aws-events';
+import * as targets from 'aws-cdk-lib/aws-events-targets';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as kms from 'aws-cdk-lib/aws-kms';
+import * as s3 from 'aws-cdk-lib/aws-s3';
+import { NagSuppressions } from 'cdk-nag';
+import { Construct } from 'constructs';
+import {
+  DEFAULT_CONSUMER_NAME,
+  RpsConsumerProps,
+  consumerEventBusArn,
+  isDefaultConsumer,
+  objectKeyMatchers,
+  validateConsumers,
+} from './consumers';
+import { EnvironmentTier, getTierPolicy } from './environment-tier';
+import { FlowMonitoring } from './monitoring';
+import {
+  DEFAULT_PIPELINE_NAME,
+  PipelineProps,
+  coreBucketKeyAlias,
+  coreBucketName,
+  coreEventRuleName,
+  isDefaultPipeline,
+  pipelineConstructId,
+  pipelineResourcePrefix,
+  s3EventDetailTypes,
+  validatePipelines,
+} from './pipelines';
+
+export interface StackCoreReplicaProps extends cdk.StackProps {
+  readonly prefix: string;
+  readonly accountRpsId?: string; // Single RPS consumer shorthand - same consumers as StackCore
+  readonly consumers?: RpsConsumerProps[];
+  readonly region: string; // Replica region
+  readonly primaryRegion: string; // Region of the StackCore replicating into this stack (and of the RPS buses)
+  readonly environmentTier: EnvironmentTier;
+  readonly pipelines?: PipelineProps[]; // Same pipelines as StackCore
+  readonly failover?: boolean; // Enable the standby rules forwarding replica input bucket events (default: false)
+  readonly forwardDeleteEvents?: boolean; // Same as StackCore forwardDeleteEvents
+  readonly alarmTopicArn?: string; // SNS topic for alarms in the replica region (default: create {prefix}-core-replica-alarms)
+}
+
+/**
+ * Replica resources of a single pipeline
+ */
+export interface ReplicaPipelineResources {
+  readonly name: string;
+  readonly inputBucket: s3.IBucket;
+  readonly outputBucket: s3.IBucket;
+  readonly standbyRules: Record<string, events.IRule>; // Keyed by consumer name
+}
+
+/**
+ * Disaster-recovery replica of the Core buckets (StackCore drReplicaRegion)
+ *
+ * Deployed to the replica region before StackCore, which replicates into these buckets. Bucket names and key
+ * aliases follow RESOURCE-CONTRACT.md with the replica region. The standby rules forward replica input bucket
+ * events to the RPS buses in the primary region; they stay disabled until failover, since every replicated object
+ * would otherwise be processed twice.
+ *
+ * Failover covers an outage of the Core buckets, not of the primary region: the RPS buses, queues and processor
+ * stay in the primary region. Consumers with an eventBusArn in another region are targeted there instead.
+ */
+export class StackCoreReplica extends cdk.Stack {
+  public readonly pipelines: ReplicaPipelineResources[];
+  public readonly monitoring: FlowMonitoring;
+
+  constructor(scope: Construct, id: string, props: StackCoreReplicaProps) {
+    super(scope, id, props);
+
+    const {
+      prefix,
+      accountRpsId,
+      region,
+      primaryRegion,
+      environmentTier,
+      pipelines = [{ name: DEFAULT_PIPELINE_NAME }],
+      failover = false,
+      forwardDeleteEvents = false,
+    } = props;
+
+    if (props.consumers && accountRpsId !== undefined) {
+      throw new Error('StackCoreReplica: specify either consumers or accountRpsId, not both');
+    }
+    if (!props.consumers && accountRpsId === undefined) {
+      throw new Error('StackCoreReplica: accountRpsId is required (or specify consumers)');
+    }
+    if (!prefix || prefix.trim().length === 0) {
+      throw new Error('StackCoreReplica: prefix is required and cannot be empty');
+    }
+    if (!region || region.trim().length === 0 || region === primaryRegion) {
+      throw new Error(`StackCoreReplica: region must be a region other than the primary region ${primaryRegion}, got: '${region}'`);
+    }
+    validatePipelines(pipelines, 'StackCoreReplica');
+
+    const consumers = props.consumers ?? [{ name: DEFAULT_CONSUMER_NAME, accountId: accountRpsId! }];
+    validateConsumers(consumers, 'StackCoreReplica');
+
+    const { removalPolicy, autoDeleteObjects, alarmThresholds } = getTierPolicy(environmentTier, 'StackCoreReplica');
+
+    const accessLogsBucket = new s3.Bucket(this, 'AccessLogsBucket', {
+      bucketName: `${prefix}-core-replica-access-logs-${this.account}-${region}`,
+      encryption: s3.BucketEncryption.S3_MANAGED,
+      blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+      enforceSSL: true,
+      versioned: false,
+      removalPolicy,
+      autoDeleteObjects, // Only auto-delete in dev/test
+      objectOwnership: s3.ObjectOwnership.BUCKET_OWNER_PREFERRED,
+    });
+    NagSuppressions.addResourceSuppressions(
+      accessLogsBucket,
+      [
+        {
+          id: 'AwsSolutions-S1',
+          reason: 'Access logs bucket cannot log to itself - would cause infinite loop',
+        },
+      ],
+      true,
+    );
+
+    // Standby path: same consumer buses as StackCore, reached cross-region
+    const consumerTargets = consumers.map((consumer) => ({
+      consumer,
+      eventBus: events.EventBus.fromEventBusArn(
+        this,
+        pipelineConstructId(consumer.name, 'AccountRpsEventBus'),
+        consumer.eventBusArn ?? consumerEventBusArn(prefix, primaryRegion, consumer.accountId),
+      ),
+    }));
+    const standbyEventBridgeRole = new iam.Role(this, 'StandbyEventBridgeRole', {
+      roleName: `${prefix}-core-replica-eventbridge-role`,
+      assumedBy: new iam.ServicePrincipal('events.amazonaws.com'),
+      description: 'Role for EventBridge to send replica bucket events to RPS Accounts',
+    });
+    standbyEventBridgeRole.addToPolicy(
+      new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: ['events:PutEvents'],
+        resources: consumerTargets.map(({ eventBus }) => eventBus.eventBusArn),
+      }),
+    );
+
+    this.pipelines = pipelines.map((pipeline) => {
+      const pipelineName = pipeline.name;
+      const pipelineId = (constructId: string) => pipelineConstructId(pipelineName, constructId);
+      const namePrefix = pipelineResourcePrefix(prefix, pipelineName);
+      const logsPrefix = isDefaultPipeline(pipelineName) ? '' : `${pipelineName}-`;
+
+      const [inputBucket, outputBucket] = (['input', 'output'] as const).map((kind) => {
+        const kindId = kind === 'input' ? 'Input' : 'Output';
+        const key = new kms.Key(this, pipelineId(`${kindId}BucketKey`), {
+          alias: coreBucketKeyAlias(kind, prefix, pipelineName),
+          description: `KMS key for ${prefix} ${kind} bucket replica encryption (${pipelineName} pipeline)`,
+          enableKeyRotation: true,
+          removalPolicy,
+        });
+
+        const bucket = new s3.Bucket(this, pipelineId(`${kindId}Bucket`), {
+          bucketName: coreBucketName(kind, prefix, pipelineName, this.account, region),
+          encryption: s3.BucketEncryption.KMS,
+          encryptionKey: key,
+          bucketKeyEnabled: true, // S3 Bucket Key: far fewer KMS requests
+          blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+          versioned: true, // Required as a replication destination
+          enforceSSL: true,
+          serverAccessLogsBucket: accessLogsBucket,
+          serverAccessLogsPrefix: `${logsPrefix}${kind}-bucket-logs/`,
+          removalPolicy,
+          autoDeleteObjects, // Only auto-delete in dev/test
+          eventBridgeEnabled: kind === 'input', // Source of the standby path
+          lifecycleRules: [
+            {
+              id: 'DeleteOldVersions',
+              noncurrentVersionExpiration: cdk.Duration.days(30),
+            },
+          ],
+        });
+
+        // Explicit deny for public access (defense in depth) - the replication role is in the Core account
+        bucket.addToResourcePolicy(
+          new iam.PolicyStatement({
+            sid: 'DenyPublicAccess',
+            effect: iam.Effect.DENY,
+            principals: [new iam.AnyPrincipal()],
+            actions: ['s3:*'],
+            resources: [bucket.bucketArn, `${bucket.bucketArn}/*`],
+            conditions: {
+              Bool: {
+                'aws:PrincipalIsAWSService': 'false',
+              },
+              StringNotEquals: {
+                'aws:PrincipalAccount': [this.account], // Only Core account
+              },
+            },
+          }),
+        );
+
+        NagSuppressions.addResourceSuppressions(
+          key,
+          [
+            {
+              id: 'AwsSolutions-KMS5',
+              reason: 'KMS key rotation is enabled for production use',
+            },
+          ],
+          true,
+        );
+        NagSuppressions.addResourceSuppressions(
+          bucket,
+          [
+            {
+              id: 'AwsSolutions-S5',
+              reason: `Replica ${kind} bucket policy includes defense-in-depth deny for public access`,
+            },
+          ],
+          true,
+        );
+
+        return bucket;
+      });
+
+      const standbyRules: Record<string, events.IRule> = {};
+      for (const { consumer, eventBus } of consumerTargets) {
+        const keyMatchers = objectKeyMatchers(consumer.objectKeyFilters);
+        const consumerDescription = isDefaultConsumer(consumer.name) ? '' : ` (${consumer.name} consumer)`;
+
+        const rule = new events.Rule(this, pipelineId(pipelineConstructId(consumer.name, 'S3ReplicaInputEventRule')), {
+          ruleName: coreEventRuleName(prefix, pipelineName, consumer.name, true),
+          description: `Standby path: S3 events of the ${namePrefix} replica input bucket${consumerDescription}`,
+          enabled: failover,
+          eventPattern: {
+            source: ['aws.s3'],
+            detailType: s3EventDetailTypes(forwardDeleteEvents),
+            detail: {
+              bucket: {
+                name: [inputBucket.bucketName],
+              },
+              ...(keyMatchers ? { object: { key: keyMatchers } } : {}),
+            },
+          },
+        });
+        rule.addTarget(new targets.EventBus(eventBus, { role: standbyEventBridgeRole }));
+
+        standbyRules[consumer.name] = rule;
+      }
+
+      new cdk.CfnOutput(this, pipelineId('ReplicaInputBucketName'), {
+        value: inputBucket.bucketName,
+        description: `Name of the replica input S3 bucket (${pipelineName} pipeline)`,
+      });
+      new cdk.CfnOutput(this, pipelineId('ReplicaOutputBucketName'), {
+        value: outputBucket.bucketName,
+        description: `Name of the replica output S3 bucket (${pipelineName} pipeline)`,
+      });
+
+      return { name: pipelineName, inputBucket, outputBucket, standbyRules };
+    });
+
+    // FailedInvocations alarms matter once the standby rules are enabled
+    this.monitoring = new FlowMonitoring(this, 'Monitoring', {
+      namePrefix: `${prefix}-core-replica`,
+      alarmThresholds,
+      alarmTopicArn: props.alarmTopicArn,
+    });
+    for (const pipeline of this.pipelines) {
+      for (const [consumerName, rule] of Object.entries(pipeline.standbyRules)) {
+        const label = [pipeline.name, consumerName]
+          .filter((name) => !isDefaultPipeline(name) && !isDefaultConsumer(name))
+          .concat('s3-replica-input-events')
+          .join('-');
+        this.monitoring.addEventRule(label, rule);
+      }
+    }
+
+    NagSuppressions.addStackSuppressions(this, [
+      {
+        id: 'AwsSolutions-IAM4',
+        reason:
+          'BucketNotificationsHandler Lambda uses AWS managed policy for CloudWatch Logs access',
+        appliesTo: [
+          'Policy::arn:<AWS::Partition>:iam::aws:policy/service-role/AWSLambdaBasicExecutionRole',
+        ],
+      },
+    ]);
+  }
+}
@@ -6,59 +6,174 @@ import * as kms from 'aws-cdk-lib/aws-kms';
 import * as s3 from 'aws-cdk-lib/aws-s3';
 import { NagSuppressions } from 'cdk-nag';
 import { Construct } from 'constructs';
+import {
+  DEFAULT_CONSUMER_NAME,
+  RpsConsumerProps,
+  consumerEventBusArn,
+  isDefaultConsumer,
+  objectKeyMatchers,
+  validateConsumers,
+} from './consumers';
+import { CONTRACT_VERSION, ContractStackSynthesizer, publishContract } from './contract';
+import { CrossAccountRole } from './cross-account-trust';
+import { DEPLOYMENT_TAG_KEY, DEPLOYMENT_TAG_VARIABLE, deploymentKeyPrefixes } from './deployments';
+import { EnvironmentTier, getTierPolicy } from './environment-tier';
+import { FlowMonitoring } from './monitoring';
+import {
+  DEFAULT_OUTPUT_KEY_TEMPLATE,
+  DEFAULT_PIPELINE_NAME,
+  PipelineProps,
+  coreBucketKeyAlias,
+  coreBucketName,
+  coreEventRuleName,
+  isDefaultPipeline,
+  outputKeyPrefix,
+  pipelineConstructId,
+  pipelineResourcePrefix,
+  s3EventDetailTypes,
+  validatePipelines,
+} from './pipelines';
+
+// Object write actions of s3.Bucket.grantPut (granted explicitly to keep KMS grants conditioned)
+const S3_PUT_ACTIONS = [
+  's3:PutObject',
+  's3:PutObjectLegalHold',
+  's3:PutObjectRetention',
+  's3:PutObjectTagging',
+  's3:PutObjectVersionTagging',
+  's3:Abort*',
+];
+
+/**
+ * KMS statement limited to S3 in {region} and one bucket's encryption context
+ * Keys of another stack (DR replicas) are granted as key/* and matched by their alias
+ */
+function s3BucketKeyStatement(
+  actions: string[],
+  keyArn: string,
+  keyAlias: string | undefined,
+  region: string,
+  bucketArn: string,
+): iam.PolicyStatement {
+  return new iam.PolicyStatement({
+    effect: iam.Effect.ALLOW,
+    actions,
+    resources: [keyArn],
+    conditions: {
+      StringEquals: { 'kms:ViaService': `s3.${region}.amazonaws.com`, 'kms:EncryptionContext:aws:s3:arn': bucketArn },
+      ...(keyAlias && { 'ForAnyValue:StringEquals': { 'kms:ResourceAliases': [keyAlias] } }),
+    },
+  });
+}
 
 export interface StackCoreProps extends cdk.StackProps {
   readonly prefix: string;
-  readonly accountRpsId: string;
+  readonly accountRpsId?: string; // Single RPS consumer shorthand - use consumers for fan-out to several RPS accounts
+  readonly consumers?: RpsConsumerProps[]; // RPS accounts receiving input bucket events (each with its own bus, filters and trust)
+  readonly region: string;
+  readonly environmentTier: EnvironmentTier; // Drives removal policies, trust wildcards, log retention, alarms
+  readonly pipelines?: PipelineProps[]; // One input/output bucket pair per pipeline (default: single 'default' pipeline)
+  readonly alarmTopicArn?: string; // SNS topic for alarms in the Core account (default: create {prefix}-core-alarms)
+  readonly s3AccessRoleExternalId?: string; // Require this sts:ExternalId in every S3AccessRole trust statement
+  readonly forwardDeleteEvents?: boolean; // Also forward 'Object Deleted' events (for StackRps deletionHandling, default: false)
+  readonly drReplicaRegion?: string; // DR mode: replicate input/output buckets to StackCoreReplica in this region
+}
+
+/**
+ * Core resources created for a single pipeline
+ */
+export interface CorePipelineResources {
+  readonly name: string;
+  readonly inputBucket: s3.IBucket;
+  readonly outputBucket: s3.IBucket;
+  readonly inputBucketKey: kms.IKey; // Decrypt-only for the S3AccessRole
+  readonly outputBucketKey: kms.IKey; // Encrypt-only for the S3AccessRole (plus Decrypt for multipart uploads)
+  readonly eventRules: Record<string, events.IRule>; // Keyed by consumer name
+}
+
+/**
+ * Input/output bucket pair of a pipeline the S3AccessRole can use - its own buckets or their DR replicas
+ */
+interface BucketPair {
   readonly region: string;
+  readonly inputBucketArn: string;
+  readonly outputBucketArn: string;
+  readonly inputKeyArn: string;
+  readonly outputKeyArn: string;
+  readonly keyAliases?: { input: string; output: string }; // Keys of another stack: keyArns are key/*, matched by alias
 }
 
 export class StackCore extends cdk.Stack {
-  public readonly inputBucket: s3.IBucket;
-  public readonly outputBucket: s3.IBucket;
+  public readonly pipelines: CorePipelineResources[];
+  public readonly inputBucket: s3.IBucket; // Input bucket of the default (or first) pipeline
+  public readonly outputBucket: s3.IBucket; // Output bucket of the default (or first) pipeline
   public readonly inputBucketName: string;
   public readonly outputBucketName: string;
   public readonly s3AccessRole: iam.IRole;
   public readonly s3AccessRoleArn: string;
+  public readonly consumers: RpsConsumerProps[];
+  public readonly manifestBucket: s3.IBucket;
+  public readonly monitoring: FlowMonitoring;
 
   constructor(scope: Construct, id: string, props: StackCoreProps) {
-    super(scope, id, props);
-
-    const { prefix, accountRpsId, region } = props;
+    super(scope, id, { synthesizer: new ContractStackSynthesizer(), ...props });
+
+    const {
+      prefix,
+      accountRpsId,
+      region,
+      environmentTier,
+      pipelines = [{ name: DEFAULT_PIPELINE_NAME }],
+      s3AccessRoleExternalId,
+      forwardDeleteEvents = false,
+      drReplicaRegion,
+    } = props;
+
+    if (props.consumers && accountRpsId !== undefined) {
+      throw new Error('StackCore: specify either consumers or accountRpsId, not both');
+    }
+    if (!props.consumers && accountRpsId === undefined) {
+      throw new Error('StackCore: accountRpsId is required (or specify consumers)');
+    }
 
     // Validate required props
     if (!prefix || prefix.trim().length === 0) {
       throw new Error('StackCore: prefix is required and cannot be empty');
     }
-    if (!/^\d{12}$/.test(accountRpsId)) {
+    if (accountRpsId !== undefined && !/^\d{12}$/.test(accountRpsId)) {
       throw new Error(`StackCore: accountRpsId must be a 12-digit AWS account ID, got: ${accountRpsId}`);
     }
     if (!region || region.trim().length === 0) {
       throw new Error('StackCore: region is required and cannot be empty');
     }
+    validatePipelines(pipelines, 'StackCore');
+    if (drReplicaRegion !== undefined && (drReplicaRegion.trim().length === 0 || drReplicaRegion === region)) {
+      throw new Error(`StackCore: drReplicaRegion must be a region other than ${region}, got: '${drReplicaRegion}'`);
+    }
+
+    const consumers = props.consumers ?? [{ name: DEFAULT_CONSUMER_NAME, accountId: accountRpsId! }];
+    validateConsumers(consumers, 'StackCore');
+    this.consumers = consumers;
+
+    // Environment-dependent behaviour comes from the explicit tier (see environment-tier.ts)
+    const tierPolicy = getTierPolicy(environmentTier, 'StackCore');
 
-    // Security: Different principal strategies based on environment
-    // - Dev: Wildcard pattern matching processor Lambda roles only
+    // Security: Different principal strategies based on tier
+    // - allowDeploymentPrefixes (dev): Wildcard pattern matching processor Lambda roles only
     //   Allows: dev-processor-lambda-role, dev-john-processor-lambda-role, dev-alice-processor-lambda-role
     //   Denies: Any other role in RPS account (dev-other-service-role, etc.)
-    // - Preprod/Prod: Specific role ARN only (no deployment prefixes allowed)
-    const isDev = prefix.toLowerCase().includes('dev');
-
-    const rpsPrincipal = isDev
-      ? new iam.CompositePrincipal(
-        // Allow base deployment role (e.g., dev-processor-lambda-role)
-        new iam.ArnPrincipal(`arn:aws:iam::${accountRpsId}:role/${prefix}-processor-lambda-role`),
-        // Allow deployment-specific roles (e.g., dev-john-processor-lambda-role, dev-alice-processor-lambda-role)
-        new iam.ArnPrincipal(`arn:aws:iam::${accountRpsId}:role/${prefix}-*-processor-lambda-role`),
-      )
-      : new iam.ArnPrincipal(`arn:aws:iam::${accountRpsId}:role/${prefix}-processor-lambda-role`); // Prod: Specific role only
-
-    // Environment-based retention policies
-    // Dev: DESTROY (cost optimization, easy cleanup)
-    // Prod: RETAIN (data protection, compliance)
-    const removalPolicy = isDev ? cdk.RemovalPolicy.DESTROY : cdk.RemovalPolicy.RETAIN;
-
-    // Create KMS key for S3 bucket encryption with predictable alias
+    // - Otherwise (test/staging/prod): Specific role ARN only (no deployment prefixes allowed)
+    // Deployments sharing the role are separated by their 'deployment' session tag (see deployments.ts)
+    const allowDeploymentPrefixes = tierPolicy.allowDeploymentPrefixes;
+
+    // Tier-based retention policies
+    // Dev/Test: DESTROY (cost optimization, easy cleanup)
+    // Staging/Prod: RETAIN (data protection, compliance)
+    const { removalPolicy, autoDeleteObjects } = tierPolicy;
+
+    // Shared KMS key with predictable alias - encrypts the manifest bucket
+    // Input/output buckets have their own keys (see createPipeline); objects written before the split stay encrypted
+    // with this key, so the S3AccessRole keeps decrypt on it for input objects
     const bucketKey = new kms.Key(this, 'BucketKey', {
       alias: `alias/${prefix}-bucket-key`,
       description: `KMS key for ${prefix} S3 bucket encryption`,
@@ -66,7 +181,7 @@ export class StackCore extends cdk.Stack {
       removalPolicy,
     });
 
-    // KMS permissions are now granted to S3AccessRole (see below after bucket creation)
+    // KMS permissions are granted to S3AccessRole as role policy (see createPipeline)
     // No direct cross-account KMS key policy needed
 
     // Create access logs bucket
@@ -77,7 +192,7 @@ export class StackCore extends cdk.Stack {
       enforceSSL: true,
       versioned: false,
       removalPolicy,
-      autoDeleteObjects: isDev, // Only auto-delete in dev
+      autoDeleteObjects, // Only auto-delete in dev/test
       objectOwnership: s3.ObjectOwnership.BUCKET_OWNER_PREFERRED,
     });
 
@@ -103,135 +218,163 @@ export class StackCore extends cdk.Stack {
       }),
     );
 
-    // Create input S3 bucket with security best practices
-    this.inputBucket = new s3.Bucket(this, 'InputBucket', {
-      bucketName: `${prefix}-core-input-bucket-${this.account}-${region}`,
-      encryption: s3.BucketEncryption.KMS,
-      encryptionKey: bucketKey,
-      blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
-      versioned: true,
-      enforceSSL: true,
-      serverAccessLogsBucket: accessLogsBucket,
-      serverAccessLogsPrefix: 'input-bucket-logs/',
-      removalPolicy,
-      autoDeleteObjects: isDev, // Only auto-delete in dev
-      eventBridgeEnabled: true, // Enable EventBridge notifications
-      lifecycleRules: [
-        {
-          id: 'DeleteOldVersions',
-          noncurrentVersionExpiration: cdk.Duration.days(30),
-        },
-      ],
-    });
-
-    this.inputBucketName = this.inputBucket.bucketName;
-
-    // Create output S3 bucket with security best practices
-    this.outputBucket = new s3.Bucket(this, 'OutputBucket', {
-      bucketName: `${prefix}-core-output-bucket-${this.account}-${region}`,
-      encryption: s3.BucketEncryption.KMS,
-      encryptionKey: bucketKey,
-      blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
-      versioned: true,
-      enforceSSL: true,
-      serverAccessLogsBucket: accessLogsBucket,
-      serverAccessLogsPrefix: 'output-bucket-logs/',
-      removalPolicy,
-      autoDeleteObjects: isDev, // Only auto-delete in dev
-      eventBridgeEnabled: false, // No events needed for output bucket
-      lifecycleRules: [
-        {
-          id: 'DeleteOldVersions',
-          noncurrentVersionExpiration: cdk.Duration.days(30),
-        },
-      ],
-    });
-
-    this.outputBucketName = this.outputBucket.bucketName;
-
     // Create S3 Access Role in Core Account for RPS Lambda to assume
     // This centralizes all S3 permissions in the Core account
-    // Note: Wildcards in ARNs aren't supported in IAM trust policies, so we use StringLike condition
-    this.s3AccessRole = new iam.Role(this, 'S3AccessRole', {
-      roleName: `${prefix}-s3-access-role`,
+    // Trust: one statement per consumer account, generated by CrossAccountRole
+    // - allowDeploymentPrefixes (dev): dev-processor-lambda-role and dev-*-processor-lambda-role (StringLike on
+    //   aws:PrincipalArn), sessions must carry the caller role's own 'deployment' tag - S3 grants are scoped by it
+    // - Otherwise: {prefix}-processor-lambda-role only
+    // Optional ExternalId: callers must pass it in AssumeRole (the processor reads CORE_S3_ACCESS_ROLE_EXTERNAL_ID)
+    const processorRolePatterns = allowDeploymentPrefixes
+      ? [`${prefix}-processor-lambda-role`, `${prefix}-*-processor-lambda-role`]
+      : [`${prefix}-processor-lambda-role`];
+    const s3AccessRoleName = `${prefix}-s3-access-role`;
+    const s3AccessRole = new CrossAccountRole(this, 'S3AccessRole', {
+      roleName: s3AccessRoleName,
       description: `Role for RPS Lambda to access ${prefix} S3 bucket via AssumeRole`,
-      // Trust policy: Allow RPS Lambda roles to assume this role
-      assumedBy: isDev
-        ? new iam.AccountPrincipal(accountRpsId) // Placeholder for dev, will be customized below
-        : new iam.ArnPrincipal(`arn:aws:iam::${accountRpsId}:role/${prefix}-processor-lambda-role`), // Prod: Specific role only
+      trustedRoles: consumers.map((consumer) => ({ accountId: consumer.accountId, rolePatterns: processorRolePatterns })),
+      externalId: s3AccessRoleExternalId,
+      requiredSessionTags: allowDeploymentPrefixes ? { [DEPLOYMENT_TAG_KEY]: DEPLOYMENT_TAG_VARIABLE } : undefined,
       maxSessionDuration: cdk.Duration.hours(1),
     });
 
-    // For dev: Add StringLike condition to restrict which roles can assume
-    // Allows: dev-processor-lambda-role, dev-john-processor-lambda-role, dev-alice-processor-lambda-role
-    // Denies: Any other role in RPS account
-    if (isDev) {
-      const cfnRole = this.s3AccessRole.node.defaultChild as iam.CfnRole;
-      cfnRole.assumeRolePolicyDocument = {
-        Version: '2012-10-17',
-        Statement: [
+    this.s3AccessRole = s3AccessRole;
+
+    this.s3AccessRoleArn = this.s3AccessRole.roleArn;
+
+    // Targets: each consumer's custom EventBridge bus (shared by all pipeline rules of that consumer)
+    const consumerTargets = consumers.map((consumer) => ({
+      consumer,
+      eventBus: events.EventBus.fromEventBusArn(
+        this,
+        pipelineConstructId(consumer.name, 'AccountRpsEventBus'),
+        consumer.eventBusArn ?? consumerEventBusArn(prefix, region, consumer.accountId),
+      ),
+    }));
+    const crossAccountEventBridgeRole = this.createCrossAccountEventBridgeRole(
+      prefix,
+      consumerTargets.map(({ eventBus }) => eventBus.eventBusArn),
+    );
+
+    // DR mode: S3 replicates every input/output bucket to StackCoreReplica (deployed first) with this role
+    const replicationRole = drReplicaRegion
+      ? new iam.Role(this, 'ReplicationRole', {
+        roleName: `${prefix}-core-replication-role`,
+        assumedBy: new iam.ServicePrincipal('s3.amazonaws.com'),
+        description: `S3 replication of ${prefix} Core buckets to ${drReplicaRegion}`,
+      })
+      : undefined;
+
+    // One input/output bucket pair, EventBridge rule per consumer and S3AccessRole grant set per pipeline
+    this.pipelines = pipelines.map((pipeline) => this.createPipeline(pipeline, {
+      prefix,
+      region,
+      legacyBucketKey: bucketKey,
+      accessLogsBucket,
+      removalPolicy,
+      autoDeleteObjects,
+      consumerTargets,
+      crossAccountEventBridgeRole,
+      forwardDeleteEvents,
+      deploymentScoped: allowDeploymentPrefixes,
+      replication: drReplicaRegion && replicationRole ? { region: drReplicaRegion, role: replicationRole } : undefined,
+    }));
+
+    if (replicationRole) {
+      NagSuppressions.addResourceSuppressions(
+        replicationRole,
+        [
           {
-            Effect: 'Allow',
-            Principal: {
-              AWS: `arn:aws:iam::${accountRpsId}:root`, // AccountPrincipal format
-            },
-            Action: 'sts:AssumeRole',
-            Condition: {
-              StringLike: {
-                'aws:PrincipalArn': [
-                  `arn:aws:iam::${accountRpsId}:role/${prefix}-processor-lambda-role`, // Base role
-                  `arn:aws:iam::${accountRpsId}:role/${prefix}-*-processor-lambda-role`, // Deployment-specific roles
-                ],
-              },
-            },
+            id: 'AwsSolutions-IAM5',
+            reason: 'Replication reads every object version of the source buckets and writes every key of the replicas; replica keys are only known by alias',
+            appliesTo: [
+              { regex: '/Resource::<.*(Input|Output)Bucket.*\\.Arn>/\\*/g' },
+              { regex: '/Resource::arn:<AWS::Partition>:s3:::.*-core-(input|output)-bucket-.*/\\*/g' },
+              { regex: '/Resource::arn:<AWS::Partition>:kms:.*:key/\\*/g' },
+            ],
           },
         ],
-      };
+        true,
+      );
     }
 
-    this.s3AccessRoleArn = this.s3AccessRole.roleArn;
-
-    // Grant S3 permissions to the S3AccessRole (adds to role policy, NOT bucket policy)
-    // Since role is in same account as buckets, no bucket policy needed
-    this.inputBucket.grantRead(this.s3AccessRole); // Read entire input bucket
-    this.outputBucket.grantWrite(this.s3AccessRole); // Write entire output bucket
+    // Consumer outputs - default consumer (accountRpsId shorthand) has no prefix in the export name
+    for (const { consumer, eventBus } of consumerTargets) {
+      const exportPrefix = isDefaultConsumer(consumer.name) ? `${prefix}-StackCore` : `${prefix}-StackCore-${consumer.name}`;
+
+      new cdk.CfnOutput(this, pipelineConstructId(consumer.name, 'ConsumerEventBusArn'), {
+        value: eventBus.eventBusArn,
+        description: `ARN of the RPS event bus receiving input bucket events (${consumer.name} consumer)`,
+        exportName: `${exportPrefix}-ConsumerEventBusArn`,
+      });
+
+      new cdk.CfnOutput(this, pipelineConstructId(consumer.name, 'ConsumerAccountId'), {
+        value: consumer.accountId,
+        description: `RPS account trusted by the S3 access role (${consumer.name} consumer)`,
+        exportName: `${exportPrefix}-ConsumerAccountId`,
+      });
+    }
 
-    // Grant KMS permissions to the S3AccessRole (shared key for both buckets)
-    bucketKey.grantDecrypt(this.s3AccessRole);
-    bucketKey.grantEncryptDecrypt(this.s3AccessRole);
+    // Dashboard and FailedInvocations alarms for every rule forwarding events to RPS
+    this.monitoring = new FlowMonitoring(this, 'Monitoring', {
+      namePrefix: `${prefix}-core`,
+      alarmThresholds: tierPolicy.alarmThresholds,
+      alarmTopicArn: props.alarmTopicArn,
+    });
+    for (const pipeline of this.pipelines) {
+      for (const [consumerName, rule] of Object.entries(pipeline.eventRules)) {
+        const label = [pipeline.name, consumerName]
+          .filter((name) => !isDefaultPipeline(name) && !isDefaultConsumer(name))
+          .concat('s3-input-events')
+          .join('-');
+        this.monitoring.addEventRule(label, rule);
+      }
+    }
 
-    // Explicit deny for public access (defense in depth)
-    // Only allows: Core account (S3AccessRole is in this account)
-    this.inputBucket.addToResourcePolicy(
+    // Manifest bucket: one audit record per processed file, written by the RPS Lambda via the S3AccessRole
+    // Write-only for the role (no read/delete) so processors cannot alter the audit trail
+    const manifestBucket = new s3.Bucket(this, 'ManifestBucket', {
+      bucketName: coreBucketName('manifest', prefix, DEFAULT_PIPELINE_NAME, this.account, region),
+      encryption: s3.BucketEncryption.KMS,
+      encryptionKey: bucketKey,
+      blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+      versioned: true,
+      enforceSSL: true,
+      serverAccessLogsBucket: accessLogsBucket,
+      serverAccessLogsPrefix: 'manifest-bucket-logs/',
+      removalPolicy,
+      autoDeleteObjects, // Only auto-delete in dev/test
+    });
+    // Explicit statements - manifestBucket.grantPut would also grant unconditioned encrypt/decrypt on the shared key
+    s3AccessRole.addToPrincipalPolicy(
       new iam.PolicyStatement({
-        sid: 'DenyPublicAccess',
-        effect: iam.Effect.DENY,
-        principals: [new iam.AnyPrincipal()],
-        actions: ['s3:*'],
-        resources: [
-          this.inputBucket.bucketArn,
-          `${this.inputBucket.bucketArn}/*`,
-        ],
+        effect: iam.Effect.ALLOW,
+        actions: S3_PUT_ACTIONS,
+        resources: [manifestBucket.arnForObjects('*')],
+      }),
+    );
+    s3AccessRole.addToPrincipalPolicy(
+      new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: ['kms:GenerateDataKey'],
+        resources: [bucketKey.keyArn],
         conditions: {
-          Bool: {
-            'aws:PrincipalIsAWSService': 'false',
-          },
-          StringNotEquals: {
-            'aws:PrincipalAccount': [this.account], // Only Core account
-          },
+          StringEquals: { 'kms:ViaService': `s3.${region}.amazonaws.com` },
+          StringLike: { 'kms:EncryptionContext:aws:s3:arn': manifestBucket.arnForObjects('*') },
         },
       }),
     );
+    this.manifestBucket = manifestBucket;
 
-    this.outputBucket.addToResourcePolicy(
+    manifestBucket.addToResourcePolicy(
       new iam.PolicyStatement({
         sid: 'DenyPublicAccess',
         effect: iam.Effect.DENY,
         principals: [new iam.AnyPrincipal()],
         actions: ['s3:*'],
         resources: [
-          this.outputBucket.bucketArn,
-          `${this.outputBucket.bucketArn}/*`,
+          manifestBucket.bucketArn,
+          `${manifestBucket.bucketArn}/*`,
         ],
         conditions: {
           Bool: {
@@ -244,34 +387,23 @@ export class StackCore extends cdk.Stack {
       }),
     );
 
-    // Create EventBridge rule for S3 ObjectCreated events on input bucket
-    const s3EventRule = new events.Rule(this, 'S3InputEventRule', {
-      ruleName: `${prefix}-s3-input-events`,
-      description: `Captures S3 ObjectCreated events for ${prefix} input bucket`,
-      eventPattern: {
-        source: ['aws.s3'],
-        detailType: ['Object Created'],
-        detail: {
-          bucket: {
-            name: [this.inputBucket.bucketName],
-          },
+    NagSuppressions.addResourceSuppressions(
+      manifestBucket,
+      [
+        {
+          id: 'AwsSolutions-S5',
+          reason:
+            'Manifest bucket policy includes defense-in-depth deny for public access',
         },
-      },
-    });
-
-    // Add target to send events to RPS Account's custom EventBridge bus
-    const customEventBusName = `${prefix}-cross-account-bus`;
-    const crossAccountEventBus = events.EventBus.fromEventBusArn(
-      this,
-      'AccountRpsEventBus',
-      `arn:aws:events:${region}:${accountRpsId}:event-bus/${customEventBusName}`,
+      ],
+      true,
     );
 
-    s3EventRule.addTarget(
-      new targets.EventBus(crossAccountEventBus, {
-        role: this.createCrossAccountEventBridgeRole(accountRpsId, region, prefix, customEventBusName),
-      }),
-    );
+    const primaryPipeline = this.pipelines.find((pipeline) => isDefaultPipeline(pipeline.name)) ?? this.pipelines[0];
+    this.inputBucket = primaryPipeline.inputBucket;
+    this.outputBucket = primaryPipeline.outputBucket;
+    this.inputBucketName = this.inputBucket.bucketName;
+    this.outputBucketName = this.outputBucket.bucketName;
 
     // CDK Nag Suppressions
     NagSuppressions.addResourceSuppressions(
@@ -321,108 +453,439 @@ export class StackCore extends cdk.Stack {
       true,
     );
 
+    // Suppress IAM5 for S3AccessRole - wildcard permissions are necessary for S3 bucket access
     NagSuppressions.addResourceSuppressions(
-      this.inputBucket,
+      this.s3AccessRole,
       [
         {
-          id: 'AwsSolutions-S5',
-          reason:
-            'Input bucket policy includes defense-in-depth deny for public access',
+          id: 'AwsSolutions-IAM5',
+          reason: 'S3 wildcard permissions required for bucket access (read input buckets, write output buckets)',
+          appliesTo: [
+            'Action::s3:GetBucket*',
+            'Action::s3:GetObject*',
+            'Action::s3:List*',
+            'Action::s3:Abort*',
+            'Action::s3:DeleteObject*',
+            { regex: '/Resource::<.*InputBucket.*\\.Arn>/.*\\*/g' },
+            { regex: '/Resource::<.*OutputBucket.*\\.Arn>/.*\\*/g' },
+            { regex: '/Resource::<ManifestBucket.*\\.Arn>/\\*/g' },
+          ],
         },
       ],
       true,
     );
 
+    // Outputs (bucket outputs are created per pipeline)
+    new cdk.CfnOutput(this, 'ManifestBucketName', {
+      value: manifestBucket.bucketName,
+      description: 'Name of the S3 bucket receiving processing manifest records',
+      exportName: `${prefix}-StackCore-ManifestBucketName`,
+    });
+
+    new cdk.CfnOutput(this, 'S3AccessRoleArn', {
+      value: this.s3AccessRole.roleArn,
+      description: 'ARN of the S3 access role for RPS Lambda to assume',
+      exportName: `${prefix}-StackCore-S3AccessRoleArn`,
+    });
+
+    // Contract view checked against the RPS stacks by `cli.ts contract verify`
+    publishContract(this, {
+      version: CONTRACT_VERSION,
+      side: 'core',
+      stackId: this.artifactId,
+      stage: prefix,
+      accountId: this.account,
+      region,
+      s3AccessRole: {
+        arn: `arn:aws:iam::${this.account}:role/${s3AccessRoleName}`,
+        trustedRoles: consumers.map((consumer) => ({ accountId: consumer.accountId, rolePatterns: processorRolePatterns })),
+        externalIdRequired: s3AccessRoleExternalId !== undefined,
+      },
+      eventBusTargets: consumerTargets.map(({ consumer, eventBus }) => ({
+        consumer: consumer.name,
+        accountId: consumer.accountId,
+        eventBusArn: eventBus.eventBusArn,
+        ruleArns: [
+          ...pipelines.map(({ name }) => `arn:aws:events:${region}:${this.account}:rule/${coreEventRuleName(prefix, name, consumer.name)}`),
+          // StackCoreReplica's standby rules send to the same bus after failover - the bus policy must accept them too
+          ...(drReplicaRegion ? pipelines.map(({ name }) => (
+            `arn:aws:events:${drReplicaRegion}:${this.account}:rule/${coreEventRuleName(prefix, name, consumer.name, true)}`
+          )) : []),
+        ],
+      })),
+      pipelines: pipelines.map(({ name }) => ({
+        name,
+        inputBucketName: coreBucketName('input', prefix, name, this.account, region),
+        outputBucketName: coreBucketName('output', prefix, name, this.account, region),
+        ...(drReplicaRegion && {
+          replicaInputBucketName: coreBucketName('input', prefix, name, this.account, drReplicaRegion),
+          replicaOutputBucketName: coreBucketName('output', prefix, name, this.account, drReplicaRegion),
+        }),
+      })),
+      manifestBucketName: coreBucketName('manifest', prefix, DEFAULT_PIPELINE_NAME, this.account, region),
+    });
+  }
+
+  /**
+   * Create input/output buckets, bucket policies, EventBridge rule, S3AccessRole grants and outputs for one pipeline
+   * Names follow RESOURCE-CONTRACT.md - the default pipeline keeps the original names and construct IDs
+   */
+  private createPipeline(pipeline: PipelineProps, shared: {
+    prefix: string;
+    region: string;
+    legacyBucketKey: kms.IKey; // Shared key that encrypted input objects before the per-bucket keys
+    accessLogsBucket: s3.IBucket;
+    removalPolicy: cdk.RemovalPolicy;
+    autoDeleteObjects: boolean;
+    consumerTargets: { consumer: RpsConsumerProps; eventBus: events.IEventBus }[];
+    crossAccountEventBridgeRole: iam.IRole;
+    forwardDeleteEvents: boolean;
+    deploymentScoped: boolean;
+    replication?: { region: string; role: iam.IRole }; // DR mode
+  }): CorePipelineResources {
+    const { prefix, region, legacyBucketKey, accessLogsBucket, removalPolicy, autoDeleteObjects } = shared;
+    const pipelineName = pipeline.name;
+    const id = (constructId: string) => pipelineConstructId(pipelineName, constructId);
+    const namePrefix = pipelineResourcePrefix(prefix, pipelineName);
+    const logsPrefix = isDefaultPipeline(pipelineName) ? '' : `${pipelineName}-`;
+    const description = isDefaultPipeline(pipelineName) ? prefix : `${prefix} pipeline ${pipelineName}`;
+
+    const inputBucketName = coreBucketName('input', prefix, pipelineName, this.account, region);
+    const outputBucketName = coreBucketName('output', prefix, pipelineName, this.account, region);
+    if (!cdk.Token.isUnresolved(outputBucketName) && outputBucketName.length > 63) {
+      throw new Error(`StackCore: bucket name for pipeline '${pipelineName}' exceeds 63 characters: ${outputBucketName}`);
+    }
+
+    // One KMS key per bucket so the S3AccessRole can be decrypt-only on inputs and encrypt-only on outputs
+    const inputBucketKey = this.createBucketKey(id('InputBucketKey'), coreBucketKeyAlias('input', prefix, pipelineName), `${description} input bucket`, removalPolicy);
+    const outputBucketKey = this.createBucketKey(id('OutputBucketKey'), coreBucketKeyAlias('output', prefix, pipelineName), `${description} output bucket`, removalPolicy);
+
+    // DR mode: replicas in StackCoreReplica keep the bucket names and key aliases, with the replica region
+    const replica = shared.replication && {
+      region: shared.replication.region,
+      inputBucketName: coreBucketName('input', prefix, pipelineName, this.account, shared.replication.region),
+      outputBucketName: coreBucketName('output', prefix, pipelineName, this.account, shared.replication.region),
+    };
+    const replicationRules = (kind: 'input' | 'output'): s3.ReplicationRule[] | undefined => replica && [{
+      destination: s3.Bucket.fromBucketAttributes(this, id(kind === 'input' ? 'ReplicaInputBucket' : 'ReplicaOutputBucket'), {
+        bucketName: kind === 'input' ? replica.inputBucketName : replica.outputBucketName,
+        region: replica.region,
+      }),
+      // ReplicaKmsKeyID accepts an alias ARN - the replica key's ID is unknown in this stack
+      kmsKey: kms.Key.fromKeyArn(this, id(kind === 'input' ? 'ReplicaInputBucketKey' : 'ReplicaOutputBucketKey'), this.formatArn({
+        service: 'kms',
+        region: replica.region,
+        resource: coreBucketKeyAlias(kind, prefix, pipelineName),
+      })),
+      sseKmsEncryptedObjects: true,
+      deleteMarkerReplication: true,
+    }];
+
+    // Create input S3 bucket with security best practices
+    const inputBucket = new s3.Bucket(this, id('InputBucket'), {
+      bucketName: inputBucketName,
+      encryption: s3.BucketEncryption.KMS,
+      encryptionKey: inputBucketKey,
+      bucketKeyEnabled: true, // S3 Bucket Key: far fewer KMS requests
+      blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+      versioned: true,
+      enforceSSL: true,
+      serverAccessLogsBucket: accessLogsBucket,
+      serverAccessLogsPrefix: `${logsPrefix}input-bucket-logs/`,
+      removalPolicy,
+      autoDeleteObjects, // Only auto-delete in dev/test
+      eventBridgeEnabled: true, // Enable EventBridge notifications
+      replicationRole: replica && shared.replication!.role,
+      replicationRules: replicationRules('input'),
+      lifecycleRules: [
+        {
+          id: 'DeleteOldVersions',
+          noncurrentVersionExpiration: cdk.Duration.days(30),
+        },
+      ],
+    });
+
+    // Create output S3 bucket with security best practices
+    const outputBucket = new s3.Bucket(this, id('OutputBucket'), {
+      bucketName: outputBucketName,
+      encryption: s3.BucketEncryption.KMS,
+      encryptionKey: outputBucketKey,
+      bucketKeyEnabled: true, // S3 Bucket Key: far fewer KMS requests
+      blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+      versioned: true,
+      enforceSSL: true,
+      serverAccessLogsBucket: accessLogsBucket,
+      serverAccessLogsPrefix: `${logsPrefix}output-bucket-logs/`,
+      removalPolicy,
+      autoDeleteObjects, // Only auto-delete in dev/test
+      eventBridgeEnabled: false, // No events needed for output bucket
+      replicationRole: replica && shared.replication!.role,
+      replicationRules: replicationRules('output'),
+      lifecycleRules: [
+        {
+          id: 'DeleteOldVersions',
+          noncurrentVersionExpiration: cdk.Duration.days(30),
+        },
+      ],
+    });
+
+    // Grant S3 permissions to the S3AccessRole (adds to role policy, NOT bucket policy)
+    // Since role is in same account as buckets, no bucket policy needed
+    // Grants are scoped to this pipeline's buckets only
+    // Write only below the static prefix of the pipeline's output key template (whole bucket for '{key}')
+    // Explicit statements instead of bucket.grantRead/grantWrite, which would also grant unconditioned KMS access
+    const outputKeyTemplate = pipeline.outputKeyTemplate ?? DEFAULT_OUTPUT_KEY_TEMPLATE;
+    // Each dev deployment reaches input/{deployment}/ and output/{deployment}/ only (session tag policy variable)
+    // DR mode: the replicas are granted up front - failover must not depend on a deployment in the primary region
+    const keyPrefixes = shared.deploymentScoped ? deploymentKeyPrefixes(DEPLOYMENT_TAG_VARIABLE) : { input: '', output: '' };
+    const bucketPairs: BucketPair[] = [{
+      region,
+      inputBucketArn: inputBucket.bucketArn,
+      outputBucketArn: outputBucket.bucketArn,
+      inputKeyArn: inputBucketKey.keyArn,
+      outputKeyArn: outputBucketKey.keyArn,
+    }];
+    if (replica) {
+      bucketPairs.push({
+        region: replica.region,
+        inputBucketArn: s3.Bucket.fromBucketName(this, id('ReplicaInputBucketRef'), replica.inputBucketName).bucketArn,
+        outputBucketArn: s3.Bucket.fromBucketName(this, id('ReplicaOutputBucketRef'), replica.outputBucketName).bucketArn,
+        inputKeyArn: this.formatArn({ service: 'kms', region: replica.region, resource: 'key', resourceName: '*' }),
+        outputKeyArn: this.formatArn({ service: 'kms', region: replica.region, resource: 'key', resourceName: '*' }),
+        keyAliases: { input: coreBucketKeyAlias('input', prefix, pipelineName), output: coreBucketKeyAlias('output', prefix, pipelineName) },
+      });
+    }
+    this.s3AccessRole.addToPrincipalPolicy(
+      shared.deploymentScoped
+        ? new iam.PolicyStatement({
+          effect: iam.Effect.ALLOW,
+          actions: ['s3:GetObject*'],
+          resources: bucketPairs.map((pair) => `${pair.inputBucketArn}/${keyPrefixes.input}*`),
+        })
+        : new iam.PolicyStatement({
+          effect: iam.Effect.ALLOW,
+          actions: ['s3:GetObject*', 's3:GetBucket*', 's3:List*'], // Read entire input bucket
+          resources: bucketPairs.flatMap((pair) => [pair.inputBucketArn, `${pair.inputBucketArn}/*`]),
+        }),
+    );
+    this.s3AccessRole.addToPrincipalPolicy(
+      new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: [...S3_PUT_ACTIONS, 's3:DeleteObject*'],
+        resources: bucketPairs.map((pair) => `${pair.outputBucketArn}/${keyPrefixes.output}${outputKeyPrefix(outputKeyTemplate)}*`),
+      }),
+    );
+
+    // KMS only through S3 and only for this pipeline's buckets
+    // With S3 Bucket Keys the encryption context is the bucket ARN (object ARN for objects written without one)
+    for (const pair of bucketPairs) {
+      this.s3AccessRole.addToPrincipalPolicy(
+        s3BucketKeyStatement(['kms:Decrypt'], pair.inputKeyArn, pair.keyAliases?.input, pair.region, pair.inputBucketArn),
+      );
+      // S3 decrypts the data key again to complete multipart uploads, hence kms:Decrypt on the output key -
+      // the role has no s3:GetObject on output buckets, so it still cannot read outputs
+      this.s3AccessRole.addToPrincipalPolicy(
+        s3BucketKeyStatement(['kms:GenerateDataKey', 'kms:Decrypt'], pair.outputKeyArn, pair.keyAliases?.output, pair.region, pair.outputBucketArn),
+      );
+    }
+    this.s3AccessRole.addToPrincipalPolicy(
+      new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: ['kms:Decrypt'],
+        resources: [legacyBucketKey.keyArn],
+        conditions: {
+          StringEquals: { 'kms:ViaService': `s3.${region}.amazonaws.com` },
+          StringLike: { 'kms:EncryptionContext:aws:s3:arn': inputBucket.arnForObjects(`${keyPrefixes.input}*`) },
+        },
+      }),
+    );
+
+    // Replication reads object versions with the source keys and writes them with the replica keys
+    if (shared.replication && replica) {
+      const [source, target] = bucketPairs;
+      const replicationRole = shared.replication.role;
+      replicationRole.addToPrincipalPolicy(new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: ['s3:GetReplicationConfiguration', 's3:ListBucket'],
+        resources: [source.inputBucketArn, source.outputBucketArn],
+      }));
+      replicationRole.addToPrincipalPolicy(new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: ['s3:GetObjectVersionForReplication', 's3:GetObjectVersionAcl', 's3:GetObjectVersionTagging'],
+        resources: [`${source.inputBucketArn}/*`, `${source.outputBucketArn}/*`],
+      }));
+      replicationRole.addToPrincipalPolicy(new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: ['s3:ReplicateObject', 's3:ReplicateDelete', 's3:ReplicateTags'],
+        resources: [`${target.inputBucketArn}/*`, `${target.outputBucketArn}/*`],
+      }));
+      replicationRole.addToPrincipalPolicy(
+        s3BucketKeyStatement(['kms:Decrypt'], source.inputKeyArn, undefined, source.region, source.inputBucketArn),
+      );
+      replicationRole.addToPrincipalPolicy(
+        s3BucketKeyStatement(['kms:Decrypt'], source.outputKeyArn, undefined, source.region, source.outputBucketArn),
+      );
+      replicationRole.addToPrincipalPolicy(
+        s3BucketKeyStatement(['kms:Encrypt', 'kms:GenerateDataKey'], target.inputKeyArn, target.keyAliases?.input, target.region, target.inputBucketArn),
+      );
+      replicationRole.addToPrincipalPolicy(
+        s3BucketKeyStatement(['kms:Encrypt', 'kms:GenerateDataKey'], target.outputKeyArn, target.keyAliases?.output, target.region, target.outputBucketArn),
+      );
+    }
+
+    // Explicit deny for public access (defense in depth)
+    // Only allows: Core account (S3AccessRole is in this account)
+    for (const bucket of [inputBucket, outputBucket]) {
+      bucket.addToResourcePolicy(
+        new iam.PolicyStatement({
+          sid: 'DenyPublicAccess',
+          effect: iam.Effect.DENY,
+          principals: [new iam.AnyPrincipal()],
+          actions: ['s3:*'],
+          resources: [
+            bucket.bucketArn,
+            `${bucket.bucketArn}/*`,
+          ],
+          conditions: {
+            Bool: {
+              'aws:PrincipalIsAWSService': 'false',
+            },
+            StringNotEquals: {
+              'aws:PrincipalAccount': [this.account], // Only Core account
+            },
+          },
+        }),
+      );
+    }
+
+    // Create one EventBridge rule per consumer for S3 ObjectCreated events on input bucket
+    // Separate rules so each consumer can filter object keys independently
+    const eventRules: Record<string, events.IRule> = {};
+    for (const { consumer, eventBus } of shared.consumerTargets) {
+      const keyMatchers = objectKeyMatchers(consumer.objectKeyFilters);
+      const consumerDescription = isDefaultConsumer(consumer.name) ? '' : ` (${consumer.name} consumer)`;
+
+      const s3EventRule = new events.Rule(this, id(pipelineConstructId(consumer.name, 'S3InputEventRule')), {
+        ruleName: coreEventRuleName(prefix, pipelineName, consumer.name),
+        description: `Captures S3 ObjectCreated events for ${description} input bucket${consumerDescription}`,
+        eventPattern: {
+          source: ['aws.s3'],
+          detailType: s3EventDetailTypes(shared.forwardDeleteEvents),
+          detail: {
+            bucket: {
+              name: [inputBucket.bucketName],
+            },
+            ...(keyMatchers ? { object: { key: keyMatchers } } : {}),
+          },
+        },
+      });
+
+      // Add target to send events to the consumer's custom EventBridge bus
+      s3EventRule.addTarget(
+        new targets.EventBus(eventBus, {
+          role: shared.crossAccountEventBridgeRole,
+        }),
+      );
+
+      eventRules[consumer.name] = s3EventRule;
+    }
+
     NagSuppressions.addResourceSuppressions(
-      this.outputBucket,
+      inputBucket,
       [
         {
           id: 'AwsSolutions-S5',
           reason:
-            'Output bucket policy includes defense-in-depth deny for public access',
+            'Input bucket policy includes defense-in-depth deny for public access',
         },
       ],
       true,
     );
 
-    // Suppress IAM5 for S3AccessRole - wildcard permissions are necessary for S3 bucket access
     NagSuppressions.addResourceSuppressions(
-      this.s3AccessRole,
+      outputBucket,
       [
         {
-          id: 'AwsSolutions-IAM5',
-          reason: 'S3 wildcard permissions required for bucket access (read input bucket, write output bucket)',
-          appliesTo: [
-            'Action::s3:GetBucket*',
-            'Action::s3:GetObject*',
-            'Action::s3:List*',
-            'Action::s3:Abort*',
-            'Action::s3:DeleteObject*',
-            { regex: '/Resource::<InputBucket.*\\.Arn>/\\*/g' },
-            { regex: '/Resource::<OutputBucket.*\\.Arn>/\\*/g' },
-          ],
-        },
-        {
-          id: 'AwsSolutions-IAM5',
-          reason: 'KMS wildcard permissions required for S3 encryption operations',
-          appliesTo: [
-            'Action::kms:GenerateDataKey*',
-            'Action::kms:ReEncrypt*',
-          ],
+          id: 'AwsSolutions-S5',
+          reason:
+            'Output bucket policy includes defense-in-depth deny for public access',
         },
       ],
       true,
     );
 
-    // Outputs
-    new cdk.CfnOutput(this, 'InputBucketName', {
-      value: this.inputBucket.bucketName,
-      description: 'Name of the input S3 bucket',
-      exportName: `${prefix}-StackCore-InputBucketName`,
+    // Outputs - default pipeline keeps the original export names
+    const exportPrefix = isDefaultPipeline(pipelineName) ? `${prefix}-StackCore` : `${prefix}-StackCore-${pipelineName}`;
+
+    new cdk.CfnOutput(this, id('InputBucketName'), {
+      value: inputBucket.bucketName,
+      description: `Name of the input S3 bucket (${pipelineName} pipeline)`,
+      exportName: `${exportPrefix}-InputBucketName`,
     });
 
-    new cdk.CfnOutput(this, 'InputBucketArn', {
-      value: this.inputBucket.bucketArn,
-      description: 'ARN of the input S3 bucket',
-      exportName: `${prefix}-StackCore-InputBucketArn`,
+    new cdk.CfnOutput(this, id('InputBucketArn'), {
+      value: inputBucket.bucketArn,
+      description: `ARN of the input S3 bucket (${pipelineName} pipeline)`,
+      exportName: `${exportPrefix}-InputBucketArn`,
     });
 
-    new cdk.CfnOutput(this, 'OutputBucketName', {
-      value: this.outputBucket.bucketName,
-      description: 'Name of the output S3 bucket',
-      exportName: `${prefix}-StackCore-OutputBucketName`,
+    new cdk.CfnOutput(this, id('OutputBucketName'), {
+      value: outputBucket.bucketName,
+      description: `Name of the output S3 bucket (${pipelineName} pipeline)`,
+      exportName: `${exportPrefix}-OutputBucketName`,
     });
 
-    new cdk.CfnOutput(this, 'OutputBucketArn', {
-      value: this.outputBucket.bucketArn,
-      description: 'ARN of the output S3 bucket',
-      exportName: `${prefix}-StackCore-OutputBucketArn`,
+    new cdk.CfnOutput(this, id('OutputBucketArn'), {
+      value: outputBucket.bucketArn,
+      description: `ARN of the output S3 bucket (${pipelineName} pipeline)`,
+      exportName: `${exportPrefix}-OutputBucketArn`,
     });
 
-    new cdk.CfnOutput(this, 'S3AccessRoleArn', {
-      value: this.s3AccessRole.roleArn,
-      description: 'ARN of the S3 access role for RPS Lambda to assume',
-      exportName: `${prefix}-StackCore-S3AccessRoleArn`,
+    return {
+      name: pipelineName,
+      inputBucket,
+      outputBucket,
+      inputBucketKey,
+      outputBucketKey,
+      eventRules,
+    };
+  }
+
+  private createBucketKey(id: string, alias: string, description: string, removalPolicy: cdk.RemovalPolicy): kms.Key {
+    const key = new kms.Key(this, id, {
+      alias,
+      description: `KMS key for ${description} encryption`,
+      enableKeyRotation: true,
+      removalPolicy,
     });
+    NagSuppressions.addResourceSuppressions(
+      key,
+      [
+        {
+          id: 'AwsSolutions-KMS5',
+          reason: 'KMS key rotation is enabled for production use',
+        },
+      ],
+      true,
+    );
+    return key;
   }
 
   private createCrossAccountEventBridgeRole(
-    accountRpsId: string,
-    region: string,
     prefix: string,
-    eventBusName: string,
+    eventBusArns: string[],
   ): iam.Role {
     const role = new iam.Role(this, 'CrossAccountEventBridgeRole', {
       roleName: `${prefix}-cross-account-eventbridge-role`,
       assumedBy: new iam.ServicePrincipal('events.amazonaws.com'),
-      description: 'Role for EventBridge to send events to RPS Account',
+      description: 'Role for EventBridge to send events to RPS Accounts',
     });
 
     role.addToPolicy(
       new iam.PolicyStatement({
         effect: iam.Effect.ALLOW,
         actions: ['events:PutEvents'],
-        resources: [`arn:aws:events:${region}:${accountRpsId}:event-bus/${eventBusName}`],
+        resources: eventBusArns,
       }),
     );
 
@@ -1,5 +1,6 @@
 import * as path from 'path';
 import * as cdk from 'aws-cdk-lib';
+import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
 import * as events from 'aws-cdk-lib/aws-events';
 import * as targets from 'aws-cdk-lib/aws-events-targets';
 import * as iam from 'aws-cdk-lib/aws-iam';
@@ -12,35 +13,127 @@ import * as sqs from 'aws-cdk-lib/aws-sqs';
 import * as cr from 'aws-cdk-lib/custom-resources';
 import { NagSuppressions } from 'cdk-nag';
 import { Construct } from 'constructs';
+import { coreBusPolicyStatement } from './bus-policy';
+import { consumerEventBusArn, crossAccountEventBusName } from './consumers';
+import { CONTRACT_VERSION, ContractStackSynthesizer, publishContract } from './contract';
+import { DEFAULT_DEPLOYMENT_NAME, DEPLOYMENT_TAG_KEY, deploymentKeyPrefixes, deploymentName } from './deployments';
+import { EnvironmentTier, getTierPolicy } from './environment-tier';
+import { FlowMonitoring } from './monitoring';
+import {
+  DEFAULT_PIPELINE_NAME,
+  DELETION_HANDLING_MODES,
+  DeletionHandling,
+  RpsPipelineProps,
+  coreEventRuleArnPattern,
+  isDefaultPipeline,
+  pipelineConstructId,
+  pipelineResourcePrefix,
+  s3EventDetailTypes,
+  usesDateVariables,
+  validatePipelines,
+} from './pipelines';
+import { PROCESSOR_METRICS, PROCESSOR_METRICS_NAMESPACE } from './processor-metrics';
+import { BUILT_IN_TRANSFORMERS, isBuiltInTransformer } from './transformers';
+
+/**
+ * Tag registering a deployment on the shared event bus (see lambda/shared-bus.ts)
+ * Bus tag {key}:{resourcePrefix} = processor function name, rule tag {key} = resourcePrefix
+ */
+export const SHARED_BUS_CONSUMER_TAG = 'shared-bus-consumer';
+
+export type LogLevel = 'DEBUG' | 'INFO' | 'WARN' | 'ERROR';
+
+/**
+ * Routing rule for the processor Lambda's transformer registry
+ * All matchers that are set must match; the first matching rule wins
+ */
+export interface TransformerRoute {
+  readonly keyPrefix?: string; // e.g. 'feeds/csv/'
+  readonly extension?: string; // e.g. '.csv'
+  readonly contentType?: string; // e.g. 'application/json'
+  readonly transformer: string; // One of BUILT_IN_TRANSFORMERS (src/transformers.ts)
+  readonly options?: Record<string, unknown>; // Transformer-specific options (e.g. JSON schema)
+}
 
 export interface StackRpsProps extends cdk.StackProps {
   readonly prefix: string;
   readonly accountCoreId: string;
-  readonly stackCoreInputBucketName: string;
-  readonly stackCoreOutputBucketName: string;
+  readonly additionalCoreAccountIds?: string[]; // Further Core accounts whose rules may send to the bus (e.g. during an account migration)
+  readonly coreOrganizationId?: string; // Accept any principal of this AWS Organization instead of the Core account roots
+  readonly stackCoreInputBucketName?: string; // Single-pipeline shorthand for pipelines: [{ name: 'default', ... }]
+  readonly stackCoreOutputBucketName?: string;
+  readonly pipelines?: RpsPipelineProps[]; // One rule + queue per Core input/output bucket pair
   readonly coreS3AccessRoleArn?: string; // ARN of Core account S3 access role to assume
+  readonly coreS3AccessRoleExternalId?: string; // ExternalId the Core S3 access role requires (StackCore s3AccessRoleExternalId)
   readonly region: string;
+  readonly environmentTier: EnvironmentTier; // Drives removal policies, log retention, alarms
   readonly deploymentPrefix?: string; // Optional deployment-specific subdirectory (e.g., 'john')
   readonly existingEventBusName?: string; // If provided, use shared event bus (for multi-deployment dev environments)
+  readonly transformerRoutes?: TransformerRoute[]; // Routing config for the processor's transformer registry
+  readonly defaultTransformer?: string; // Transformer used when no route matches (default: 'header')
+  readonly streamingThresholdBytes?: number; // Objects above this size are streamed via multipart upload (default: 64 MiB)
+  readonly maxObjectSizeBytes?: number; // Larger objects are quarantined without being read - they cannot finish in one invocation (default: 10 GiB)
+  readonly manifestBucketName?: string; // Core manifest bucket for per-file audit records (omit to skip manifests)
+  readonly logLevel?: LogLevel; // Processor log level (default: 'INFO' - object keys are only logged at 'DEBUG')
+  readonly alarmTopicArn?: string; // SNS topic for alarms in the RPS account (default: create {resourcePrefix}-rps-alarms)
+  readonly tracing?: boolean; // Enable X-Ray tracing for the processor Lambda and its AWS SDK calls (default: false)
+  readonly ledgerRetentionDays?: number; // Days a processed object version is remembered by the dedup ledger (default: 30)
+  readonly processorConcurrency?: number; // Records of an SQS batch processed in parallel, 1-10 (default: 4)
+  readonly deletionHandling?: DeletionHandling; // 'Object Deleted' handling - requires StackCore forwardDeleteEvents (default: 'ignore')
+  readonly coreReplicaRegion?: string; // Region of the Core DR replica buckets (every pipeline needs replica bucket names)
+  readonly failover?: boolean; // Process the Core DR replica buckets instead of the primary ones (default: false)
+}
+
+/**
+ * RPS resources created for a single pipeline
+ */
+export interface RpsPipelineResources {
+  readonly name: string;
+  readonly inputBucketName: string;
+  readonly outputBucketName: string;
+  readonly queue: sqs.IQueue;
+  readonly deadLetterQueue: sqs.IQueue;
+  readonly quarantineQueue: sqs.IQueue; // Messages that failed permanently (invalid event, unreadable object, ...)
+  readonly eventRule: events.IRule;
 }
 
 export class StackRps extends cdk.Stack {
-  public readonly processorQueue: sqs.IQueue;
+  public readonly pipelines: RpsPipelineResources[];
+  public readonly processorQueue: sqs.IQueue; // Queue of the default (or first) pipeline
   public readonly processorLambda: lambda.IFunction;
   public readonly eventBus: events.EventBus;
+  public readonly ledgerTable: dynamodb.ITable;
+  public readonly monitoring: FlowMonitoring;
 
   constructor(scope: Construct, id: string, props: StackRpsProps) {
-    super(scope, id, props);
+    super(scope, id, { synthesizer: new ContractStackSynthesizer(), ...props });
 
     const {
       prefix,
       accountCoreId,
+      additionalCoreAccountIds = [],
+      coreOrganizationId,
       stackCoreInputBucketName,
       stackCoreOutputBucketName,
+      pipelines: pipelineProps,
       coreS3AccessRoleArn,
+      coreS3AccessRoleExternalId,
       region,
+      environmentTier,
       deploymentPrefix,
       existingEventBusName,
+      transformerRoutes = [],
+      defaultTransformer = 'header',
+      streamingThresholdBytes = 64 * 1024 * 1024,
+      maxObjectSizeBytes = 10 * 1024 * 1024 * 1024,
+      ledgerRetentionDays = 30,
+      processorConcurrency = 4,
+      deletionHandling = 'ignore',
+      manifestBucketName,
+      logLevel = 'INFO',
+      tracing = false,
+      coreReplicaRegion,
+      failover = false,
     } = props;
 
     // Construct Core S3 Access Role ARN if not provided
@@ -53,24 +146,95 @@ export class StackRps extends cdk.Stack {
     if (!/^\d{12}$/.test(accountCoreId)) {
       throw new Error(`StackRps: accountCoreId must be a 12-digit AWS account ID, got: ${accountCoreId}`);
     }
-    if (!stackCoreInputBucketName || stackCoreInputBucketName.trim().length === 0) {
+    if (pipelineProps && (stackCoreInputBucketName || stackCoreOutputBucketName)) {
+      throw new Error('StackRps: specify either pipelines or stackCoreInputBucketName/stackCoreOutputBucketName, not both');
+    }
+    // Single-pipeline shorthand maps to the default pipeline (original resource names)
+    const pipelines: RpsPipelineProps[] = pipelineProps ?? [{
+      name: DEFAULT_PIPELINE_NAME,
+      inputBucketName: stackCoreInputBucketName!,
+      outputBucketName: stackCoreOutputBucketName!,
+    }];
+    if (!pipelineProps && (!stackCoreInputBucketName || stackCoreInputBucketName.trim().length === 0)) {
       throw new Error('StackRps: stackCoreInputBucketName is required and cannot be empty');
     }
-    if (!stackCoreOutputBucketName || stackCoreOutputBucketName.trim().length === 0) {
+    if (!pipelineProps && (!stackCoreOutputBucketName || stackCoreOutputBucketName.trim().length === 0)) {
       throw new Error('StackRps: stackCoreOutputBucketName is required and cannot be empty');
     }
+    validatePipelines(pipelines, 'StackRps');
+    pipelines.forEach((pipeline) => {
+      if (!pipeline.inputBucketName || !pipeline.outputBucketName) {
+        throw new Error(`StackRps: pipeline '${pipeline.name}' requires inputBucketName and outputBucketName`);
+      }
+    });
     if (!region || region.trim().length === 0) {
       throw new Error('StackRps: region is required and cannot be empty');
     }
+    if (failover && !coreReplicaRegion) {
+      throw new Error('StackRps: failover requires coreReplicaRegion');
+    }
+    const pipelineWithoutReplica = pipelines.find((pipeline) => !pipeline.replicaInputBucketName || !pipeline.replicaOutputBucketName);
+    if (coreReplicaRegion && pipelineWithoutReplica) {
+      throw new Error(`StackRps: coreReplicaRegion requires replicaInputBucketName and replicaOutputBucketName, missing for pipeline '${pipelineWithoutReplica.name}'`);
+    }
     if (deploymentPrefix && deploymentPrefix.includes('/')) {
       throw new Error(`StackRps: deploymentPrefix must not contain '/', got: ${deploymentPrefix}`);
     }
+    if (deploymentPrefix === DEFAULT_DEPLOYMENT_NAME) {
+      throw new Error(`StackRps: deploymentPrefix '${DEFAULT_DEPLOYMENT_NAME}' is reserved for the deployment without a prefix`);
+    }
+    if (!isBuiltInTransformer(defaultTransformer)) {
+      throw new Error(`StackRps: unknown defaultTransformer '${defaultTransformer}', expected one of: ${BUILT_IN_TRANSFORMERS.join(', ')}`);
+    }
+    if (!Number.isInteger(streamingThresholdBytes) || streamingThresholdBytes <= 0) {
+      throw new Error(`StackRps: streamingThresholdBytes must be a positive integer, got: ${streamingThresholdBytes}`);
+    }
+    if (!Number.isInteger(maxObjectSizeBytes) || maxObjectSizeBytes < streamingThresholdBytes) {
+      throw new Error(`StackRps: maxObjectSizeBytes must be an integer of at least streamingThresholdBytes, got: ${maxObjectSizeBytes}`);
+    }
+    if (!['DEBUG', 'INFO', 'WARN', 'ERROR'].includes(logLevel)) {
+      throw new Error(`StackRps: logLevel must be one of DEBUG, INFO, WARN, ERROR, got: ${logLevel}`);
+    }
+    if (!Number.isInteger(ledgerRetentionDays) || ledgerRetentionDays <= 0) {
+      throw new Error(`StackRps: ledgerRetentionDays must be a positive integer, got: ${ledgerRetentionDays}`);
+    }
+    // More than the SQS batch size (10) would never be used
+    if (!Number.isInteger(processorConcurrency) || processorConcurrency < 1 || processorConcurrency > 10) {
+      throw new Error(`StackRps: processorConcurrency must be an integer between 1 and 10, got: ${processorConcurrency}`);
+    }
+    if (!DELETION_HANDLING_MODES.includes(deletionHandling)) {
+      throw new Error(`StackRps: deletionHandling must be one of ${DELETION_HANDLING_MODES.join(', ')}, got: ${deletionHandling}`);
+    }
+    // A deletion event carries its own time, not the upload's - date-based output keys cannot be recomputed
+    const datedPipeline = pipelines.find((pipeline) => pipeline.outputKeyTemplate && usesDateVariables(pipeline.outputKeyTemplate));
+    if (deletionHandling !== 'ignore' && datedPipeline) {
+      throw new Error(`StackRps: deletionHandling '${deletionHandling}' requires output key templates without date variables, pipeline '${datedPipeline.name}' uses: ${datedPipeline.outputKeyTemplate}`);
+    }
+    transformerRoutes.forEach((route, index) => {
+      if (!isBuiltInTransformer(route.transformer)) {
+        throw new Error(`StackRps: transformerRoutes[${index}] has unknown transformer '${route.transformer}', expected one of: ${BUILT_IN_TRANSFORMERS.join(', ')}`);
+      }
+      if (route.keyPrefix === undefined && route.extension === undefined && route.contentType === undefined) {
+        throw new Error(`StackRps: transformerRoutes[${index}] must set at least one of keyPrefix, extension or contentType`);
+      }
+    });
+
+    // Environment-dependent behaviour comes from the explicit tier (see environment-tier.ts)
+    const tierPolicy = getTierPolicy(environmentTier, 'StackRps');
+
+    // Deployment-specific roles are only trusted by the Core S3AccessRole in tiers that allow them
+    if (deploymentPrefix && !tierPolicy.allowDeploymentPrefixes) {
+      throw new Error(`StackRps: deploymentPrefix is not allowed for environmentTier '${environmentTier}', got: ${deploymentPrefix}`);
+    }
 
-    // Environment-based retention policies
-    // Dev: DESTROY (cost optimization, easy cleanup)
-    // Prod: RETAIN (data protection, compliance)
-    const isDev = prefix.toLowerCase().includes('dev');
-    const removalPolicy = isDev ? cdk.RemovalPolicy.DESTROY : cdk.RemovalPolicy.RETAIN;
+    // Tiers allowing deployment prefixes share the Core S3AccessRole between deployments - each deployment passes
+    // its name as a session tag and only reaches input/{deployment}/ and output/{deployment}/ (see deployments.ts)
+    const deploymentScope = tierPolicy.allowDeploymentPrefixes ? deploymentName(deploymentPrefix) : undefined;
+
+    // Tier-based retention policies
+    // Dev/Test: DESTROY (cost optimization, easy cleanup)
+    // Staging/Prod: RETAIN (data protection, compliance)
+    const { removalPolicy, logRetention } = tierPolicy;
 
     // Create KMS key for SQS encryption
     const queueKey = new kms.Key(this, 'QueueKey', {
@@ -98,35 +262,17 @@ export class StackRps extends cdk.Stack {
     // - With deployment prefix: dev-john-processor-queue
     const resourcePrefix = deploymentPrefix ? `${prefix}-${deploymentPrefix}` : prefix;
 
-    // Create Dead Letter Queue
-    const dlq = new sqs.Queue(this, 'ProcessorDLQ', {
-      queueName: `${resourcePrefix}-processor-dlq`,
-      encryption: sqs.QueueEncryption.KMS,
-      encryptionMasterKey: queueKey,
-      enforceSSL: true,
-      retentionPeriod: cdk.Duration.days(14),
-    });
-
-    // Create main processing queue
-    this.processorQueue = new sqs.Queue(this, 'ProcessorQueue', {
-      queueName: `${resourcePrefix}-processor-queue`,
-      encryption: sqs.QueueEncryption.KMS,
-      encryptionMasterKey: queueKey,
-      enforceSSL: true,
-      visibilityTimeout: cdk.Duration.seconds(300),
-      retentionPeriod: cdk.Duration.days(4),
-      deadLetterQueue: {
-        queue: dlq,
-        maxReceiveCount: 3,
-      },
-    });
-
     // Create IAM role for Lambda with specific name for cross-account access
+    const processorRoleName = `${resourcePrefix}-processor-lambda-role`;
     const lambdaRole = new iam.Role(this, 'ProcessorLambdaRole', {
-      roleName: `${resourcePrefix}-processor-lambda-role`,
+      roleName: processorRoleName,
       assumedBy: new iam.ServicePrincipal('lambda.amazonaws.com'),
       description: `Lambda role for ${resourcePrefix} S3 processor`,
     });
+    // The Core trust policy only accepts a deployment session tag equal to this role tag
+    if (deploymentScope) {
+      cdk.Tags.of(lambdaRole).add(DEPLOYMENT_TAG_KEY, deploymentScope);
+    }
 
     // CloudWatch Logs permissions (replaces AWSLambdaBasicExecutionRole)
     // Scoped to specific log group instead of using AWS managed policy
@@ -152,46 +298,101 @@ export class StackRps extends cdk.Stack {
       new iam.PolicyStatement({
         sid: 'AssumeCoreS3AccessRole',
         effect: iam.Effect.ALLOW,
-        actions: ['sts:AssumeRole'],
+        actions: deploymentScope ? ['sts:AssumeRole', 'sts:TagSession'] : ['sts:AssumeRole'],
         resources: [s3AccessRoleArn],
       }),
     );
 
-    // Grant Lambda access to SQS queue
+    // Grant Lambda access to KMS for SQS decryption
+    queueKey.grantDecrypt(lambdaRole);
+
+    // Deduplication ledger: one entry per processed object version (bucket/key#versionId#etag)
+    // EventBridge and SQS deliver at least once - the Lambda skips versions already marked COMPLETED
+    const ledgerTable = new dynamodb.Table(this, 'ProcessingLedger', {
+      tableName: `${resourcePrefix}-processing-ledger`,
+      partitionKey: { name: 'objectId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      encryption: dynamodb.TableEncryption.AWS_MANAGED,
+      pointInTimeRecoverySpecification: { pointInTimeRecoveryEnabled: true },
+      timeToLiveAttribute: 'expiresAt',
+      removalPolicy,
+    });
+    this.ledgerTable = ledgerTable;
+
     lambdaRole.addToPolicy(
       new iam.PolicyStatement({
-        sid: 'AccessSQSQueue',
+        sid: 'ProcessingLedger',
         effect: iam.Effect.ALLOW,
         actions: [
-          'sqs:ReceiveMessage',
-          'sqs:DeleteMessage',
-          'sqs:GetQueueAttributes',
-          'sqs:ChangeMessageVisibility',
+          'dynamodb:PutItem',
+          'dynamodb:UpdateItem',
+          'dynamodb:DeleteItem',
         ],
-        resources: [this.processorQueue.queueArn],
+        resources: [ledgerTable.tableArn],
       }),
     );
 
-    // Grant Lambda access to KMS for SQS decryption
-    queueKey.grantDecrypt(lambdaRole);
+    // Multi-GB objects are streamed within a single invocation - the Lambda maximum, with maxObjectSizeBytes
+    // keeping objects that cannot finish in time out of the retries
+    const processorTimeout = cdk.Duration.minutes(15);
+
+    // Lambda log group with tier-based retention (name matches the CloudWatchLogs statement above)
+    const processorLogGroup = new logs.LogGroup(this, 'ProcessorLogGroup', {
+      logGroupName: `/aws/lambda/${resourcePrefix}-s3-processor`,
+      retention: logRetention,
+      removalPolicy,
+    });
+
+    const primaryPipeline = pipelines.find((pipeline) => isDefaultPipeline(pipeline.name)) ?? pipelines[0];
 
     // Create Lambda function
-    this.processorLambda = new nodejs.NodejsFunction(this, 'ProcessorLambda', {
+    const processorFunction = new nodejs.NodejsFunction(this, 'ProcessorLambda', {
       functionName: `${resourcePrefix}-s3-processor`,
       runtime: lambda.Runtime.NODEJS_22_X,
       handler: 'handler',
       entry: path.join(__dirname, '../lambda/processor.ts'),
-      timeout: cdk.Duration.seconds(60),
-      memorySize: 512,
+      timeout: processorTimeout,
+      memorySize: 1024, // Lambda network and CPU share scale with memory - streaming throughput
       role: lambdaRole,
+      logGroup: processorLogGroup,
+      tracing: tracing ? lambda.Tracing.ACTIVE : lambda.Tracing.DISABLED,
       environment: {
-        INPUT_BUCKET_NAME: stackCoreInputBucketName,
-        OUTPUT_BUCKET_NAME: stackCoreOutputBucketName,
+        INPUT_BUCKET_NAME: primaryPipeline.inputBucketName,
+        OUTPUT_BUCKET_NAME: primaryPipeline.outputBucketName,
+        // Input bucket -> output bucket routing (and output key template) for all pipelines
+        PIPELINES: JSON.stringify(pipelines.map((pipeline) => ({
+          name: pipeline.name,
+          inputBucketName: pipeline.inputBucketName,
+          outputBucketName: pipeline.outputBucketName,
+          ...(pipeline.outputKeyTemplate && { outputKeyTemplate: pipeline.outputKeyTemplate }),
+          ...(coreReplicaRegion && {
+            replicaInputBucketName: pipeline.replicaInputBucketName,
+            replicaOutputBucketName: pipeline.replicaOutputBucketName,
+          }),
+        }))),
+        // DR failover: read and write the replica buckets in CORE_REPLICA_REGION
+        ...(coreReplicaRegion && { CORE_REPLICA_REGION: coreReplicaRegion }),
+        ...(failover && { CORE_FAILOVER: 'true' }),
         PREFIX: prefix,
         CORE_S3_ACCESS_ROLE_ARN: s3AccessRoleArn, // Role to assume for Core S3 access
+        ...(coreS3AccessRoleExternalId && { CORE_S3_ACCESS_ROLE_EXTERNAL_ID: coreS3AccessRoleExternalId }),
         ...(deploymentPrefix && { CDK_DEPLOYMENT_PREFIX: deploymentPrefix }),
+        ...(deploymentScope && { DEPLOYMENT_SCOPE: deploymentScope }), // Session tag and input/output key prefixes
+        DEFAULT_TRANSFORMER: defaultTransformer,
+        ...(transformerRoutes.length > 0 && { TRANSFORMER_ROUTES: JSON.stringify(transformerRoutes) }),
+        STREAMING_THRESHOLD_BYTES: String(streamingThresholdBytes),
+        MAX_OBJECT_SIZE_BYTES: String(maxObjectSizeBytes),
+        // The manifest bucket only exists in the primary region - no audit records while failed over
+        ...(manifestBucketName && !failover && { MANIFEST_BUCKET_NAME: manifestBucketName }),
+        LEDGER_TABLE_NAME: ledgerTable.tableName,
+        LEDGER_LEASE_SECONDS: String(processorTimeout.toSeconds()), // Claims outliving an invocation are abandoned
+        LEDGER_TTL_DAYS: String(ledgerRetentionDays),
+        PROCESSOR_CONCURRENCY: String(processorConcurrency),
+        DELETION_HANDLING: deletionHandling,
         POWERTOOLS_SERVICE_NAME: `${resourcePrefix}-processor`,
-        LOG_LEVEL: 'INFO',
+        POWERTOOLS_METRICS_NAMESPACE: PROCESSOR_METRICS_NAMESPACE,
+        POWERTOOLS_TRACE_ENABLED: String(tracing),
+        LOG_LEVEL: logLevel,
       },
       bundling: {
         minify: true,
@@ -199,159 +400,244 @@ export class StackRps extends cdk.Stack {
         externalModules: ['@aws-sdk/*'],
       },
     });
+    this.processorLambda = processorFunction;
 
-    // Add SQS event source to Lambda
-    this.processorLambda.addEventSource(
-      new lambdaEventSources.SqsEventSource(this.processorQueue, {
-        batchSize: 10,
-        maxBatchingWindow: cdk.Duration.seconds(5),
-        reportBatchItemFailures: true,
-      }),
-    );
+    if (tracing) {
+      NagSuppressions.addResourceSuppressions(
+        lambdaRole,
+        [
+          {
+            id: 'AwsSolutions-IAM5',
+            reason: 'X-Ray PutTraceSegments/PutTelemetryRecords do not support resource-level permissions',
+            appliesTo: ['Resource::*'],
+          },
+        ],
+        true,
+      );
+    }
 
     // ========================================
     // Custom Event Bus Setup (Multi-Deployment Support)
     // ========================================
-    // Use Custom Resource for idempotent event bus creation to support shared bus in dev environments.
-    // This allows multiple deployments (dev-alice, dev-bob) to deploy separate stacks to the same RPS
-    // Dev account while sharing a single custom event bus. Without this Custom Resource approach:
-    // - First deployment to deploy would succeed (creates bus)
-    // - Second deployment would fail (bus already exists - ResourceAlreadyExistsException)
-    // - Manual setup steps would be required (creates deployment friction)
-    //
-    // With Custom Resource + ignoreErrorCodesMatching:
-    // - First deployment creates the bus (onCreate succeeds)
-    // - Subsequent deployments reuse existing bus (ResourceAlreadyExistsException ignored)
-    // - No race conditions or manual prerequisites
-    // - Shared resource survives individual stack deletions (intentionally no onDelete)
-    const eventBusName = existingEventBusName || `${prefix}-cross-account-bus`;
-
-    const ensureEventBus = new cr.AwsCustomResource(this, 'EnsureEventBus', {
-      onCreate: {
-        service: 'EventBridge',
-        action: 'createEventBus',
-        parameters: { Name: eventBusName },
-        physicalResourceId: cr.PhysicalResourceId.of(eventBusName),
-        ignoreErrorCodesMatching: 'ResourceAlreadyExistsException', // Idempotent!
+    // Multiple deployments (dev-alice, dev-bob) can deploy separate stacks to the same RPS Dev account while
+    // sharing a single custom event bus. The bus is managed by the Custom::SharedEventBus resource
+    // (lambda/shared-bus.ts) with reference counting instead of CloudFormation ownership:
+    // - Create: creates the bus unless it exists, registers this deployment as a consumer (bus tag) and grants
+    //   the Core account PutEvents with this deployment's statement
+    // - Create/Update/Delete: removes orphaned consumers - statement, rules and registration of registered
+    //   deployments whose processor Lambda no longer exists. Unregistered statements are only logged
+    // - Delete: removes this deployment's statement and deletes the bus once the last consumer is gone
+    const eventBusName = existingEventBusName || crossAccountEventBusName(prefix);
+    const eventBusArn = `arn:aws:events:${region}:${this.account}:event-bus/${eventBusName}`;
+
+    // StatementId includes deployment prefix to avoid conflicts when sharing bus:
+    // - Regular dev: "AllowCoreAccount-dev"
+    // - John's stack: "AllowCoreAccount-dev-john"
+    // The statement only accepts the Core rules of this stage (primary and DR standby rules) in the Core accounts
+    const permissionStatementId = `AllowCoreAccount-${resourcePrefix}`;
+    const coreAccountIds = [accountCoreId, ...additionalCoreAccountIds];
+    const coreRuleArns = coreAccountIds.flatMap((accountId) => [region, ...(coreReplicaRegion ? [coreReplicaRegion] : [])]
+      .map((ruleRegion) => coreEventRuleArnPattern(prefix, accountId, ruleRegion)));
+    const busPolicyStatement = coreBusPolicyStatement({
+      statementId: permissionStatementId,
+      eventBusArn,
+      coreAccountIds,
+      coreRuleArns,
+      organizationId: coreOrganizationId,
+    });
+
+    const sharedBusLogGroup = new logs.LogGroup(this, 'SharedBusManagerLogGroup', {
+      logGroupName: `/aws/lambda/${resourcePrefix}-shared-bus-manager`,
+      retention: logRetention,
+      removalPolicy,
+    });
+
+    const sharedBusFunction = new nodejs.NodejsFunction(this, 'SharedBusManagerLambda', {
+      functionName: `${resourcePrefix}-shared-bus-manager`,
+      runtime: lambda.Runtime.NODEJS_22_X,
+      handler: 'handler',
+      entry: path.join(__dirname, '../lambda/shared-bus.ts'),
+      timeout: cdk.Duration.minutes(5),
+      memorySize: 256,
+      logGroup: sharedBusLogGroup,
+      environment: {
+        POWERTOOLS_SERVICE_NAME: `${resourcePrefix}-shared-bus-manager`,
+        LOG_LEVEL: logLevel,
+      },
+      bundling: {
+        minify: true,
+        sourceMap: true,
+        externalModules: ['@aws-sdk/*'],
+      },
+    });
+
+    // Bus lifecycle, permission statements and registration tags of this bus only
+    sharedBusFunction.addToRolePolicy(
+      new iam.PolicyStatement({
+        sid: 'ManageSharedEventBus',
+        effect: iam.Effect.ALLOW,
+        actions: [
+          'events:CreateEventBus',
+          'events:DescribeEventBus',
+          'events:DeleteEventBus',
+          'events:PutPermission',
+          'events:RemovePermission',
+          'events:TagResource',
+          'events:UntagResource',
+          'events:ListTagsForResource',
+        ],
+        resources: [eventBusArn],
+      }),
+    );
+    // Rules of orphaned consumers on this bus (rule ARNs of custom buses include the bus name)
+    sharedBusFunction.addToRolePolicy(
+      new iam.PolicyStatement({
+        sid: 'RemoveOrphanedRules',
+        effect: iam.Effect.ALLOW,
+        actions: [
+          'events:ListTagsForResource',
+          'events:ListTargetsByRule',
+          'events:RemoveTargets',
+          'events:DeleteRule',
+        ],
+        resources: [`arn:aws:events:${region}:${this.account}:rule/${eventBusName}/*`],
+      }),
+    );
+    sharedBusFunction.addToRolePolicy(
+      new iam.PolicyStatement({
+        sid: 'ListBusRules',
+        effect: iam.Effect.ALLOW,
+        actions: ['events:ListRules'],
+        resources: ['*'], // ListRules does not support resource-level permissions
+      }),
+    );
+    // Liveness of consumers: their processor Lambdas
+    sharedBusFunction.addToRolePolicy(
+      new iam.PolicyStatement({
+        sid: 'CheckConsumerProcessors',
+        effect: iam.Effect.ALLOW,
+        actions: ['lambda:GetFunction'],
+        resources: [`arn:aws:lambda:${region}:${this.account}:function:*-s3-processor`],
+      }),
+    );
+
+    const sharedBusProvider = new cr.Provider(this, 'SharedBusProvider', {
+      onEventHandler: sharedBusFunction,
+      logGroup: new logs.LogGroup(this, 'SharedBusProviderLogGroup', {
+        retention: logRetention,
+        removalPolicy,
+      }),
+    });
+
+    const sharedEventBus = new cdk.CustomResource(this, 'SharedEventBus', {
+      serviceToken: sharedBusProvider.serviceToken,
+      resourceType: 'Custom::SharedEventBus',
+      properties: {
+        EventBusName: eventBusName,
+        ConsumerId: resourcePrefix,
+        Statement: busPolicyStatement.toStatementJson(),
+        ProcessorFunctionName: processorFunction.functionName,
       },
+    });
+    // Deleted before the processor Lambda - other consumers' managers treat a missing processor as an orphan
+    sharedEventBus.node.addDependency(processorFunction);
+
+    // Migration (remove in the next release): stacks deployed before Custom::SharedEventBus granted the statement
+    // with this AwsCustomResource, whose delete call removed the same StatementId. Removing the resource would
+    // delete that statement right after SharedEventBus wrote it, and the Core events would be rejected. Keeping
+    // its logical ID with a read-only call and no onDelete turns the upgrade into a harmless update; the same
+    // physical ID keeps CloudFormation from deleting the old resource during the update.
+    const legacyPermission = new cr.AwsCustomResource(this, 'GrantCoreAccountPermission', {
       onUpdate: {
         service: 'EventBridge',
-        action: 'createEventBus',
+        action: 'describeEventBus',
         parameters: { Name: eventBusName },
-        physicalResourceId: cr.PhysicalResourceId.of(eventBusName),
-        ignoreErrorCodesMatching: 'ResourceAlreadyExistsException',
+        physicalResourceId: cr.PhysicalResourceId.of(`${eventBusName}-permission-${permissionStatementId}`),
       },
-      // onDelete intentionally empty - preserve shared resource for other deployments
-      policy: cr.AwsCustomResourcePolicy.fromSdkCalls({
-        resources: [`arn:aws:events:${region}:${this.account}:event-bus/${eventBusName}`],
-      }),
-      logRetention: logs.RetentionDays.ONE_WEEK,
+      // onDelete intentionally empty - SharedEventBus owns the statement now
+      policy: cr.AwsCustomResourcePolicy.fromSdkCalls({ resources: [eventBusArn] }),
+      installLatestAwsSdk: false,
     });
+    legacyPermission.node.addDependency(sharedEventBus);
 
     // Reference the event bus (either newly created or existing shared bus)
     // Using IEventBus (imported) rather than EventBus because:
     // - The bus might have been created by another stack (shared dev environment)
-    // - We can't use addToResourcePolicy() on imported resources (IEventBus limitation)
-    // - That's why we use Custom Resource below for permission granting
+    // - The bus outlives this stack while other deployments still use it
     this.eventBus = events.EventBus.fromEventBusName(
       this,
       'CrossAccountEventBus',
       eventBusName,
     ) as events.EventBus;
 
-    // Grant Core Account permission to put events on custom event bus using Custom Resource
-    // Why Custom Resource instead of this.eventBus.addToResourcePolicy()?
-    // - If using shared bus (existingEventBusName provided), this.eventBus is IEventBus (imported)
-    // - IEventBus doesn't have addToResourcePolicy() method (only concrete EventBus class does)
-    // - Custom Resource works regardless of whether bus is newly created or imported
-    // - Allows consistent permission management across all deployment scenarios
-    //
-    // StatementId includes deployment prefix to avoid conflicts when sharing bus:
-    // - Regular dev: "AllowCoreAccount-dev"
-    // - John's stack: "AllowCoreAccount-dev-john"
-    const permissionStatementId = deploymentPrefix
-      ? `AllowCoreAccount-${prefix}-${deploymentPrefix}`
-      : `AllowCoreAccount-${prefix}`;
+    // One queue, DLQ and EventBridge rule per pipeline, all consumed by the same Lambda
+    this.pipelines = pipelines.map((pipeline) => this.createPipeline(pipeline, {
+      resourcePrefix,
+      coreAccountIds, // Same accounts as the bus policy - events the bus accepts are not dropped by the rule
+      queueKey,
+      includeObjectDeleted: deletionHandling !== 'ignore',
+      deploymentScope,
+      // AWS guidance for SQS event sources: six times the function timeout, so retries of a batch cannot overlap it
+      visibilityTimeout: cdk.Duration.seconds(processorTimeout.toSeconds() * 6),
+    }));
+
+    // Rules are registered to this deployment (orphan cleanup) and deleted before the consumer deregisters
+    for (const pipeline of this.pipelines) {
+      cdk.Tags.of(pipeline.eventRule).add(SHARED_BUS_CONSUMER_TAG, resourcePrefix);
+      pipeline.eventRule.node.addDependency(sharedEventBus);
+    }
 
-    const grantCoreAccountPermission = new cr.AwsCustomResource(this, 'GrantCoreAccountPermission', {
-      onCreate: {
-        service: 'EventBridge',
-        action: 'putPermission',
-        parameters: {
-          EventBusName: eventBusName,
-          StatementId: permissionStatementId,
-          Action: 'events:PutEvents',
-          Principal: accountCoreId,
-        },
-        physicalResourceId: cr.PhysicalResourceId.of(`${eventBusName}-permission-${permissionStatementId}`),
-        ignoreErrorCodesMatching: 'ResourceAlreadyExistsException',
-      },
-      onUpdate: {
-        service: 'EventBridge',
-        action: 'putPermission',
-        parameters: {
-          EventBusName: eventBusName,
-          StatementId: permissionStatementId,
-          Action: 'events:PutEvents',
-          Principal: accountCoreId,
-        },
-        physicalResourceId: cr.PhysicalResourceId.of(`${eventBusName}-permission-${permissionStatementId}`),
-        ignoreErrorCodesMatching: 'ResourceAlreadyExistsException',
-      },
-      onDelete: {
-        service: 'EventBridge',
-        action: 'removePermission',
-        parameters: {
-          EventBusName: eventBusName,
-          StatementId: permissionStatementId,
-        },
-        ignoreErrorCodesMatching: 'ResourceNotFoundException',
-      },
-      policy: cr.AwsCustomResourcePolicy.fromSdkCalls({
-        resources: [`arn:aws:events:${region}:${this.account}:event-bus/${eventBusName}`],
-      }),
-      logRetention: logs.RetentionDays.ONE_WEEK,
-    });
+    // Permanent failures are sent to the quarantine queue of the pipeline whose queue delivered them
+    processorFunction.addEnvironment('QUARANTINE_QUEUES', this.toJsonString(Object.fromEntries(
+      this.pipelines.map((pipeline) => [pipeline.queue.queueName, pipeline.quarantineQueue.queueUrl]),
+    )));
 
-    // Ensure permission is granted after bus exists
-    grantCoreAccountPermission.node.addDependency(ensureEventBus);
+    const primaryPipelineResources = this.pipelines.find((pipeline) => pipeline.name === primaryPipeline.name)!;
+    this.processorQueue = primaryPipelineResources.queue;
 
-    // Create EventBridge rule to receive events from Core Account
-    // Filters events from the input bucket only
-    const s3EventRule = new events.Rule(this, 'S3EventFromCoreAccount', {
-      ruleName: `${resourcePrefix}-receive-s3-events`,
-      description: `Receives S3 events from Core Account input bucket for ${resourcePrefix}`,
-      eventBus: this.eventBus,
-      eventPattern: {
-        account: [accountCoreId],
-        source: ['aws.s3'],
-        detailType: ['Object Created'],
-        detail: {
-          bucket: {
-            name: [stackCoreInputBucketName],
-          },
-        },
-      },
+    // Dashboard and alarms in flow order: RPS rule -> queue/DLQ -> processor Lambda
+    this.monitoring = new FlowMonitoring(this, 'Monitoring', {
+      namePrefix: `${resourcePrefix}-rps`,
+      alarmThresholds: tierPolicy.alarmThresholds,
+      alarmTopicArn: props.alarmTopicArn,
+    });
+    for (const pipeline of this.pipelines) {
+      const label = isDefaultPipeline(pipeline.name) ? '' : `${pipeline.name}-`;
+      this.monitoring.addEventRule(`${label}receive-s3-events`, pipeline.eventRule, eventBusName);
+      this.monitoring.addQueue(`${label}processor`, pipeline.queue, pipeline.deadLetterQueue);
+      this.monitoring.addQuarantineQueue(`${label}processor`, pipeline.quarantineQueue);
+    }
+    this.monitoring.addProcessor(this.processorLambda, {
+      namespace: PROCESSOR_METRICS_NAMESPACE,
+      service: `${resourcePrefix}-processor`,
+      metricNames: PROCESSOR_METRICS,
     });
 
-    // Add SQS queue as target for EventBridge rule
-    s3EventRule.addTarget(new targets.SqsQueue(this.processorQueue));
+    // Grant Lambda access to SQS queues
+    lambdaRole.addToPolicy(
+      new iam.PolicyStatement({
+        sid: 'AccessSQSQueue',
+        effect: iam.Effect.ALLOW,
+        actions: [
+          'sqs:ReceiveMessage',
+          'sqs:DeleteMessage',
+          'sqs:GetQueueAttributes',
+          'sqs:ChangeMessageVisibility',
+        ],
+        resources: this.pipelines.map((pipeline) => pipeline.queue.queueArn),
+      }),
+    );
 
-    // Grant EventBridge rule permission to send to SQS (override CDK's restrictive condition)
-    this.processorQueue.addToResourcePolicy(
+    // Quarantine: send only, the Lambda never reads quarantined messages back
+    lambdaRole.addToPolicy(
       new iam.PolicyStatement({
-        sid: 'AllowEventBridgeRuleSendMessage',
+        sid: 'QuarantineMessages',
         effect: iam.Effect.ALLOW,
-        principals: [new iam.ServicePrincipal('events.amazonaws.com')],
         actions: ['sqs:SendMessage'],
-        resources: [this.processorQueue.queueArn],
-        conditions: {
-          ArnEquals: {
-            'aws:SourceArn': s3EventRule.ruleArn,
-          },
-        },
+        resources: this.pipelines.map((pipeline) => pipeline.quarantineQueue.queueArn),
       }),
     );
+    queueKey.grant(lambdaRole, 'kms:GenerateDataKey');
 
     // CDK Nag Suppressions for Lambda Role
     // No IAM4 suppression needed - using inline policy instead of AWS managed policy
@@ -380,27 +666,20 @@ export class StackRps extends cdk.Stack {
       },
     ]);
 
-    // Suppress CDK NAG warnings for Custom Resource Lambda providers
-    // These Lambdas are created by AWS CDK for Custom Resources and use AWS managed policies
+    // Suppress CDK NAG warnings for the shared bus manager and its provider framework Lambdas
+    // The provider Lambda is created by AWS CDK and uses AWS managed policies
     NagSuppressions.addResourceSuppressions(
-      ensureEventBus,
+      [sharedBusFunction, sharedBusProvider],
       [
         {
           id: 'AwsSolutions-IAM4',
-          reason: 'Custom Resource Lambda provider uses AWS managed policy for CloudWatch Logs (CDK-generated)',
+          reason: 'Shared bus manager and provider framework Lambdas use AWS managed policy for CloudWatch Logs',
           appliesTo: ['Policy::arn:<AWS::Partition>:iam::aws:policy/service-role/AWSLambdaBasicExecutionRole'],
         },
-      ],
-      true,
-    );
-
-    NagSuppressions.addResourceSuppressions(
-      grantCoreAccountPermission,
-      [
         {
-          id: 'AwsSolutions-IAM4',
-          reason: 'Custom Resource Lambda provider uses AWS managed policy for CloudWatch Logs (CDK-generated)',
-          appliesTo: ['Policy::arn:<AWS::Partition>:iam::aws:policy/service-role/AWSLambdaBasicExecutionRole'],
+          id: 'AwsSolutions-IAM5',
+          reason: 'Orphan cleanup covers all rules on the shared bus and all processor Lambdas (any deployment may have left them), '
+            + 'ListRules has no resource-level permissions, the provider invokes its handler versions',
         },
       ],
       true,
@@ -433,12 +712,6 @@ export class StackRps extends cdk.Stack {
     );
 
     // Outputs - use resourcePrefix for unique export names
-    new cdk.CfnOutput(this, 'QueueUrl', {
-      value: this.processorQueue.queueUrl,
-      description: 'URL of the processor queue',
-      exportName: `${resourcePrefix}-StackRps-QueueUrl`,
-    });
-
     new cdk.CfnOutput(this, 'LambdaArn', {
       value: this.processorLambda.functionArn,
       description: 'ARN of the processor Lambda',
@@ -456,5 +729,161 @@ export class StackRps extends cdk.Stack {
       description: 'Name of the custom event bus',
       exportName: `${resourcePrefix}-StackRps-EventBusName`,
     });
+
+    // Contract view checked against the Core stack by `cli.ts contract verify`
+    publishContract(this, {
+      version: CONTRACT_VERSION,
+      side: 'rps',
+      stackId: this.artifactId,
+      stage: prefix,
+      deploymentPrefix,
+      accountId: this.account,
+      region,
+      coreAccountId: accountCoreId,
+      eventBusArn: consumerEventBusArn(prefix, region, this.account, eventBusName),
+      busPolicyStatement: {
+        statementId: permissionStatementId,
+        sourceAccounts: coreAccountIds,
+        sourceArns: coreRuleArns,
+        organizationId: coreOrganizationId,
+      },
+      processorRoleName,
+      s3AccessRoleArn,
+      externalIdProvided: coreS3AccessRoleExternalId !== undefined,
+      pipelines: pipelines.map(({ name, inputBucketName, outputBucketName, replicaInputBucketName, replicaOutputBucketName }) => ({
+        name,
+        inputBucketName,
+        outputBucketName,
+        replicaInputBucketName,
+        replicaOutputBucketName,
+      })),
+      manifestBucketName,
+    });
+  }
+
+  /**
+   * Create DLQ, processor queue, EventBridge rule and Lambda event source for one pipeline
+   * The default pipeline keeps the original names and construct IDs
+   */
+  private createPipeline(pipeline: RpsPipelineProps, shared: {
+    resourcePrefix: string;
+    coreAccountIds: string[];
+    queueKey: kms.IKey;
+    includeObjectDeleted: boolean;
+    deploymentScope?: string;
+    visibilityTimeout: cdk.Duration;
+  }): RpsPipelineResources {
+    const { resourcePrefix, coreAccountIds, queueKey } = shared;
+    const id = (constructId: string) => pipelineConstructId(pipeline.name, constructId);
+    // Resource naming: include deployment prefix and pipeline name for isolation
+    // - Default pipeline: dev-processor-queue, dev-john-processor-queue
+    // - Named pipeline: dev-orders-processor-queue, dev-john-orders-processor-queue
+    const namePrefix = pipelineResourcePrefix(resourcePrefix, pipeline.name);
+
+    // Create Dead Letter Queue
+    const dlq = new sqs.Queue(this, id('ProcessorDLQ'), {
+      queueName: `${namePrefix}-processor-dlq`,
+      encryption: sqs.QueueEncryption.KMS,
+      encryptionMasterKey: queueKey,
+      enforceSSL: true,
+      retentionPeriod: cdk.Duration.days(14),
+    });
+
+    // Quarantine queue: permanent failures skip the retries and land here with the failure reason attached
+    const quarantineQueue = new sqs.Queue(this, id('ProcessorQuarantine'), {
+      queueName: `${namePrefix}-processor-quarantine`,
+      encryption: sqs.QueueEncryption.KMS,
+      encryptionMasterKey: queueKey,
+      enforceSSL: true,
+      retentionPeriod: cdk.Duration.days(14),
+    });
+
+    NagSuppressions.addResourceSuppressions(quarantineQueue, [
+      {
+        id: 'AwsSolutions-SQS3',
+        reason: 'Quarantine queue is the final destination for unprocessable messages, like a DLQ',
+      },
+    ]);
+
+    // Create main processing queue
+    const queue = new sqs.Queue(this, id('ProcessorQueue'), {
+      queueName: `${namePrefix}-processor-queue`,
+      encryption: sqs.QueueEncryption.KMS,
+      encryptionMasterKey: queueKey,
+      enforceSSL: true,
+      visibilityTimeout: shared.visibilityTimeout,
+      retentionPeriod: cdk.Duration.days(4),
+      deadLetterQueue: {
+        queue: dlq,
+        maxReceiveCount: 3,
+      },
+    });
+
+    // Create EventBridge rule to receive events from the Core accounts (accountCoreId and additionalCoreAccountIds)
+    // Filters events from this pipeline's input bucket only (and this deployment's input prefix when scoped)
+    const s3EventRule = new events.Rule(this, id('S3EventFromCoreAccount'), {
+      ruleName: `${namePrefix}-receive-s3-events`,
+      description: `Receives S3 events from Core Account input bucket for ${namePrefix}`,
+      eventBus: this.eventBus,
+      eventPattern: {
+        account: coreAccountIds,
+        source: ['aws.s3'],
+        detailType: s3EventDetailTypes(shared.includeObjectDeleted),
+        detail: {
+          bucket: {
+            // The replica input bucket sends events through the Core standby path after failover
+            name: [pipeline.inputBucketName, ...(pipeline.replicaInputBucketName ? [pipeline.replicaInputBucketName] : [])],
+          },
+          ...(shared.deploymentScope && {
+            object: { key: [{ prefix: deploymentKeyPrefixes(shared.deploymentScope).input }] },
+          }),
+        },
+      },
+    });
+
+    // Add SQS queue as target for EventBridge rule
+    s3EventRule.addTarget(new targets.SqsQueue(queue));
+
+    // Grant EventBridge rule permission to send to SQS (override CDK's restrictive condition)
+    queue.addToResourcePolicy(
+      new iam.PolicyStatement({
+        sid: 'AllowEventBridgeRuleSendMessage',
+        effect: iam.Effect.ALLOW,
+        principals: [new iam.ServicePrincipal('events.amazonaws.com')],
+        actions: ['sqs:SendMessage'],
+        resources: [queue.queueArn],
+        conditions: {
+          ArnEquals: {
+            'aws:SourceArn': s3EventRule.ruleArn,
+          },
+        },
+      }),
+    );
+
+    // Add SQS event source to Lambda
+    this.processorLambda.addEventSource(
+      new lambdaEventSources.SqsEventSource(queue, {
+        batchSize: 10,
+        maxBatchingWindow: cdk.Duration.seconds(5),
+        reportBatchItemFailures: true,
+      }),
+    );
+
+    // Outputs - default pipeline keeps the original export name
+    new cdk.CfnOutput(this, id('QueueUrl'), {
+      value: queue.queueUrl,
+      description: `URL of the processor queue (${pipeline.name} pipeline)`,
+      exportName: `${namePrefix}-StackRps-QueueUrl`,
+    });
+
+    return {
+      name: pipeline.name,
+      inputBucketName: pipeline.inputBucketName,
+      outputBucketName: pipeline.outputBucketName,
+      queue,
+      deadLetterQueue: dlq,
+      quarantineQueue,
+      eventRule: s3EventRule,
+    };
   }
 }
@@ -0,0 +1,13 @@
+/**
+ * Names of transformers built into the processor Lambda
+ *
+ * Single source for both sides: StackRps validates defaultTransformer and transformerRoutes against it at synth, and
+ * lambda/transformers.ts registers exactly these names. No CDK imports - the processor Lambda bundles this module.
+ */
+export const BUILT_IN_TRANSFORMERS = ['header', 'passthrough', 'csv', 'json-schema', 'gzip'] as const;
+
+export type BuiltInTransformerName = typeof BUILT_IN_TRANSFORMERS[number];
+
+export function isBuiltInTransformer(name: string): name is BuiltInTransformerName {
+  return (BUILT_IN_TRANSFORMERS as readonly string[]).includes(name);
+}
@@ -0,0 +1,177 @@
+import { ListObjectVersionsCommand, ObjectVersion } from '@aws-sdk/client-s3';
+import { GetQueueUrlCommand, SendMessageBatchCommand } from '@aws-sdk/client-sqs';
+import { backfillEvent, listBackfillObjects, runBackfill } from '../src/backfill';
+import { main } from '../src/cli';
+
+const BUCKET = 'dev-core-input-bucket-111111111111-eu-central-1';
+const QUEUE_URL = 'http://localhost:9324/000000000000/dev-processor-queue';
+
+function version(key: string, lastModified: string, overrides: Partial<ObjectVersion> = {}): ObjectVersion {
+  return {
+    Key: key,
+    VersionId: `${key}-v2`,
+    IsLatest: true,
+    ETag: '"abc123"',
+    Size: 42,
+    LastModified: new Date(lastModified),
+    ...overrides,
+  };
+}
+
+/**
+ * S3 stand-in returning ListObjectVersions pages of two versions each
+ */
+function s3Stub(versions: ObjectVersion[]): { send: jest.Mock } {
+  return {
+    send: jest.fn(async (command: ListObjectVersionsCommand) => {
+      const start = command.input.KeyMarker ? Number(command.input.KeyMarker) : 0;
+      const matching = versions.filter((candidate) => candidate.Key!.startsWith(command.input.Prefix ?? ''));
+      const page = matching.slice(start, start + 2);
+      const truncated = start + 2 < matching.length;
+      return {
+        Versions: page,
+        IsTruncated: truncated,
+        NextKeyMarker: truncated ? String(start + 2) : undefined,
+        NextVersionIdMarker: truncated ? 'marker' : undefined,
+      };
+    }),
+  };
+}
+
+function sqsStub(): { send: jest.Mock; bodies: () => any[] } {
+  const send = jest.fn(async (command: unknown) => {
+    if (command instanceof GetQueueUrlCommand) {
+      return { QueueUrl: QUEUE_URL };
+    }
+    const entries = (command as SendMessageBatchCommand).input.Entries!;
+    return { Successful: entries.map((entry) => ({ Id: entry.Id })), Failed: [] };
+  });
+  return {
+    send,
+    bodies: () => send.mock.calls
+      .map(([command]) => command)
+      .filter((command) => command instanceof SendMessageBatchCommand)
+      .flatMap((command: SendMessageBatchCommand) => command.input.Entries!.map((entry) => JSON.parse(entry.MessageBody!))),
+  };
+}
+
+describe('Backfill', () => {
+  const versions = [
+    version('input/2026/01/a.csv', '2026-01-05T00:00:00Z'),
+    version('input/2026/01/a.csv', '2026-01-01T00:00:00Z', { IsLatest: false, VersionId: 'input/2026/01/a.csv-v1' }),
+    version('input/2026/01/b.csv', '2026-01-20T00:00:00Z'),
+    version('input/2026/02/c.csv', '2026-02-03T00:00:00Z', { VersionId: 'null' }),
+    version('other/d.csv', '2026-01-10T00:00:00Z'),
+  ];
+
+  test('Lists latest versions by key prefix and last-modified range across pages', async () => {
+    const s3 = s3Stub(versions);
+    const keys: string[] = [];
+
+    for await (const object of listBackfillObjects(s3, {
+      bucket: BUCKET,
+      keyPrefix: 'input/',
+      from: new Date('2026-01-02T00:00:00Z'),
+      to: new Date('2026-02-01T00:00:00Z'),
+    })) {
+      keys.push(object.key);
+    }
+
+    expect(keys).toEqual(['input/2026/01/a.csv', 'input/2026/01/b.csv']);
+    expect(s3.send).toHaveBeenCalledTimes(2);
+  });
+
+  test('Synthesises the EventBridge S3 event the processor expects', () => {
+    const event = backfillEvent(BUCKET, {
+      key: 'input/a b.csv',
+      versionId: 'v2',
+      etag: 'abc123',
+      size: 42,
+      lastModified: new Date('2026-01-05T00:00:00Z'),
+    }, 'run-1');
+
+    expect(event).toMatchObject({
+      'detail-type': 'Object Created',
+      'source': 'aws.s3',
+      'account': '111111111111',
+      'region': 'eu-central-1',
+      'time': '2026-01-05T00:00:00.000Z',
+      'detail': {
+        'bucket': { name: BUCKET },
+        'object': { 'key': 'input/a+b.csv', 'version-id': 'v2', 'etag': 'abc123', 'size': 42 },
+        'reason': 'Backfill',
+        'backfill-run-id': 'run-1',
+      },
+    });
+  });
+
+  test('Enqueues matching objects with the run ID and reports progress', async () => {
+    const s3 = s3Stub(versions);
+    const sqs = sqsStub();
+    const progress: number[] = [];
+
+    const result = await runBackfill(s3, sqs, {
+      bucket: BUCKET,
+      queueUrl: QUEUE_URL,
+      keyPrefix: 'input/',
+      runId: 'run-1',
+      onProgress: ({ enqueued }) => progress.push(enqueued),
+    });
+
+    expect(result).toMatchObject({ runId: 'run-1', listed: 4, matched: 3, enqueued: 3, failed: 0 });
+    expect(progress).toEqual([3]);
+
+    const bodies = sqs.bodies();
+    expect(bodies.map((body) => body.detail.object.key)).toEqual([
+      'input/2026/01/a.csv',
+      'input/2026/01/b.csv',
+      'input/2026/02/c.csv',
+    ]);
+    expect(bodies.every((body) => body.detail['backfill-run-id'] === 'run-1')).toBe(true);
+    // Unversioned object: no version-id, the processor falls back to IfMatch on the ETag
+    expect(bodies[2].detail.object['version-id']).toBeUndefined();
+  });
+
+  test('Throttles batches and stops at the object limit', async () => {
+    const many = Array.from({ length: 30 }, (_, i) => version(`input/${String(i).padStart(2, '0')}.csv`, '2026-01-01T00:00:00Z'));
+    const sqs = sqsStub();
+    const sleep = jest.fn().mockResolvedValue(undefined);
+
+    const result = await runBackfill(s3Stub(many), sqs, {
+      bucket: BUCKET,
+      queueUrl: QUEUE_URL,
+      maxObjects: 25,
+      messagesPerSecond: 10,
+      sleep,
+    });
+
+    expect(result.enqueued).toBe(25);
+    expect(sqs.send).toHaveBeenCalledTimes(3);
+    expect(sleep).toHaveBeenCalledTimes(2);
+  });
+
+  test('Dry run lists without enqueueing', async () => {
+    const sqs = sqsStub();
+    const out: string[] = [];
+
+    const code = await main(
+      ['backfill', '--bucket', BUCKET, '--prefix', 'dev', '--key-prefix', 'input/2026/01/', '--dry-run'],
+      { out: (line) => out.push(line), err: () => undefined, sqsClient: () => sqs, s3Client: () => s3Stub(versions) },
+    );
+
+    expect(code).toBe(0);
+    expect(out[0]).toBe(`Would enqueue 2 object(s) from ${BUCKET} to ${QUEUE_URL}`);
+    expect(sqs.bodies()).toEqual([]);
+  });
+
+  test('Rejects invalid dates', async () => {
+    const err: string[] = [];
+    const code = await main(
+      ['backfill', '--bucket', BUCKET, '--prefix', 'dev', '--from', 'yesterday'],
+      { out: () => undefined, err: (line) => err.push(line) },
+    );
+
+    expect(code).toBe(2);
+    expect(err[0]).toMatch(/--from must be an ISO date/);
+  });
+});
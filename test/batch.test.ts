@@ -0,0 +1,75 @@
+import { processBatch, RecordTimeoutError } from '../lambda/batch';
+
+const options = {
+  concurrency: 2,
+  getRemainingTimeInMillis: () => 60_000,
+  safetyMarginMs: 3000,
+  minRecordTimeMs: 1000,
+};
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe('Batch processing', () => {
+  test('Runs at most `concurrency` records at a time and keeps outcomes in record order', async () => {
+    let running = 0;
+    let maxRunning = 0;
+
+    const outcomes = await processBatch([30, 10, 20, 5, 15], async (ms) => {
+      running += 1;
+      maxRunning = Math.max(maxRunning, running);
+      await delay(ms);
+      running -= 1;
+      if (ms === 20) {
+        throw new Error('boom');
+      }
+    }, options);
+
+    expect(maxRunning).toBe(2);
+    expect(outcomes.map((outcome) => outcome.status)).toEqual(['succeeded', 'succeeded', 'failed', 'succeeded', 'succeeded']);
+    expect(outcomes[2]).toMatchObject({ error: new Error('boom') });
+  });
+
+  test('Rejects a concurrency that would start no lanes', async () => {
+    for (const concurrency of [0, -1, 1.5, NaN]) {
+      await expect(processBatch([1], async () => undefined, { ...options, concurrency }))
+        .rejects.toThrow(`Batch concurrency must be a positive integer, got: ${concurrency}`);
+    }
+  });
+
+  test('Aborts a record that runs past the deadline and reports it as timed out', async () => {
+    let signal: AbortSignal | undefined;
+
+    const outcomes = await processBatch(['slow'], (_item, abortSignal) => {
+      signal = abortSignal;
+      return new Promise<void>((_resolve, reject) => {
+        abortSignal.addEventListener('abort', () => reject(abortSignal.reason));
+      });
+    }, { ...options, getRemainingTimeInMillis: () => 1050, safetyMarginMs: 1000, minRecordTimeMs: 10 });
+
+    expect(outcomes).toEqual([{ status: 'timed-out', timeoutMs: 50 }]);
+    expect(signal?.aborted).toBe(true);
+    expect(signal?.reason).toBeInstanceOf(RecordTimeoutError);
+  });
+
+  test('Does not start records once too little time is left', async () => {
+    let remainingMs = 10_000;
+    const worker = jest.fn(async () => {
+      remainingMs -= 7500;
+    });
+
+    const outcomes = await processBatch(['a', 'b', 'c'], worker, {
+      ...options,
+      concurrency: 1,
+      getRemainingTimeInMillis: () => remainingMs,
+    });
+
+    expect(worker).toHaveBeenCalledTimes(1);
+    expect(outcomes).toEqual([
+      { status: 'succeeded' },
+      { status: 'not-started', remainingMs: -500 },
+      { status: 'not-started', remainingMs: -500 },
+    ]);
+  });
+});
@@ -0,0 +1,105 @@
+import { App } from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import { coreBusPolicyStatement, CoreBusPolicyProps } from '../src/bus-policy';
+import { StackRps, StackRpsProps } from '../src/stack-rps';
+
+const RPS_PROPS: StackRpsProps = {
+  prefix: 'dev',
+  accountCoreId: '111111111111',
+  stackCoreInputBucketName: 'dev-input-bucket',
+  stackCoreOutputBucketName: 'dev-output-bucket',
+  region: 'eu-central-1',
+  environmentTier: 'dev',
+  env: { account: '222222222222', region: 'eu-central-1' },
+};
+
+function busPolicyStatement(props: Partial<StackRpsProps>) {
+  const stack = new StackRps(new App(), 'TestStackRps', { ...RPS_PROPS, ...props });
+  const [sharedBus] = Object.values(Template.fromStack(stack).findResources('Custom::SharedEventBus'));
+  return sharedBus.Properties.Statement;
+}
+
+describe('RPS bus policy', () => {
+  test('Allows the Core account root with source account and Core rule conditions', () => {
+    expect(busPolicyStatement({ deploymentPrefix: 'john', existingEventBusName: 'shared-dev-bus' })).toEqual({
+      Sid: 'AllowCoreAccount-dev-john',
+      Effect: 'Allow',
+      Principal: { AWS: 'arn:aws:iam::111111111111:root' },
+      Action: 'events:PutEvents',
+      Resource: 'arn:aws:events:eu-central-1:222222222222:event-bus/shared-dev-bus',
+      Condition: {
+        StringEquals: { 'aws:SourceAccount': ['111111111111'] },
+        ArnLike: { 'aws:SourceArn': ['arn:aws:events:eu-central-1:111111111111:rule/dev-*input-events'] },
+      },
+    });
+  });
+
+  test('Scopes to the organization and accepts several Core accounts and the DR standby rules', () => {
+    const statement = busPolicyStatement({
+      additionalCoreAccountIds: ['333333333333'],
+      coreOrganizationId: 'o-a1b2c3d4e5',
+      coreReplicaRegion: 'eu-west-1',
+      pipelines: [{
+        name: 'default',
+        inputBucketName: 'dev-input-bucket',
+        outputBucketName: 'dev-output-bucket',
+        replicaInputBucketName: 'dev-replica-input-bucket',
+        replicaOutputBucketName: 'dev-replica-output-bucket',
+      }],
+      stackCoreInputBucketName: undefined,
+      stackCoreOutputBucketName: undefined,
+    });
+
+    expect(statement).toEqual({
+      Sid: 'AllowCoreAccount-dev',
+      Effect: 'Allow',
+      Principal: { AWS: '*' },
+      Action: 'events:PutEvents',
+      Resource: 'arn:aws:events:eu-central-1:222222222222:event-bus/dev-cross-account-bus',
+      Condition: {
+        StringEquals: {
+          'aws:PrincipalOrgID': 'o-a1b2c3d4e5',
+          'aws:SourceAccount': ['111111111111', '333333333333'],
+        },
+        ArnLike: {
+          'aws:SourceArn': [
+            'arn:aws:events:eu-central-1:111111111111:rule/dev-*input-events',
+            'arn:aws:events:eu-west-1:111111111111:rule/dev-*input-events',
+            'arn:aws:events:eu-central-1:333333333333:rule/dev-*input-events',
+            'arn:aws:events:eu-west-1:333333333333:rule/dev-*input-events',
+          ],
+        },
+      },
+    });
+  });
+
+  test('Receive rule accepts events from every Core account the bus policy allows', () => {
+    const stack = new StackRps(new App(), 'TestStackRps', { ...RPS_PROPS, additionalCoreAccountIds: ['333333333333'] });
+    const template = Template.fromStack(stack);
+
+    const [sharedBus] = Object.values(template.findResources('Custom::SharedEventBus'));
+    expect(sharedBus.Properties.Statement.Principal).toEqual({ AWS: ['arn:aws:iam::111111111111:root', 'arn:aws:iam::333333333333:root'] });
+    expect(sharedBus.Properties.Statement.Condition.StringEquals).toEqual({ 'aws:SourceAccount': ['111111111111', '333333333333'] });
+    template.hasResourceProperties('AWS::Events::Rule', {
+      Name: 'dev-receive-s3-events',
+      EventPattern: Match.objectLike({ account: ['111111111111', '333333333333'] }),
+    });
+  });
+
+  test('Validates bus policy inputs', () => {
+    const props: CoreBusPolicyProps = {
+      statementId: 'AllowCoreAccount-dev',
+      eventBusArn: 'arn:aws:events:eu-central-1:222222222222:event-bus/dev-cross-account-bus',
+      coreAccountIds: ['111111111111'],
+      coreRuleArns: ['arn:aws:events:eu-central-1:111111111111:rule/dev-*input-events'],
+    };
+
+    expect(() => coreBusPolicyStatement({ ...props, coreAccountIds: [] })).toThrow('CoreBusPolicy: at least one Core account ID is required');
+    expect(() => coreBusPolicyStatement({ ...props, coreAccountIds: ['1111'] })).toThrow('Core account IDs must be 12-digit AWS account IDs, got: 1111');
+    expect(() => coreBusPolicyStatement({ ...props, coreAccountIds: ['111111111111', '111111111111'] })).toThrow('duplicate Core account ID: 111111111111');
+    expect(() => coreBusPolicyStatement({ ...props, organizationId: 'my-org' })).toThrow('organizationId must be an AWS Organizations ID');
+    expect(() => coreBusPolicyStatement({ ...props, coreRuleArns: [] })).toThrow('at least one Core rule ARN is required');
+    expect(() => new StackRps(new App(), 'TestStackRps', { ...RPS_PROPS, additionalCoreAccountIds: ['111111111111'] }))
+      .toThrow('duplicate Core account ID: 111111111111');
+  });
+});
@@ -0,0 +1,173 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { App } from 'aws-cdk-lib';
+import { ConfigValidationError, formatResolvedConfig, loadConfig } from '../src/config';
+
+describe('Config loader', () => {
+  let configDir: string;
+
+  beforeEach(() => {
+    configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'config-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(configDir, { recursive: true, force: true });
+  });
+
+  test('Resolves values from env vars with defaults for stage and region', () => {
+    const app = new App();
+    const resolved = loadConfig(app.node, {
+      configDir,
+      env: { ENVIRONMENT_TIER: 'dev', ACCOUNT_CORE_ID: '111111111111', ACCOUNT_RPS_ID: '222222222222' },
+    });
+
+    expect(resolved.config).toEqual({
+      stage: 'dev',
+      environmentTier: 'dev',
+      region: 'eu-west-1',
+      accountCoreId: '111111111111',
+      accountRpsId: '222222222222',
+    });
+    expect(resolved.sources).toEqual({
+      stage: 'default',
+      environmentTier: 'env',
+      region: 'default',
+      accountCoreId: 'env',
+      accountRpsId: 'env',
+    });
+    expect(resolved.configFile).toBeUndefined();
+  });
+
+  test('Applies precedence: context > env > config file > defaults', () => {
+    fs.writeFileSync(path.join(configDir, 'staging.yaml'), [
+      'environmentTier: staging',
+      'region: eu-central-1',
+      'accountCoreId: \'333333333333\'',
+      'accountRpsId: \'444444444444\'',
+      'existingEventBusName: shared-bus',
+    ].join('\n'));
+
+    const app = new App({ context: { stage: 'staging', accountRpsId: '666666666666' } });
+    const resolved = loadConfig(app.node, {
+      configDir,
+      env: { STAGE: 'ignored', ACCOUNT_CORE_ID: '555555555555', ACCOUNT_RPS_ID: '777777777777' },
+    });
+
+    expect(resolved.configFile).toBe(path.join(configDir, 'staging.yaml'));
+    expect(resolved.config).toEqual({
+      stage: 'staging',
+      environmentTier: 'staging',
+      region: 'eu-central-1',
+      accountCoreId: '555555555555',
+      accountRpsId: '666666666666',
+      existingEventBusName: 'shared-bus',
+    });
+    expect(resolved.sources).toEqual({
+      stage: 'context',
+      environmentTier: 'file',
+      region: 'file',
+      accountCoreId: 'env',
+      accountRpsId: 'context',
+      existingEventBusName: 'file',
+    });
+  });
+
+  test('Reads JSON config files', () => {
+    fs.writeFileSync(path.join(configDir, 'prod.json'), JSON.stringify({
+      accountCoreId: '333333333333',
+      accountRpsId: '444444444444',
+    }));
+
+    const app = new App();
+    const resolved = loadConfig(app.node, { configDir, env: { STAGE: 'prod', ENVIRONMENT_TIER: 'prod' } });
+
+    expect(resolved.config.accountCoreId).toBe('333333333333');
+    expect(resolved.sources.accountCoreId).toBe('file');
+  });
+
+  test('Fails with all validation errors instead of falling back to fake account IDs', () => {
+    fs.writeFileSync(path.join(configDir, 'dev.yaml'), [
+      'accountCoreId: 111111111111', // Unquoted - parsed as number
+      'unknownKey: value',
+    ].join('\n'));
+
+    const app = new App();
+    let caught: unknown;
+    try {
+      loadConfig(app.node, { configDir, env: { REGION: 'not-a-region', CDK_DEPLOYMENT_PREFIX: 'john/doe', DELETION_HANDLING: 'purge', OUTPUT_KEY_TEMPLATES: 'orders={key}', DR_FAILOVER: 'true', CORE_ORGANIZATION_ID: 'org-1' } });
+    } catch (error) {
+      caught = error;
+    }
+
+    expect(caught).toBeInstanceOf(ConfigValidationError);
+    const errors = (caught as ConfigValidationError).errors;
+    expect(errors).toEqual(expect.arrayContaining([
+      expect.stringContaining('unknown key \'unknownKey\''),
+      expect.stringContaining('region must be an AWS region such as eu-west-1 (from env REGION)'),
+      expect.stringContaining('accountCoreId must be a string (from config file)'),
+      expect.stringContaining('accountRpsId is required'),
+      expect.stringContaining('environmentTier is required'),
+      expect.stringContaining('deploymentPrefix must be lowercase letters, digits and hyphens (no slashes)'),
+      expect.stringContaining('deletionHandling must be one of ignore, delete, tombstone (from env DELETION_HANDLING)'),
+      expect.stringContaining('outputKeyTemplates entry for unknown pipeline \'orders\', expected one of: default'),
+      expect.stringContaining('drFailover requires drReplicaRegion'),
+      expect.stringContaining('coreOrganizationId must be an AWS Organizations ID such as o-a1b2c3d4e5 (from env CORE_ORGANIZATION_ID)'),
+    ]));
+  });
+
+  test('Formats resolved config with value sources', () => {
+    const app = new App({ context: { region: 'eu-central-1', environmentTier: 'dev' } });
+    const resolved = loadConfig(app.node, {
+      configDir,
+      env: { ACCOUNT_CORE_ID: '111111111111', ACCOUNT_RPS_ID: '222222222222' },
+    });
+
+    const output = formatResolvedConfig(resolved);
+
+    expect(output).toContain('Config file: (none)');
+    expect(output).toMatch(/region\s+eu-central-1\s+\[context region\]/);
+    expect(output).toMatch(/accountCoreId\s+111111111111\s+\[env ACCOUNT_CORE_ID\]/);
+    expect(output).toMatch(/deploymentPrefix\s+\(unset\)/);
+  });
+
+  test('Parses pipeline lists from env and config files', () => {
+    fs.writeFileSync(path.join(configDir, 'dev.yaml'), [
+      'pipelines:',
+      '  - orders',
+      '  - invoices',
+    ].join('\n'));
+
+    const base = { ENVIRONMENT_TIER: 'dev', ACCOUNT_CORE_ID: '111111111111', ACCOUNT_RPS_ID: '222222222222' };
+
+    const fromFile = loadConfig(new App().node, { configDir, env: base });
+    expect(fromFile.config.pipelines).toEqual(['orders', 'invoices']);
+
+    const fromEnv = loadConfig(new App().node, { configDir, env: { ...base, PIPELINES: 'default, orders' } });
+    expect(fromEnv.config.pipelines).toEqual(['default', 'orders']);
+    expect(fromEnv.sources.pipelines).toBe('env');
+
+    expect(() => loadConfig(new App().node, { configDir, env: { ...base, PIPELINES: 'orders,Bad_Name' } }))
+      .toThrow('pipelines entries must be');
+  });
+
+  test('Parses drFailover to a boolean from env, context and config files', () => {
+    fs.writeFileSync(path.join(configDir, 'dev.yaml'), [
+      'drReplicaRegion: eu-central-1',
+      'drFailover: true', // YAML boolean
+    ].join('\n'));
+
+    const base = { ENVIRONMENT_TIER: 'dev', ACCOUNT_CORE_ID: '111111111111', ACCOUNT_RPS_ID: '222222222222' };
+
+    expect(loadConfig(new App().node, { configDir, env: base }).config.drFailover).toBe(true);
+    expect(loadConfig(new App().node, { configDir, env: { ...base, DR_FAILOVER: 'false' } }).config.drFailover).toBe(false);
+    expect(loadConfig(new App({ context: { drFailover: 'false' } }).node, { configDir, env: base }).config.drFailover).toBe(false);
+
+    for (const value of ['True', '1', 'yes']) {
+      expect(() => loadConfig(new App().node, { configDir, env: { ...base, DR_FAILOVER: value } }))
+        .toThrow(`drFailover must be true or false (from env DR_FAILOVER), got: '${value}'`);
+    }
+    fs.writeFileSync(path.join(configDir, 'dev.yaml'), 'drFailover: 1\n');
+    expect(() => loadConfig(new App().node, { configDir, env: base })).toThrow('drFailover must be true or false (from config file), got: \'1\'');
+  });
+});
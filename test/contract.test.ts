@@ -0,0 +1,188 @@
+import { App } from 'aws-cdk-lib';
+import { addDeploymentStacks } from '../src/app';
+import { main } from '../src/cli';
+import { CoreContract, readContracts, RpsContract, verifyContracts } from '../src/contract';
+import { StackCore } from '../src/stack-core';
+import { StackRps } from '../src/stack-rps';
+
+const BUCKETS = {
+  name: 'default',
+  inputBucketName: 'dev-core-input-bucket-111111111111-eu-central-1',
+  outputBucketName: 'dev-core-output-bucket-111111111111-eu-central-1',
+};
+
+describe('Cross-account contract', () => {
+  test('Core and RPS stacks write agreeing contract files at synth time', async () => {
+    const app = new App();
+    addDeploymentStacks(app, {
+      stage: 'dev',
+      environmentTier: 'dev',
+      region: 'eu-central-1',
+      accountCoreId: '111111111111',
+      accountRpsId: '222222222222',
+      deploymentPrefix: 'john',
+      existingEventBusName: 'shared-dev-bus',
+    });
+    const assembly = app.synth();
+
+    const contracts = readContracts(assembly.directory);
+    expect(contracts.map((contract) => contract.stackId)).toEqual(['dev-StackCore', 'dev-john-StackRps']);
+    expect(contracts[1]).toEqual({
+      version: 1,
+      side: 'rps',
+      stackId: 'dev-john-StackRps',
+      stage: 'dev',
+      deploymentPrefix: 'john',
+      accountId: '222222222222',
+      region: 'eu-central-1',
+      coreAccountId: '111111111111',
+      eventBusArn: 'arn:aws:events:eu-central-1:222222222222:event-bus/shared-dev-bus',
+      busPolicyStatement: {
+        statementId: 'AllowCoreAccount-dev-john',
+        sourceAccounts: ['111111111111'],
+        sourceArns: ['arn:aws:events:eu-central-1:111111111111:rule/dev-*input-events'],
+      },
+      processorRoleName: 'dev-john-processor-lambda-role',
+      s3AccessRoleArn: 'arn:aws:iam::111111111111:role/dev-s3-access-role',
+      externalIdProvided: false,
+      pipelines: [BUCKETS],
+      manifestBucketName: 'dev-core-manifest-bucket-111111111111-eu-central-1',
+    });
+    expect((contracts[0] as CoreContract).eventBusTargets).toEqual([
+      {
+        consumer: 'default',
+        accountId: '222222222222',
+        eventBusArn: 'arn:aws:events:eu-central-1:222222222222:event-bus/shared-dev-bus',
+        ruleArns: ['arn:aws:events:eu-central-1:111111111111:rule/dev-s3-input-events'],
+      },
+    ]);
+    expect(verifyContracts(contracts)).toEqual([]);
+
+    const out: string[] = [];
+    expect(await main(['contract', 'verify', '--app', assembly.directory], { out: (line) => out.push(line), err: () => undefined })).toBe(0);
+    expect(out).toEqual(['Contract verified: dev-StackCore, dev-john-StackRps']);
+  });
+
+  test('Lists the DR standby rules as Core rules the bus policy must accept', () => {
+    const app = new App();
+    addDeploymentStacks(app, {
+      stage: 'dev',
+      environmentTier: 'dev',
+      region: 'eu-central-1',
+      accountCoreId: '111111111111',
+      accountRpsId: '222222222222',
+      drReplicaRegion: 'eu-west-1',
+    });
+    const contracts = readContracts(app.synth().directory);
+
+    const core = contracts.find((contract): contract is CoreContract => contract.side === 'core')!;
+    expect(core.eventBusTargets[0].ruleArns).toEqual([
+      'arn:aws:events:eu-central-1:111111111111:rule/dev-s3-input-events',
+      'arn:aws:events:eu-west-1:111111111111:rule/dev-s3-replica-input-events',
+    ]);
+    expect(verifyContracts(contracts)).toEqual([]);
+
+    // A bus policy accepting the primary region only rejects the standby rule
+    const rps = contracts.find((contract): contract is RpsContract => contract.side === 'rps')!;
+    const primaryOnly = { ...rps.busPolicyStatement, sourceArns: ['arn:aws:events:eu-central-1:111111111111:rule/dev-*input-events'] };
+    expect(verifyContracts([core, { ...rps, busPolicyStatement: primaryOnly }])).toEqual([
+      'dev-StackRps / dev-StackCore: bus policy statement \'AllowCoreAccount-dev\' does not accept the Core rules '
+      + 'arn:aws:events:eu-west-1:111111111111:rule/dev-s3-replica-input-events',
+    ]);
+  });
+
+  test('Verify fails when the Core and RPS views disagree', async () => {
+    const app = new App();
+    const env = { region: 'eu-central-1' };
+    new StackCore(app, 'dev-StackCore', {
+      prefix: 'dev',
+      accountRpsId: '222222222222',
+      region: 'eu-central-1',
+      environmentTier: 'dev',
+      s3AccessRoleExternalId: 'dev-processor-7f3a',
+      env: { ...env, account: '111111111111' },
+    });
+    new StackRps(app, 'dev-StackRps', {
+      prefix: 'dev',
+      accountCoreId: '111111111111',
+      pipelines: [{ ...BUCKETS, outputBucketName: 'dev-core-output-bucket' }],
+      region: 'eu-central-1',
+      environmentTier: 'dev',
+      existingEventBusName: 'shared-dev-bus',
+      env: { ...env, account: '222222222222' },
+    });
+    const assembly = app.synth();
+
+    const out: string[] = [];
+    expect(await main(['contract', 'verify', '--app', assembly.directory], { out: (line) => out.push(line), err: () => undefined })).toBe(1);
+    expect(out).toEqual([
+      'Mismatch: dev-StackRps / dev-StackCore: RPS bus arn:aws:events:eu-central-1:222222222222:event-bus/shared-dev-bus is not targeted by the Core rules '
+      + '(targets in account 222222222222: arn:aws:events:eu-central-1:222222222222:event-bus/dev-cross-account-bus)',
+      'Mismatch: dev-StackRps / dev-StackCore: the S3AccessRole requires an ExternalId the RPS stack does not pass',
+      'Mismatch: dev-StackRps / dev-StackCore: pipeline \'default\' outputBucketName: RPS uses dev-core-output-bucket, '
+      + 'Core provides dev-core-output-bucket-111111111111-eu-central-1',
+    ]);
+  });
+
+  test('Verify checks trust, bus policy statements and the Core counterpart', () => {
+    const core: CoreContract = {
+      version: 1,
+      side: 'core',
+      stackId: 'prod-StackCore',
+      stage: 'prod',
+      accountId: '333333333333',
+      region: 'eu-central-1',
+      s3AccessRole: {
+        arn: 'arn:aws:iam::333333333333:role/prod-s3-access-role',
+        trustedRoles: [{ accountId: '444444444444', rolePatterns: ['prod-processor-lambda-role'] }],
+        externalIdRequired: false,
+      },
+      eventBusTargets: [{
+        consumer: 'default',
+        accountId: '444444444444',
+        eventBusArn: 'arn:aws:events:eu-central-1:444444444444:event-bus/prod-cross-account-bus',
+        ruleArns: ['arn:aws:events:eu-central-1:333333333333:rule/prod-s3-input-events'],
+      }],
+      pipelines: [],
+      manifestBucketName: 'prod-core-manifest-bucket-333333333333-eu-central-1',
+    };
+    const rps: RpsContract = {
+      version: 1,
+      side: 'rps',
+      stackId: 'prod-StackRps',
+      stage: 'prod',
+      accountId: '444444444444',
+      region: 'eu-central-1',
+      coreAccountId: '333333333333',
+      eventBusArn: 'arn:aws:events:eu-central-1:444444444444:event-bus/prod-cross-account-bus',
+      busPolicyStatement: {
+        statementId: 'AllowCoreAccount-prod',
+        sourceAccounts: ['333333333333'],
+        sourceArns: ['arn:aws:events:eu-central-1:333333333333:rule/prod-*input-events'],
+      },
+      processorRoleName: 'prod-processor-lambda-role',
+      s3AccessRoleArn: 'arn:aws:iam::333333333333:role/prod-s3-access-role',
+      externalIdProvided: false,
+      pipelines: [],
+    };
+
+    expect(verifyContracts([core, rps])).toEqual([]);
+    expect(verifyContracts([core, { ...rps, processorRoleName: 'prod-john-processor-lambda-role' }])).toEqual([
+      'prod-StackRps / prod-StackCore: processor role prod-john-processor-lambda-role in account 444444444444 is not trusted by the S3AccessRole',
+    ]);
+    expect(verifyContracts([core, rps, { ...rps, stackId: 'prod-copy-StackRps' }])).toEqual([
+      'arn:aws:events:eu-central-1:444444444444:event-bus/prod-cross-account-bus: bus policy statement \'AllowCoreAccount-prod\' is used by more than one RPS stack',
+    ]);
+    expect(verifyContracts([core, { ...rps, busPolicyStatement: { ...rps.busPolicyStatement, sourceAccounts: ['555555555555'] } }])).toEqual([
+      'prod-StackRps / prod-StackCore: bus policy statement \'AllowCoreAccount-prod\' allows 555555555555, not the Core account 333333333333',
+    ]);
+    expect(verifyContracts([core, {
+      ...rps,
+      busPolicyStatement: { ...rps.busPolicyStatement, sourceArns: ['arn:aws:events:eu-west-1:333333333333:rule/prod-*input-events'] },
+    }])).toEqual([
+      'prod-StackRps / prod-StackCore: bus policy statement \'AllowCoreAccount-prod\' does not accept the Core rules '
+      + 'arn:aws:events:eu-central-1:333333333333:rule/prod-s3-input-events',
+    ]);
+    expect(verifyContracts([rps])).toEqual(['prod-StackRps: no Core contract for stage \'prod\' in account 333333333333']);
+  });
+});
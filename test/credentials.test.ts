@@ -0,0 +1,92 @@
+import { AssumeRoleCommand, STSClient } from '@aws-sdk/client-sts';
+import { AssumeRoleCredentialProvider, executionEnvironmentId, roleSessionName } from '../lambda/credentials';
+
+const ROLE_ARN = 'arn:aws:iam::111111111111:role/dev-s3-access-role';
+
+function assumeRoleResponse(sequence: number, expiration: Date) {
+  return {
+    Credentials: {
+      AccessKeyId: `AKIA${sequence}`,
+      SecretAccessKey: `secret-${sequence}`,
+      SessionToken: `token-${sequence}`,
+      Expiration: expiration,
+    },
+  };
+}
+
+describe('Assume role credential provider', () => {
+  const start = new Date('2026-01-01T00:00:00.000Z');
+  const expiresAt = new Date('2026-01-01T01:00:00.000Z');
+  let send: jest.Mock;
+  let provider: AssumeRoleCredentialProvider;
+
+  beforeEach(() => {
+    send = jest.fn()
+      .mockResolvedValueOnce(assumeRoleResponse(1, expiresAt))
+      .mockResolvedValueOnce(assumeRoleResponse(2, new Date('2026-01-01T02:00:00.000Z')));
+    provider = new AssumeRoleCredentialProvider({ send } as unknown as STSClient, {
+      roleArn: ROLE_ARN,
+      sessionNamePrefix: 'dev-john-processor',
+      externalId: 'ext-123',
+      sessionTags: { deployment: 'john' },
+    }, '0123abcd4567');
+  });
+
+  test('Assumes the role with a traceable session name, ExternalId and session tags', async () => {
+    await expect(provider.getCredentials(start)).resolves.toEqual({
+      accessKeyId: 'AKIA1',
+      secretAccessKey: 'secret-1',
+      sessionToken: 'token-1',
+      expiration: expiresAt,
+    });
+
+    const command = send.mock.calls[0][0] as AssumeRoleCommand;
+    expect(command.input).toEqual({
+      RoleArn: ROLE_ARN,
+      RoleSessionName: 'dev-john-processor-0123abcd4567-1',
+      DurationSeconds: 3600,
+      ExternalId: 'ext-123',
+      Tags: [{ Key: 'deployment', Value: 'john' }],
+    });
+  });
+
+  test('Reuses credentials until the refresh window, then refreshes with a new session name', async () => {
+    await provider.getCredentials(start);
+    await provider.getCredentials(new Date('2026-01-01T00:54:59.000Z'));
+    expect(send).toHaveBeenCalledTimes(1);
+
+    // Inside the 5-minute refresh window
+    const refreshed = await provider.getCredentials(new Date('2026-01-01T00:55:00.000Z'));
+    expect(refreshed.accessKeyId).toBe('AKIA2');
+    expect(send).toHaveBeenCalledTimes(2);
+    expect((send.mock.calls[1][0] as AssumeRoleCommand).input.RoleSessionName).toBe('dev-john-processor-0123abcd4567-2');
+  });
+
+  test('Concurrent callers share one AssumeRole call', async () => {
+    const results = await Promise.all([provider.provide(), provider.provide(), provider.provide()]);
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(new Set(results.map((credentials) => credentials.accessKeyId))).toEqual(new Set(['AKIA1']));
+  });
+
+  test('Fails when STS returns no credentials and retries on the next call', async () => {
+    send.mockReset()
+      .mockResolvedValueOnce({})
+      .mockResolvedValueOnce(assumeRoleResponse(3, expiresAt));
+
+    await expect(provider.getCredentials(start)).rejects.toThrow(`Failed to assume role ${ROLE_ARN}: no credentials returned`);
+    await expect(provider.getCredentials(start)).resolves.toMatchObject({ accessKeyId: 'AKIA3' });
+  });
+
+  test('Session names stay within 64 characters and keep the traceable suffix', () => {
+    const name = roleSessionName('staging-a-very-long-deployment-prefix-name-processor', '0123abcd4567', 12);
+
+    expect(name.length).toBeLessThanOrEqual(64);
+    expect(name).toMatch(/^[\w+=,.@-]+-0123abcd4567-12$/);
+  });
+
+  test('Derives the execution environment ID from the Lambda log stream name', () => {
+    expect(executionEnvironmentId('2026/01/01/[$LATEST]0123abcd4567890fedcba98765432101')).toBe('0123abcd4567');
+    expect(executionEnvironmentId(undefined)).toMatch(/^[0-9a-f]{12}$/);
+  });
+});
@@ -0,0 +1,89 @@
+import { App, Duration, Stack } from 'aws-cdk-lib';
+import { Template } from 'aws-cdk-lib/assertions';
+import { CrossAccountRole, CrossAccountRoleProps } from '../src/cross-account-trust';
+import { ENVIRONMENT_TIERS } from '../src/environment-tier';
+import { StackCore } from '../src/stack-core';
+
+function roleProperties(stack: Stack, roleName: string) {
+  const roles = Template.fromStack(stack).findResources('AWS::IAM::Role', { Properties: { RoleName: roleName } });
+  const [role] = Object.values(roles);
+  return {
+    AssumeRolePolicyDocument: role.Properties.AssumeRolePolicyDocument,
+    MaxSessionDuration: role.Properties.MaxSessionDuration,
+  };
+}
+
+describe('Cross-account trust', () => {
+  test.each(ENVIRONMENT_TIERS)('S3AccessRole trust policy for the %s tier', (environmentTier) => {
+    const stack = new StackCore(new App(), 'TestStackCore', {
+      prefix: environmentTier,
+      consumers: [
+        { name: 'default', accountId: '222222222222' },
+        { name: 'analytics', accountId: '333333333333' },
+      ],
+      region: 'eu-central-1',
+      environmentTier,
+      s3AccessRoleExternalId: `${environmentTier}-processor-7f3a`,
+      env: { account: '111111111111', region: 'eu-central-1' },
+    });
+
+    expect(roleProperties(stack, `${environmentTier}-s3-access-role`)).toMatchSnapshot();
+  });
+
+  test('Generates statements from typed inputs', () => {
+    const stack = new Stack(new App(), 'TestStack');
+    new CrossAccountRole(stack, 'Role', {
+      roleName: 'shared-reader',
+      trustedRoles: [
+        { accountId: '222222222222', rolePatterns: ['reader', 'auditor'] },
+        { accountId: '333333333333', rolePatterns: ['team-*-reader'] },
+      ],
+      requiredSessionTags: { team: '${aws:PrincipalTag/team}' },
+      sourceVpcIds: ['vpc-0123456789abcdef0'],
+      maxSessionDuration: Duration.hours(4),
+    });
+
+    expect(roleProperties(stack, 'shared-reader')).toEqual({
+      AssumeRolePolicyDocument: {
+        Version: '2012-10-17',
+        Statement: [
+          {
+            Effect: 'Allow',
+            Principal: { AWS: ['arn:aws:iam::222222222222:role/reader', 'arn:aws:iam::222222222222:role/auditor'] },
+            Action: ['sts:AssumeRole', 'sts:TagSession'],
+            Condition: {
+              'StringEquals': { 'aws:RequestTag/team': '${aws:PrincipalTag/team}', 'aws:SourceVpc': ['vpc-0123456789abcdef0'] },
+              'ForAllValues:StringEquals': { 'aws:TagKeys': ['team'] },
+            },
+          },
+          {
+            Effect: 'Allow',
+            Principal: { AWS: 'arn:aws:iam::333333333333:root' },
+            Action: ['sts:AssumeRole', 'sts:TagSession'],
+            Condition: {
+              'StringEquals': { 'aws:RequestTag/team': '${aws:PrincipalTag/team}', 'aws:SourceVpc': ['vpc-0123456789abcdef0'] },
+              'ForAllValues:StringEquals': { 'aws:TagKeys': ['team'] },
+              'StringLike': { 'aws:PrincipalArn': ['arn:aws:iam::333333333333:role/team-*-reader'] },
+            },
+          },
+        ],
+      },
+      MaxSessionDuration: 14400,
+    });
+  });
+
+  test('Validates trust inputs', () => {
+    const base: CrossAccountRoleProps = {
+      roleName: 'shared-reader',
+      trustedRoles: [{ accountId: '222222222222', rolePatterns: ['reader'] }],
+    };
+    const create = (props: Partial<CrossAccountRoleProps>) => () => new CrossAccountRole(new Stack(), 'Role', { ...base, ...props });
+
+    expect(create({ trustedRoles: [] })).toThrow('trustedRoles must contain at least one account');
+    expect(create({ trustedRoles: [{ accountId: '2222', rolePatterns: ['reader'] }] })).toThrow('accountId must be a 12-digit AWS account ID');
+    expect(create({ trustedRoles: [{ accountId: '222222222222', rolePatterns: ['*'] }] })).toThrow('role pattern must be a role name');
+    expect(create({ trustedRoles: [{ accountId: '222222222222', rolePatterns: ['path/reader'] }] })).toThrow('role pattern must be a role name');
+    expect(create({ externalId: 'x' })).toThrow('externalId must be 2-1224 characters');
+    expect(create({ maxSessionDuration: Duration.hours(13) })).toThrow('maxSessionDuration must be between 1 and 12 hours');
+  });
+});
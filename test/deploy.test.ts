@@ -0,0 +1,137 @@
+import * as path from 'path';
+import { App } from 'aws-cdk-lib';
+import * as cxapi from 'aws-cdk-lib/cx-api';
+import { addDeploymentStacks } from '../src/app';
+import { main } from '../src/cli';
+import { DeploymentConfig } from '../src/config';
+import { deploymentWaves, runDeployment } from '../src/deploy';
+
+const CONFIGS: Record<string, DeploymentConfig> = {
+  dev: { stage: 'dev', environmentTier: 'dev', region: 'eu-central-1', accountCoreId: '111111111111', accountRpsId: '222222222222' },
+  prod: { stage: 'prod', environmentTier: 'prod', region: 'eu-central-1', accountCoreId: '333333333333', accountRpsId: '444444444444' },
+};
+const PROFILES = {
+  111111111111: 'core-dev',
+  222222222222: 'rps-dev',
+  333333333333: 'core-prod',
+  444444444444: 'rps-prod',
+};
+
+function synth(config: DeploymentConfig): cxapi.CloudAssembly {
+  const app = new App();
+  addDeploymentStacks(app, config);
+  return app.synth();
+}
+
+function stackIds(waves: { stackId: string }[][]): string[][] {
+  return waves.map((wave) => wave.map((step) => step.stackId));
+}
+
+describe('Deployment order', () => {
+  const assemblies: Record<string, cxapi.CloudAssembly> = {};
+
+  beforeAll(() => {
+    for (const [stage, config] of Object.entries(CONFIGS)) {
+      assemblies[stage] = synth(config);
+    }
+  });
+
+  /**
+   * Stands in for the cdk CLI: synth returns the in-process assemblies, deploy fails for the given stacks
+   */
+  function fakeCdk(failingStacks: string[] = []) {
+    const commands: string[][] = [];
+    const output: string[] = [];
+    const io = {
+      out: (line: string) => output.push(line),
+      run: async (command: string, args: string[]) => {
+        commands.push([command, ...args]);
+        return args[1] === 'deploy' && args.some((arg) => failingStacks.includes(arg)) ? 1 : 0;
+      },
+      loadAssembly: (directory: string) => assemblies[path.basename(directory)],
+    };
+    return { commands, output, io };
+  }
+
+  test('Deploys the RPS stack before the Core stack whose rules target its bus', () => {
+    expect(stackIds(deploymentWaves(assemblies.dev))).toEqual([['dev-StackRps'], ['dev-StackCore']]);
+    expect(deploymentWaves(assemblies.dev)[0][0]).toEqual({
+      stackId: 'dev-StackRps',
+      stackName: 'dev-rps-stack',
+      account: '222222222222',
+      region: 'eu-central-1',
+      dependsOn: [],
+    });
+  });
+
+  test('Deploys the DR replica stack before the Core stack', () => {
+    const assembly = synth({ ...CONFIGS.dev, drReplicaRegion: 'eu-west-1', deploymentPrefix: 'john' });
+
+    expect(stackIds(deploymentWaves(assembly))).toEqual([['dev-john-StackRps', 'dev-StackCoreReplica'], ['dev-StackCore']]);
+  });
+
+  test('Synthesizes every stage first, then promotes stage by stage with one command per account', async () => {
+    const { commands, output, io } = fakeCdk();
+
+    await runDeployment({ stages: ['dev', 'prod'], profiles: PROFILES, outdir: 'out', requireApproval: 'broadening' }, io);
+
+    expect(commands).toEqual([
+      ['npx', 'cdk', 'synth', '--quiet', '--context', 'stage=dev', '--output', path.join('out', 'dev')],
+      ['npx', 'cdk', 'synth', '--quiet', '--context', 'stage=prod', '--output', path.join('out', 'prod')],
+      ...[
+        ['dev', 'dev-StackRps', 'rps-dev'],
+        ['dev', 'dev-StackCore', 'core-dev'],
+        ['prod', 'prod-StackRps', 'rps-prod'],
+        ['prod', 'prod-StackCore', 'core-prod'],
+      ].map(([stage, stackId, profile]) => [
+        'npx', 'cdk', 'deploy', '--app', path.join('out', stage), '--exclusively', stackId,
+        '--profile', profile, '--require-approval', 'broadening',
+      ]),
+    ]);
+    expect(output).toContain('  Wave 1: prod-StackRps (444444444444/eu-central-1)');
+    expect(output).toContain('Stage prod deployed');
+  });
+
+  test('Stops promotion at the first failed deployment', async () => {
+    const { commands, io } = fakeCdk(['dev-StackCore']);
+
+    await expect(runDeployment({ stages: ['dev', 'prod'], profiles: PROFILES }, io))
+      .rejects.toThrow("dev-StackCore of stage 'dev' failed (exit code 1) - not promoted to prod");
+    expect(commands.filter((command) => command[2] === 'deploy').map((command) => command[6])).toEqual(['dev-StackRps', 'dev-StackCore']);
+  });
+
+  test('Dry run prints the plan without deploying', async () => {
+    const { commands, output, io } = fakeCdk();
+
+    await runDeployment({ stages: ['dev'], profiles: PROFILES, dryRun: true }, io);
+
+    expect(commands.map((command) => command[2])).toEqual(['synth']);
+    expect(output).toEqual([
+      `Stage dev (${path.join('cdk.out', 'stages', 'dev')})`,
+      '  Wave 1: dev-StackRps (222222222222/eu-central-1)',
+      '  Wave 2: dev-StackCore (111111111111/eu-central-1)',
+    ]);
+  });
+
+  test('Requires a profile per account before deploying anything', async () => {
+    const { commands, io } = fakeCdk();
+
+    await expect(runDeployment({ stages: ['dev', 'prod'], profiles: { 111111111111: 'core-dev', 222222222222: 'rps-dev' } }, io))
+      .rejects.toThrow("stage 'prod' spans accounts 444444444444, 333333333333 - specify --profile <account>=<profile> for 444444444444, 333333333333");
+    expect(commands.filter((command) => command[2] === 'deploy')).toEqual([]);
+  });
+
+  test('CLI validates deploy options', async () => {
+    const err: string[] = [];
+    const io = { out: () => undefined, err: (line: string) => err.push(line) };
+
+    expect(await main(['deploy'], io)).toBe(2);
+    expect(await main(['deploy', '--stages', 'dev', '--profile', 'core-dev'], io)).toBe(2);
+    expect(await main(['deploy', '--stages', 'dev', '--require-approval', 'always'], io)).toBe(2);
+    expect(err.map((message) => message.split('\n')[0])).toEqual([
+      'Specify --stages',
+      '--profile must be <12-digit account ID>=<profile>, got: core-dev',
+      '--require-approval must be one of never, any-change, broadening, got: always',
+    ]);
+  });
+});
@@ -0,0 +1,244 @@
+import {
+  ChangeMessageVisibilityBatchCommand,
+  DeleteMessageBatchCommand,
+  GetQueueUrlCommand,
+  ReceiveMessageCommand,
+  SendMessageBatchCommand,
+} from '@aws-sdk/client-sqs';
+import { main } from '../src/cli';
+import { decodeDlqMessage, formatDlqTable, listDlqMessages, processorQueueNames, redriveMessages } from '../src/dlq';
+
+interface StoredMessage {
+  id: string;
+  body: string;
+  receiveCount: number;
+  visible: boolean;
+  receiptHandle?: string;
+}
+
+/**
+ * In-memory SQS stand-in: visibility, receive counts and batch send/delete/visibility calls
+ */
+class LocalSqs {
+  readonly queues = new Map<string, StoredMessage[]>();
+  failSendBodies = new Set<string>();
+  private counter = 0;
+
+  constructor(queueNames: string[]) {
+    queueNames.forEach((name) => this.queues.set(this.url(name), []));
+  }
+
+  url(name: string): string {
+    return `http://localhost:9324/000000000000/${name}`;
+  }
+
+  enqueue(name: string, body: string): string {
+    const id = `msg-${++this.counter}`;
+    this.queues.get(this.url(name))!.push({ id, body, receiveCount: 0, visible: true });
+    return id;
+  }
+
+  bodies(name: string): string[] {
+    return this.queues.get(this.url(name))!.map((message) => message.body);
+  }
+
+  async send(command: unknown): Promise<unknown> {
+    if (command instanceof GetQueueUrlCommand) {
+      const url = this.url(command.input.QueueName!);
+      if (!this.queues.has(url)) {
+        throw new Error('AWS.SimpleQueueService.NonExistentQueue');
+      }
+      return { QueueUrl: url };
+    }
+    if (command instanceof ReceiveMessageCommand) {
+      const visible = this.queue(command.input.QueueUrl).filter((message) => message.visible);
+      const batch = visible.slice(0, command.input.MaxNumberOfMessages ?? 1);
+      return {
+        Messages: batch.map((message) => {
+          message.visible = false;
+          message.receiveCount += 1;
+          message.receiptHandle = `${message.id}-${message.receiveCount}`;
+          return {
+            MessageId: message.id,
+            ReceiptHandle: message.receiptHandle,
+            Body: message.body,
+            Attributes: { ApproximateReceiveCount: String(message.receiveCount), SentTimestamp: '1767225600000' },
+          };
+        }),
+      };
+    }
+    if (command instanceof SendMessageBatchCommand) {
+      const entries = command.input.Entries!;
+      const failed = entries.filter((entry) => this.failSendBodies.has(entry.MessageBody!));
+      entries
+        .filter((entry) => !failed.includes(entry))
+        .forEach((entry) => this.queue(command.input.QueueUrl).push({
+          id: `msg-${++this.counter}`, body: entry.MessageBody!, receiveCount: 0, visible: true,
+        }));
+      return {
+        Successful: entries.filter((entry) => !failed.includes(entry)).map((entry) => ({ Id: entry.Id })),
+        Failed: failed.map((entry) => ({ Id: entry.Id, Code: 'InternalError', Message: 'Send failed', SenderFault: false })),
+      };
+    }
+    if (command instanceof DeleteMessageBatchCommand) {
+      const queue = this.queue(command.input.QueueUrl);
+      for (const entry of command.input.Entries!) {
+        queue.splice(queue.findIndex((message) => message.receiptHandle === entry.ReceiptHandle), 1);
+      }
+      return { Successful: command.input.Entries!.map((entry) => ({ Id: entry.Id })), Failed: [] };
+    }
+    if (command instanceof ChangeMessageVisibilityBatchCommand) {
+      const queue = this.queue(command.input.QueueUrl);
+      for (const entry of command.input.Entries!) {
+        queue.find((message) => message.receiptHandle === entry.ReceiptHandle)!.visible = true;
+      }
+      return { Successful: [], Failed: [] };
+    }
+    throw new Error(`Unsupported command: ${(command as object).constructor.name}`);
+  }
+
+  private queue(url: string | undefined): StoredMessage[] {
+    return this.queues.get(url!)!;
+  }
+}
+
+function s3Event(key: string, id: string = `event-${key}`): string {
+  return JSON.stringify({
+    'version': '0',
+    id,
+    'detail-type': 'Object Created',
+    'source': 'aws.s3',
+    'detail': {
+      bucket: { name: 'dev-core-input-bucket-111111111111-eu-central-1' },
+      object: { 'key': key, 'version-id': 'v1' },
+    },
+  });
+}
+
+const DLQ = 'dev-processor-dlq';
+const QUEUE = 'dev-processor-queue';
+
+describe('DLQ tooling', () => {
+  let sqs: LocalSqs;
+
+  beforeEach(() => {
+    sqs = new LocalSqs([DLQ, QUEUE]);
+  });
+
+  test('Derives queue names from the resource prefix and pipeline', () => {
+    expect(processorQueueNames('dev-john')).toEqual({
+      queueName: 'dev-john-processor-queue',
+      deadLetterQueueName: 'dev-john-processor-dlq',
+      quarantineQueueName: 'dev-john-processor-quarantine',
+    });
+    expect(processorQueueNames('dev', 'orders').deadLetterQueueName).toBe('dev-orders-processor-dlq');
+  });
+
+  test('Decodes wrapped S3 events and flags poison messages', () => {
+    const decoded = decodeDlqMessage({
+      MessageId: 'm1',
+      ReceiptHandle: 'r1',
+      Body: s3Event('input/file.csv', 'e1'),
+      Attributes: { ApproximateReceiveCount: '4' },
+    });
+    expect(decoded).toMatchObject({
+      eventId: 'e1',
+      bucket: 'dev-core-input-bucket-111111111111-eu-central-1',
+      key: 'input/file.csv',
+      versionId: 'v1',
+      receiveCount: 4,
+    });
+    expect(decoded.decodeError).toBeUndefined();
+
+    expect(decodeDlqMessage({
+      MessageId: 'm4',
+      Body: s3Event('input/my+file%281%29.csv', 'e4'),
+      MessageAttributes: { 'failure-reason': { DataType: 'String', StringValue: 'NoSuchVersion: gone' } },
+    })).toMatchObject({ key: 'input/my file(1).csv', failureReason: 'NoSuchVersion: gone' });
+
+    expect(decodeDlqMessage({ MessageId: 'm2', Body: 'not json' }).decodeError).toMatch(/not JSON/);
+    expect(decodeDlqMessage({ MessageId: 'm3', Body: '{"detail":{}}' }).decodeError).toMatch(/not an EventBridge S3 event/);
+  });
+
+  test('Lists messages without removing them from the DLQ', async () => {
+    sqs.enqueue(DLQ, s3Event('input/a.csv'));
+    sqs.enqueue(DLQ, 'garbage');
+
+    const messages = await listDlqMessages(sqs, sqs.url(DLQ));
+
+    expect(messages.map((message) => message.key)).toEqual(['input/a.csv', undefined]);
+    expect(sqs.queues.get(sqs.url(DLQ))!.every((message) => message.visible)).toBe(true);
+
+    const table = formatDlqTable(messages);
+    expect(table.split('\n')[0]).toMatch(/^MESSAGE ID\s+RECEIVES\s+SENT\s+BUCKET\s+KEY$/);
+    expect(table).toContain('input/a.csv');
+    expect(table).toContain('(Body is not JSON');
+  });
+
+  test('Redrives selected messages and leaves the rest in the DLQ', async () => {
+    const first = sqs.enqueue(DLQ, s3Event('input/a.csv'));
+    sqs.enqueue(DLQ, s3Event('input/b.csv'));
+
+    const result = await redriveMessages(sqs, {
+      sourceQueueUrl: sqs.url(DLQ),
+      targetQueueUrl: sqs.url(QUEUE),
+      messageIds: [first, 'msg-unknown'],
+    });
+
+    expect(result).toEqual({ redriven: [first], failed: [], notFound: ['msg-unknown'] });
+    expect(sqs.bodies(QUEUE)).toEqual([s3Event('input/a.csv')]);
+    expect(sqs.bodies(DLQ)).toEqual([s3Event('input/b.csv')]);
+    expect(sqs.queues.get(sqs.url(DLQ))![0].visible).toBe(true);
+  });
+
+  test('Keeps messages in the DLQ when the send fails', async () => {
+    sqs.enqueue(DLQ, s3Event('input/a.csv'));
+    sqs.enqueue(DLQ, s3Event('input/b.csv'));
+    sqs.failSendBodies.add(s3Event('input/b.csv'));
+
+    const result = await redriveMessages(sqs, { sourceQueueUrl: sqs.url(DLQ), targetQueueUrl: sqs.url(QUEUE) });
+
+    expect(result.redriven).toHaveLength(1);
+    expect(result.failed).toEqual([{ messageId: 'msg-2', reason: 'Send failed' }]);
+    expect(sqs.bodies(DLQ)).toEqual([s3Event('input/b.csv')]);
+    expect(sqs.queues.get(sqs.url(DLQ))![0].visible).toBe(true);
+  });
+
+  test('Paces redrive batches to the rate limit', async () => {
+    for (let i = 0; i < 25; i++) {
+      sqs.enqueue(DLQ, s3Event(`input/${i}.csv`));
+    }
+    const sleep = jest.fn().mockResolvedValue(undefined);
+    const progress: number[] = [];
+
+    const result = await redriveMessages(sqs, {
+      sourceQueueUrl: sqs.url(DLQ),
+      targetQueueUrl: sqs.url(QUEUE),
+      messagesPerSecond: 5,
+      sleep,
+      onProgress: ({ redriven }) => progress.push(redriven),
+    });
+
+    expect(result.redriven).toHaveLength(25);
+    expect(progress).toEqual([10, 20, 25]);
+    // The first batch goes out immediately, the next two wait for the previous batch of 10 at 5 messages/second
+    expect(sleep).toHaveBeenCalledTimes(2);
+    sleep.mock.calls.forEach(([ms]) => expect(ms).toBeGreaterThan(1900));
+    expect(sqs.bodies(DLQ)).toEqual([]);
+  });
+
+  test('CLI lists and redrives by prefix against the stand-in', async () => {
+    sqs.enqueue(DLQ, s3Event('input/a.csv'));
+    const out: string[] = [];
+    const io = { out: (line: string) => out.push(line), err: () => undefined, sqsClient: () => sqs };
+
+    await expect(main(['dlq', 'list', '--prefix', 'dev'], io)).resolves.toBe(0);
+    expect(out.join('\n')).toContain('input/a.csv');
+
+    await expect(main(['dlq', 'redrive', '--prefix', 'dev'], io)).resolves.toBe(2);
+
+    await expect(main(['dlq', 'redrive', '--prefix', 'dev', '--all', '--rate', '50'], io)).resolves.toBe(0);
+    expect(sqs.bodies(QUEUE)).toHaveLength(1);
+    expect(sqs.bodies(DLQ)).toHaveLength(0);
+  });
+});
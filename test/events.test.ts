@@ -0,0 +1,74 @@
+import { InvalidEventError, parseS3Event } from '../lambda/events';
+import { isPermanentFailure } from '../lambda/failures';
+
+const BUCKET = 'dev-core-input-bucket-111111111111-eu-central-1';
+
+function eventBody(detailType: string, object: Record<string, unknown>, detail: Record<string, unknown> = {}): string {
+  return JSON.stringify({
+    'version': '0',
+    'id': 'event-1',
+    'detail-type': detailType,
+    'source': 'aws.s3',
+    'time': '2026-01-05T10:00:00Z',
+    'detail': { bucket: { name: BUCKET }, object, ...detail },
+  });
+}
+
+describe('S3 event validation', () => {
+  test('Parses Object Created events and URL-decodes the key', () => {
+    const event = parseS3Event(eventBody('Object Created', {
+      'key': 'input/my+file%281%29.csv',
+      'size': 42,
+      'etag': 'abc123',
+      'version-id': 'v1',
+      'sequencer': '0062E99A88DC407460',
+    }, { 'backfill-run-id': 'run-1' }));
+
+    expect(event).toEqual({
+      detailType: 'Object Created',
+      id: 'event-1',
+      time: new Date('2026-01-05T10:00:00Z'),
+      bucket: BUCKET,
+      key: 'input/my file(1).csv',
+      versionId: 'v1',
+      sequencer: '0062E99A88DC407460',
+      size: 42,
+      etag: 'abc123',
+      backfillRunId: 'run-1',
+    });
+  });
+
+  test('Parses Object Deleted events without size or ETag', () => {
+    const event = parseS3Event(eventBody('Object Deleted', {
+      key: 'input/a.csv',
+      sequencer: '0062E99A88DC407461',
+    }, { 'deletion-type': 'Delete Marker Created' }));
+
+    expect(event).toMatchObject({ detailType: 'Object Deleted', key: 'input/a.csv', deletionType: 'Delete Marker Created' });
+  });
+
+  test('Reports every invalid field as a permanent failure', () => {
+    let error: unknown;
+    try {
+      parseS3Event(eventBody('Object Created', { key: 'input/a.csv', size: -1, sequencer: 'not-hex' }));
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(InvalidEventError);
+    expect(isPermanentFailure(error)).toBe(true);
+    expect((error as InvalidEventError).errors).toEqual([
+      'detail.object.sequencer must be a hex string',
+      'detail.object.size must be a non-negative integer',
+      'detail.object.etag must be a non-empty string',
+    ]);
+  });
+
+  test('Rejects bodies that are not S3 events', () => {
+    expect(() => parseS3Event('not json')).toThrow(/body is not valid JSON/);
+    expect(() => parseS3Event('[]')).toThrow('Invalid S3 event: body is not a JSON object');
+    expect(() => parseS3Event(eventBody('Object Restore Completed', {}))).toThrow(/detail-type must be 'Object Created' or 'Object Deleted'/);
+    expect(() => parseS3Event(eventBody('Object Deleted', { key: 'input/%E0%A4%A.csv', sequencer: '01' })))
+      .toThrow('detail.object.key is not a valid URL-encoded key');
+  });
+});
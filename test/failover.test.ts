@@ -0,0 +1,31 @@
+import { activeRoutes } from '../lambda/failover';
+
+const routes = [
+  {
+    name: 'default',
+    inputBucketName: 'dev-core-input-bucket-111111111111-eu-west-1',
+    outputBucketName: 'dev-core-output-bucket-111111111111-eu-west-1',
+    replicaInputBucketName: 'dev-core-input-bucket-111111111111-eu-central-1',
+    replicaOutputBucketName: 'dev-core-output-bucket-111111111111-eu-central-1',
+    outputKeyTemplate: 'processed/{key}',
+  },
+];
+
+describe('Core DR failover', () => {
+  test('Keeps the primary buckets unless failed over', () => {
+    expect(activeRoutes(routes, false)).toBe(routes);
+  });
+
+  test('Switches every route to its replica buckets', () => {
+    expect(activeRoutes(routes, true)).toEqual([{
+      ...routes[0],
+      inputBucketName: 'dev-core-input-bucket-111111111111-eu-central-1',
+      outputBucketName: 'dev-core-output-bucket-111111111111-eu-central-1',
+    }]);
+  });
+
+  test('Rejects failover for routes without replicas', () => {
+    expect(() => activeRoutes([{ name: 'orders', inputBucketName: 'in', outputBucketName: 'out' }], true))
+      .toThrow('Failover requires replica buckets for every pipeline, missing for pipeline \'orders\'');
+  });
+});
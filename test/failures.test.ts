@@ -0,0 +1,42 @@
+import { SendMessageCommand } from '@aws-sdk/client-sqs';
+import { SQSRecord } from 'aws-lambda';
+import { PermanentFailureError, isPermanentFailure, quarantineMessage } from '../lambda/failures';
+
+const QUARANTINE_URL = 'https://sqs.eu-central-1.amazonaws.com/222222222222/dev-processor-quarantine';
+
+describe('Failure classification and quarantine', () => {
+  test('Classifies failures that repeat on every retry as permanent', () => {
+    expect(isPermanentFailure(new PermanentFailureError('No pipeline configured for input bucket: other'))).toBe(true);
+    expect(isPermanentFailure(Object.assign(new Error('The specified version does not exist.'), { name: 'NoSuchVersion' }))).toBe(true);
+    expect(isPermanentFailure(Object.assign(new Error('At least one of the pre-conditions you specified did not hold'), { name: 'PreconditionFailed' }))).toBe(true);
+
+    expect(isPermanentFailure(Object.assign(new Error('Rate exceeded'), { name: 'SlowDown' }))).toBe(false);
+    expect(isPermanentFailure(new Error('socket hang up'))).toBe(false);
+    expect(isPermanentFailure(undefined)).toBe(false);
+  });
+
+  test('Quarantines the unchanged body with the failure reason', async () => {
+    const send = jest.fn().mockResolvedValue({});
+    const record = {
+      messageId: 'm1',
+      body: '{"broken":',
+      eventSourceARN: 'arn:aws:sqs:eu-central-1:222222222222:dev-processor-queue',
+    } as SQSRecord;
+
+    await quarantineMessage({ send }, QUARANTINE_URL, record, new PermanentFailureError('x'.repeat(2000)), undefined, new Date('2026-01-01T00:00:00Z'));
+
+    const command = send.mock.calls[0][0] as SendMessageCommand;
+    expect(command.input).toMatchObject({
+      QueueUrl: QUARANTINE_URL,
+      MessageBody: '{"broken":',
+      MessageAttributes: {
+        'failed-at': { DataType: 'String', StringValue: '2026-01-01T00:00:00.000Z' },
+        'source-message-id': { DataType: 'String', StringValue: 'm1' },
+        'source-queue-arn': { DataType: 'String', StringValue: record.eventSourceARN },
+      },
+    });
+    const reason = command.input.MessageAttributes!['failure-reason'].StringValue!;
+    expect(reason).toMatch(/^PermanentFailureError: x+$/);
+    expect(reason).toHaveLength(1024);
+  });
+});
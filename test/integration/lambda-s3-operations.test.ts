@@ -61,8 +61,9 @@ describe('Lambda S3 Cross-Account Operations', () => {
 
   test('Should read from input bucket and write to output bucket', async () => {
     const timestamp = Date.now();
-    const inputKey = `test-${timestamp}.txt`;
-    const outputKey = `test-${timestamp}.txt`;
+    // The dev deployment is scoped to 'default' - objects outside input/default/ are rejected
+    const inputKey = `input/default/test-${timestamp}.txt`;
+    const outputKey = `output/default/test-${timestamp}.txt`;
     const testContent = `Test content for integration test\nTimestamp: ${timestamp}\nTest scenario: Lambda S3 operations`;
 
     // Step 1: Upload test file to input bucket in Core Account
@@ -75,7 +76,7 @@ describe('Lambda S3 Cross-Account Operations', () => {
       ContentType: 'text/plain',
     });
 
-    await s3ClientCore.send(putCommand);
+    const putResult = await s3ClientCore.send(putCommand);
     console.log('Test file uploaded successfully');
 
     // Step 2: Wait for Lambda to process (real scenario uses EventBridge + SQS)
@@ -99,8 +100,11 @@ describe('Lambda S3 Cross-Account Operations', () => {
                 name: INPUT_BUCKET_NAME,
               },
               'object': {
-                key: inputKey,
-                size: testContent.length,
+                'key': inputKey,
+                'size': testContent.length,
+                'etag': putResult.ETag?.replace(/"/g, ''),
+                'version-id': putResult.VersionId,
+                'sequencer': timestamp.toString(16).toUpperCase(),
               },
               'request-id': `test-${timestamp}`,
               'requester': 'integration-test',
@@ -192,8 +196,10 @@ describe('Lambda S3 Cross-Account Operations', () => {
 
     // Verify metadata
     expect(getResult.Metadata).toBeDefined();
-    expect(getResult.Metadata?.sourceKey).toBe(inputKey);
-    expect(getResult.Metadata?.processedBy).toBe(PREFIX);
+    // S3 returns user metadata keys in lower case
+    expect(getResult.Metadata?.sourcekey).toBe(inputKey);
+    expect(getResult.Metadata?.processedby).toBe(PREFIX);
+    expect(getResult.Metadata?.sourceversionid).toBe(putResult.VersionId);
 
     console.log('Output file content verified successfully');
 
@@ -253,7 +259,7 @@ describe('Lambda S3 Cross-Account Operations', () => {
             'account': ACCOUNT_CORE_ID,
             'time': new Date().toISOString(),
             'region': REGION,
-            'resources': [`arn:aws:s3:::non-existent-bucket/dummy.txt`],
+            'resources': ['arn:aws:s3:::non-existent-bucket/dummy.txt'],
             'detail': {
               'version': '0',
               'bucket': {
@@ -292,8 +298,8 @@ describe('Lambda S3 Cross-Account Operations', () => {
       new TextDecoder().decode(invokeResult.Payload),
     );
 
-    // The failed record should be in batchItemFailures
-    expect(responsePayload.batchItemFailures?.length).toBeGreaterThan(0);
+    // Events for unknown buckets are permanent failures - quarantined instead of returned for retry
+    expect(responsePayload.batchItemFailures).toEqual([]);
 
     console.log('Lambda correctly handled restricted access scenario');
   });
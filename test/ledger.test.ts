@@ -0,0 +1,81 @@
+import { ConditionalCheckFailedException, DynamoDBClient, PutItemCommand } from '@aws-sdk/client-dynamodb';
+import { ProcessingLedger, ledgerObjectId } from '../lambda/ledger';
+
+const ledgerKey = { bucket: 'dev-input-bucket', key: 'input/file.csv', versionId: 'v1', etag: 'abc123' };
+
+function conditionalCheckFailed(item?: Record<string, { S: string }>): ConditionalCheckFailedException {
+  const error = new ConditionalCheckFailedException({ message: 'The conditional request failed', $metadata: {} });
+  error.Item = item;
+  return error;
+}
+
+describe('Processing ledger', () => {
+  let send: jest.Mock;
+  let ledger: ProcessingLedger;
+
+  beforeEach(() => {
+    send = jest.fn();
+    ledger = new ProcessingLedger({ send } as unknown as DynamoDBClient, 'dev-processing-ledger', {
+      leaseSeconds: 60,
+      ttlDays: 30,
+    });
+  });
+
+  test('Keys entries on bucket, key, version ID, ETag and backfill run', () => {
+    expect(ledgerObjectId(ledgerKey)).toBe('dev-input-bucket/input/file.csv#v1#abc123');
+    expect(ledgerObjectId({ ...ledgerKey, versionId: undefined })).toBe('dev-input-bucket/input/file.csv#null#abc123');
+    expect(ledgerObjectId({ ...ledgerKey, backfillRunId: 'run-1' })).toBe('dev-input-bucket/input/file.csv#v1#abc123#backfill:run-1');
+  });
+
+  test('Claims new object versions with a conditional put', async () => {
+    send.mockResolvedValueOnce({});
+    const now = new Date('2026-01-01T00:00:00.000Z');
+
+    await expect(ledger.claim(ledgerKey, 'message-1', now)).resolves.toEqual({ status: 'claimed' });
+
+    const command = send.mock.calls[0][0] as PutItemCommand;
+    expect(command.input.Item).toMatchObject({
+      objectId: { S: 'dev-input-bucket/input/file.csv#v1#abc123' },
+      status: { S: 'IN_PROGRESS' },
+      messageId: { S: 'message-1' },
+      expiresAt: { N: String(now.getTime() / 1000 + 30 * 24 * 60 * 60) },
+    });
+    expect(command.input.ExpressionAttributeValues?.[':staleBefore']).toEqual({ S: '2025-12-31T23:59:00.000Z' });
+  });
+
+  test('Reports completed versions as duplicates', async () => {
+    send.mockRejectedValueOnce(conditionalCheckFailed({
+      status: { S: 'COMPLETED' },
+      completedAt: { S: '2026-01-01T00:00:00.000Z' },
+      messageId: { S: 'message-0' },
+    }));
+
+    await expect(ledger.claim(ledgerKey, 'message-1')).resolves.toEqual({
+      status: 'duplicate',
+      completedAt: '2026-01-01T00:00:00.000Z',
+      messageId: 'message-0',
+    });
+  });
+
+  test('Reports unexpired claims as in progress', async () => {
+    send.mockRejectedValueOnce(conditionalCheckFailed({
+      status: { S: 'IN_PROGRESS' },
+      claimedAt: { S: '2026-01-01T00:00:00.000Z' },
+      messageId: { S: 'message-0' },
+    }));
+
+    await expect(ledger.claim(ledgerKey, 'message-1')).resolves.toMatchObject({ status: 'in-progress', messageId: 'message-0' });
+  });
+
+  test('Propagates other DynamoDB errors', async () => {
+    send.mockRejectedValueOnce(new Error('Throttled'));
+
+    await expect(ledger.claim(ledgerKey, 'message-1')).rejects.toThrow('Throttled');
+  });
+
+  test('Release ignores claims held by another message', async () => {
+    send.mockRejectedValueOnce(conditionalCheckFailed());
+
+    await expect(ledger.release(ledgerKey, 'message-1')).resolves.toBeUndefined();
+  });
+});
@@ -1,7 +1,10 @@
 import { App } from 'aws-cdk-lib';
 import { Template, Match } from 'aws-cdk-lib/assertions';
+import { EnvironmentTier } from '../src/environment-tier';
+import { PROCESSOR_METRICS_NAMESPACE } from '../src/processor-metrics';
 import { StackCore } from '../src/stack-core';
-import { StackRps } from '../src/stack-rps';
+import { StackCoreReplica } from '../src/stack-core-replica';
+import { LogLevel, StackRps } from '../src/stack-rps';
 
 describe('Core Stack', () => {
   test('Creates S3 bucket with proper configuration', () => {
@@ -10,6 +13,7 @@ describe('Core Stack', () => {
       prefix: 'test',
       accountRpsId: '222222222222',
       region: 'eu-central-1',
+      environmentTier: 'test',
       env: { account: '111111111111', region: 'eu-central-1' },
     });
 
@@ -46,6 +50,7 @@ describe('Core Stack', () => {
       prefix: 'prod',
       accountRpsId: '222222222222',
       region: 'eu-central-1',
+      environmentTier: 'prod',
       env: { account: '111111111111', region: 'eu-central-1' },
     });
 
@@ -64,6 +69,7 @@ describe('Core Stack', () => {
       prefix: 'dev',
       accountRpsId: '222222222222',
       region: 'eu-central-1',
+      environmentTier: 'dev',
       env: { account: '111111111111', region: 'eu-central-1' },
     });
 
@@ -85,6 +91,7 @@ describe('Core Stack', () => {
         prefix: '',
         accountRpsId: '222222222222',
         region: 'eu-central-1',
+        environmentTier: 'dev',
         env: { account: '111111111111', region: 'eu-central-1' },
       });
     }).toThrow('prefix is required');
@@ -95,6 +102,7 @@ describe('Core Stack', () => {
         prefix: 'test',
         accountRpsId: 'invalid',
         region: 'eu-central-1',
+        environmentTier: 'test',
         env: { account: '111111111111', region: 'eu-central-1' },
       });
     }).toThrow('12-digit AWS account ID');
@@ -105,6 +113,7 @@ describe('Core Stack', () => {
         prefix: 'test',
         accountRpsId: '222222222222',
         region: '',
+        environmentTier: 'test',
         env: { account: '111111111111', region: 'eu-central-1' },
       });
     }).toThrow('region is required');
@@ -116,6 +125,7 @@ describe('Core Stack', () => {
       prefix: 'dev',
       accountRpsId: '222222222222',
       region: 'eu-central-1',
+      environmentTier: 'dev',
       env: { account: '111111111111', region: 'eu-central-1' },
     });
 
@@ -133,9 +143,15 @@ describe('Core Stack', () => {
             Principal: {
               AWS: 'arn:aws:iam::222222222222:root', // AccountPrincipal format
             },
-            Action: 'sts:AssumeRole',
+            Action: ['sts:AssumeRole', 'sts:TagSession'],
             Condition: {
-              StringLike: {
+              'StringEquals': {
+                'aws:RequestTag/deployment': '${aws:PrincipalTag/deployment}',
+              },
+              'ForAllValues:StringEquals': {
+                'aws:TagKeys': ['deployment'],
+              },
+              'StringLike': {
                 'aws:PrincipalArn': [
                   'arn:aws:iam::222222222222:role/dev-processor-lambda-role',
                   'arn:aws:iam::222222222222:role/dev-*-processor-lambda-role',
@@ -152,7 +168,7 @@ describe('Core Stack', () => {
       PolicyDocument: {
         Statement: Match.arrayWith([
           Match.objectLike({
-            Action: Match.arrayWith(['s3:GetObject*', 's3:GetBucket*', 's3:List*']),
+            Action: 's3:GetObject*',
             Effect: 'Allow',
           }),
         ]),
@@ -160,199 +176,1623 @@ describe('Core Stack', () => {
       Roles: [{ Ref: Match.stringLikeRegexp('S3AccessRole') }],
     });
   });
-});
-
-describe('RPS Stack', () => {
-  test('Creates Lambda function with SQS trigger', () => {
+  test('Uses explicit environment tier instead of prefix substring', () => {
     const app = new App();
-    const stack = new StackRps(app, 'TestStackRps', {
-      prefix: 'test',
-      accountCoreId: '111111111111',
-      stackCoreInputBucketName: 'test-input-bucket',
-      stackCoreOutputBucketName: 'test-output-bucket',
+    // Prefix contains 'dev' but tier is prod - must get prod behaviour
+    const stack = new StackCore(app, 'TestStackCore', {
+      prefix: 'devops-prod',
+      accountRpsId: '222222222222',
       region: 'eu-central-1',
-      env: { account: '222222222222', region: 'eu-central-1' },
+      environmentTier: 'prod',
+      env: { account: '111111111111', region: 'eu-central-1' },
     });
 
     const template = Template.fromStack(stack);
 
-    // Verify SQS queue exists
-    template.hasResourceProperties('AWS::SQS::Queue', {
-      QueueName: 'test-processor-queue',
-    });
-
-    // Verify Lambda function exists
-    template.hasResourceProperties('AWS::Lambda::Function', {
-      Runtime: 'nodejs22.x',
-      FunctionName: 'test-s3-processor',
+    template.hasResource('AWS::KMS::Key', {
+      DeletionPolicy: 'Retain',
+      UpdateReplacePolicy: 'Retain',
     });
 
-    // Verify EventBridge rule for cross-account events
-    template.hasResourceProperties('AWS::Events::Rule', {
-      EventPattern: {
-        'account': ['111111111111'],
-        'source': ['aws.s3'],
-        'detail-type': ['Object Created'],
+    // No wildcard trust policy - specific processor role only
+    template.hasResourceProperties('AWS::IAM::Role', {
+      RoleName: 'devops-prod-s3-access-role',
+      AssumeRolePolicyDocument: {
+        Statement: [
+          Match.objectLike({
+            Principal: {
+              AWS: 'arn:aws:iam::222222222222:role/devops-prod-processor-lambda-role',
+            },
+            Action: 'sts:AssumeRole',
+          }),
+        ],
       },
     });
+
+    // No auto-delete custom resource for buckets
+    template.resourceCountIs('Custom::S3AutoDeleteObjects', 0);
   });
 
-  test('Uses RETAIN removal policy for production environments', () => {
+  test('Applies tier policy table for test tier', () => {
     const app = new App();
-    const stack = new StackRps(app, 'TestStackRps', {
-      prefix: 'prod',
-      accountCoreId: '111111111111',
-      stackCoreInputBucketName: 'prod-input-bucket',
-      stackCoreOutputBucketName: 'prod-output-bucket',
+    const stack = new StackCore(app, 'TestStackCore', {
+      prefix: 'qa',
+      accountRpsId: '222222222222',
       region: 'eu-central-1',
-      env: { account: '222222222222', region: 'eu-central-1' },
+      environmentTier: 'test',
+      env: { account: '111111111111', region: 'eu-central-1' },
     });
 
     const template = Template.fromStack(stack);
 
-    // KMS key should have RETAIN policy for prod
+    // Test tier: DESTROY + auto-delete, but no deployment wildcards in the trust policy
     template.hasResource('AWS::KMS::Key', {
-      DeletionPolicy: 'Retain',
-      UpdateReplacePolicy: 'Retain',
+      DeletionPolicy: 'Delete',
+    });
+    template.resourceCountIs('Custom::S3AutoDeleteObjects', 4); // Input, output, manifest and access logs buckets
+    template.hasResourceProperties('AWS::IAM::Role', {
+      RoleName: 'qa-s3-access-role',
+      AssumeRolePolicyDocument: {
+        Statement: [
+          Match.objectLike({
+            Principal: {
+              AWS: 'arn:aws:iam::222222222222:role/qa-processor-lambda-role',
+            },
+          }),
+        ],
+      },
     });
   });
 
-  test('Uses DESTROY removal policy for dev environments', () => {
+  test('Validates environment tier', () => {
     const app = new App();
-    const stack = new StackRps(app, 'TestStackRps', {
+
+    expect(() => {
+      new StackCore(app, 'TestInvalidTier', {
+        prefix: 'test',
+        accountRpsId: '222222222222',
+        region: 'eu-central-1',
+        environmentTier: 'production' as EnvironmentTier,
+        env: { account: '111111111111', region: 'eu-central-1' },
+      });
+    }).toThrow('environmentTier must be one of dev, test, staging, prod');
+  });
+  test('Creates buckets, rule and scoped grants per pipeline', () => {
+    const app = new App();
+    const stack = new StackCore(app, 'TestStackCore', {
       prefix: 'dev',
-      accountCoreId: '111111111111',
-      stackCoreInputBucketName: 'dev-input-bucket',
-      stackCoreOutputBucketName: 'dev-output-bucket',
+      accountRpsId: '222222222222',
       region: 'eu-central-1',
-      env: { account: '222222222222', region: 'eu-central-1' },
+      environmentTier: 'dev',
+      pipelines: [{ name: 'default' }, { name: 'orders' }],
+      env: { account: '111111111111', region: 'eu-central-1' },
     });
 
     const template = Template.fromStack(stack);
 
-    // KMS key should have DELETE policy for dev
-    template.hasResource('AWS::KMS::Key', {
-      DeletionPolicy: 'Delete',
-      UpdateReplacePolicy: 'Delete',
+    // Default pipeline keeps original names, named pipelines follow {prefix}-{pipeline}-core-*-bucket-*
+    template.hasResourceProperties('AWS::S3::Bucket', {
+      BucketName: 'dev-core-input-bucket-111111111111-eu-central-1',
+    });
+    template.hasResourceProperties('AWS::S3::Bucket', {
+      BucketName: 'dev-orders-core-input-bucket-111111111111-eu-central-1',
+    });
+    template.hasResourceProperties('AWS::S3::Bucket', {
+      BucketName: 'dev-orders-core-output-bucket-111111111111-eu-central-1',
+    });
+
+    // One EventBridge rule per pipeline, filtering its own input bucket
+    template.hasResourceProperties('AWS::Events::Rule', {
+      Name: 'dev-orders-s3-input-events',
+      EventPattern: {
+        detail: {
+          bucket: {
+            name: [{ Ref: Match.stringLikeRegexp('OrdersInputBucket') }],
+          },
+        },
+      },
+    });
+    template.resourceCountIs('AWS::Events::Rule', 2);
+
+    // S3AccessRole grants reference each pipeline's buckets
+    const policies = template.findResources('AWS::IAM::Policy', {
+      Properties: { Roles: [{ Ref: Match.stringLikeRegexp('S3AccessRole') }] },
+    });
+    const policyJson = JSON.stringify(policies);
+    expect(policyJson).toMatch(/OrdersInputBucket/);
+    expect(policyJson).toMatch(/OrdersOutputBucket/);
+
+    template.hasOutput('OrdersInputBucketName', {
+      Export: { Name: 'dev-StackCore-orders-InputBucketName' },
+    });
+    template.hasOutput('InputBucketName', {
+      Export: { Name: 'dev-StackCore-InputBucketName' },
     });
   });
 
-  test('Validates required props', () => {
+  test('Validates pipelines', () => {
     const app = new App();
 
-    // Empty prefix should throw
     expect(() => {
-      new StackRps(app, 'TestInvalidPrefix', {
-        prefix: '',
-        accountCoreId: '111111111111',
-        stackCoreInputBucketName: 'test-input-bucket',
-        stackCoreOutputBucketName: 'test-output-bucket',
+      new StackCore(app, 'TestDuplicatePipelines', {
+        prefix: 'dev',
+        accountRpsId: '222222222222',
         region: 'eu-central-1',
-        env: { account: '222222222222', region: 'eu-central-1' },
+        environmentTier: 'dev',
+        pipelines: [{ name: 'orders' }, { name: 'orders' }],
+        env: { account: '111111111111', region: 'eu-central-1' },
       });
-    }).toThrow('prefix is required');
+    }).toThrow('duplicate pipeline name: orders');
 
-    // Invalid account ID should throw
     expect(() => {
-      new StackRps(app, 'TestInvalidAccount', {
-        prefix: 'test',
-        accountCoreId: 'invalid',
-        stackCoreInputBucketName: 'test-input-bucket',
-        stackCoreOutputBucketName: 'test-output-bucket',
+      new StackCore(app, 'TestInvalidPipelineName', {
+        prefix: 'dev',
+        accountRpsId: '222222222222',
         region: 'eu-central-1',
-        env: { account: '222222222222', region: 'eu-central-1' },
+        environmentTier: 'dev',
+        pipelines: [{ name: 'Orders_Feed' }],
+        env: { account: '111111111111', region: 'eu-central-1' },
       });
-    }).toThrow('12-digit AWS account ID');
+    }).toThrow('pipeline name must be');
+  });
+
+  test('Scopes the S3AccessRole output grant to the output key template prefix', () => {
+    const app = new App();
+    const stack = new StackCore(app, 'TestStackCore', {
+      prefix: 'test',
+      accountRpsId: '222222222222',
+      region: 'eu-central-1',
+      environmentTier: 'test',
+      pipelines: [{ name: 'default' }, { name: 'orders', outputKeyTemplate: 'processed/year={year}/month={month}/{filename}' }],
+      env: { account: '111111111111', region: 'eu-central-1' },
+    });
+
+    const policyJson = JSON.stringify(Template.fromStack(stack).findResources('AWS::IAM::Policy', {
+      Properties: { Roles: [{ Ref: Match.stringLikeRegexp('S3AccessRole') }] },
+    }));
+    // Static text before the first variable, default template keeps the whole bucket
+    expect(policyJson).toContain('/processed/year=*');
+    expect(policyJson).toMatch(/OutputBucket[^"]*","Arn"\]\},"\/\*"/);
 
-    // Invalid deploymentPrefix should throw
     expect(() => {
-      new StackRps(app, 'TestInvalidDeployment', {
-        prefix: 'test',
-        accountCoreId: '111111111111',
-        stackCoreInputBucketName: 'test-input-bucket',
-        stackCoreOutputBucketName: 'test-output-bucket',
+      new StackCore(app, 'TestInvalidTemplate', {
+        prefix: 'dev',
+        accountRpsId: '222222222222',
         region: 'eu-central-1',
-        deploymentPrefix: 'invalid/path',
-        env: { account: '222222222222', region: 'eu-central-1' },
+        environmentTier: 'dev',
+        pipelines: [{ name: 'orders', outputKeyTemplate: '{date}/{uuid}' }],
+        env: { account: '111111111111', region: 'eu-central-1' },
       });
-    }).toThrow('must not contain');
+    }).toThrow('outputKeyTemplate uses unknown variable(s) {uuid}');
   });
-
-  test('Handles deployment prefix correctly', () => {
+  test('Scopes S3AccessRole grants to the deployment session tag in dev', () => {
     const app = new App();
-    const stack = new StackRps(app, 'TestStackRps', {
+    const stack = new StackCore(app, 'TestStackCore', {
       prefix: 'dev',
-      accountCoreId: '111111111111',
-      stackCoreInputBucketName: 'dev-input-bucket',
-      stackCoreOutputBucketName: 'dev-output-bucket',
+      accountRpsId: '222222222222',
       region: 'eu-central-1',
-      deploymentPrefix: 'john',
-      env: { account: '222222222222', region: 'eu-central-1' },
+      environmentTier: 'dev',
+      pipelines: [{ name: 'orders', outputKeyTemplate: 'processed/{filename}' }],
+      env: { account: '111111111111', region: 'eu-central-1' },
     });
 
-    const template = Template.fromStack(stack);
-
-    // Queue name should include deployment prefix
-    template.hasResourceProperties('AWS::SQS::Queue', {
-      QueueName: 'dev-john-processor-queue',
+    const policies = Template.fromStack(stack).findResources('AWS::IAM::Policy', {
+      Properties: { Roles: [{ Ref: Match.stringLikeRegexp('S3AccessRole') }] },
     });
+    const statements = Object.values(policies).flatMap((policy) => policy.Properties.PolicyDocument.Statement);
+    const s3Resources = statements
+      .filter((statement) => [statement.Action].flat().some((action: string) => action.startsWith('s3:')))
+      .flatMap((statement) => [statement.Resource].flat())
+      .map((resource) => JSON.stringify(resource));
 
-    // Lambda should include deployment prefix
-    template.hasResourceProperties('AWS::Lambda::Function', {
-      FunctionName: 'dev-john-s3-processor',
-      Environment: {
-        Variables: {
-          CDK_DEPLOYMENT_PREFIX: 'john',
+    expect(s3Resources).toEqual(expect.arrayContaining([
+      expect.stringContaining('/input/${aws:PrincipalTag/deployment}/*'),
+      expect.stringContaining('/output/${aws:PrincipalTag/deployment}/processed/*'),
+    ]));
+    // No object access outside the deployment prefixes
+    expect(s3Resources.filter((resource) => /Orders(Input|Output)Bucket/.test(resource) && resource.endsWith('"/*"]]}'))).toEqual([]);
+  });
+  test('Fans out input bucket events to multiple RPS consumer accounts', () => {
+    const app = new App();
+    const stack = new StackCore(app, 'TestStackCore', {
+      prefix: 'prod',
+      consumers: [
+        { name: 'default', accountId: '222222222222' },
+        {
+          name: 'analytics',
+          accountId: '333333333333',
+          eventBusArn: 'arn:aws:events:eu-central-1:333333333333:event-bus/analytics-bus',
+          objectKeyFilters: [{ prefix: 'invoices/', suffix: '.csv' }, { suffix: '.json' }],
         },
-      },
+      ],
+      region: 'eu-central-1',
+      environmentTier: 'prod',
+      env: { account: '111111111111', region: 'eu-central-1' },
     });
 
-    // EventBridge rule should filter by input bucket
+    const template = Template.fromStack(stack);
+
+    // Default consumer keeps the original rule, analytics gets its own filtered rule and bus target
     template.hasResourceProperties('AWS::Events::Rule', {
+      Name: 'prod-s3-input-events',
+      Targets: [Match.objectLike({ Arn: 'arn:aws:events:eu-central-1:222222222222:event-bus/prod-cross-account-bus' })],
+    });
+    template.hasResourceProperties('AWS::Events::Rule', {
+      Name: 'prod-analytics-s3-input-events',
       EventPattern: {
         detail: {
-          bucket: {
-            name: ['dev-input-bucket'],
+          object: {
+            key: [{ wildcard: 'invoices/*.csv' }, { suffix: '.json' }],
           },
         },
       },
+      Targets: [Match.objectLike({ Arn: 'arn:aws:events:eu-central-1:333333333333:event-bus/analytics-bus' })],
+    });
+
+    // EventBridge role may put events on every consumer bus
+    template.hasResourceProperties('AWS::IAM::Policy', {
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          Match.objectLike({
+            Action: 'events:PutEvents',
+            Resource: [
+              'arn:aws:events:eu-central-1:222222222222:event-bus/prod-cross-account-bus',
+              'arn:aws:events:eu-central-1:333333333333:event-bus/analytics-bus',
+            ],
+          }),
+        ]),
+      },
+    });
+
+    // One trust entry per consumer account
+    template.hasResourceProperties('AWS::IAM::Role', {
+      RoleName: 'prod-s3-access-role',
+      AssumeRolePolicyDocument: {
+        Statement: [
+          Match.objectLike({ Principal: { AWS: 'arn:aws:iam::222222222222:role/prod-processor-lambda-role' } }),
+          Match.objectLike({ Principal: { AWS: 'arn:aws:iam::333333333333:role/prod-processor-lambda-role' } }),
+        ],
+      },
+    });
+
+    template.hasOutput('AnalyticsConsumerEventBusArn', {
+      Value: 'arn:aws:events:eu-central-1:333333333333:event-bus/analytics-bus',
+      Export: { Name: 'prod-StackCore-analytics-ConsumerEventBusArn' },
+    });
+    template.hasOutput('ConsumerAccountId', {
+      Value: '222222222222',
+      Export: { Name: 'prod-StackCore-ConsumerAccountId' },
     });
   });
 
-  test('Lambda role has AssumeRole permission for Core S3AccessRole', () => {
+  test('Adds a dev trust statement per consumer account', () => {
     const app = new App();
-    const stack = new StackRps(app, 'TestStackRps', {
+    const stack = new StackCore(app, 'TestStackCore', {
       prefix: 'dev',
-      accountCoreId: '111111111111',
-      stackCoreInputBucketName: 'dev-input-bucket',
-      stackCoreOutputBucketName: 'dev-output-bucket',
+      consumers: [
+        { name: 'default', accountId: '222222222222' },
+        { name: 'analytics', accountId: '333333333333' },
+      ],
       region: 'eu-central-1',
-      env: { account: '222222222222', region: 'eu-central-1' },
+      environmentTier: 'dev',
+      env: { account: '111111111111', region: 'eu-central-1' },
     });
 
     const template = Template.fromStack(stack);
 
-    // Lambda role should have AssumeRole permission
-    template.hasResourceProperties('AWS::IAM::Policy', {
-      PolicyDocument: {
-        Statement: Match.arrayWith([
+    template.hasResourceProperties('AWS::IAM::Role', {
+      RoleName: 'dev-s3-access-role',
+      AssumeRolePolicyDocument: {
+        Statement: [
+          Match.objectLike({ Principal: { AWS: 'arn:aws:iam::222222222222:root' } }),
           Match.objectLike({
-            Sid: 'AssumeCoreS3AccessRole',
-            Effect: 'Allow',
-            Action: 'sts:AssumeRole',
-            Resource: 'arn:aws:iam::111111111111:role/dev-s3-access-role',
+            Principal: { AWS: 'arn:aws:iam::333333333333:root' },
+            Condition: {
+              StringLike: {
+                'aws:PrincipalArn': [
+                  'arn:aws:iam::333333333333:role/dev-processor-lambda-role',
+                  'arn:aws:iam::333333333333:role/dev-*-processor-lambda-role',
+                ],
+              },
+            },
           }),
-        ]),
+        ],
       },
     });
+  });
 
-    // Lambda should have CORE_S3_ACCESS_ROLE_ARN environment variable
-    template.hasResourceProperties('AWS::Lambda::Function', {
-      Environment: {
-        Variables: {
-          CORE_S3_ACCESS_ROLE_ARN: 'arn:aws:iam::111111111111:role/dev-s3-access-role',
-        },
+  test('Requires the configured ExternalId in every S3AccessRole trust statement', () => {
+    const externalIdCondition = { StringEquals: { 'sts:ExternalId': 'ext-123' } };
+
+    const prodTemplate = Template.fromStack(new StackCore(new App(), 'TestStackCore', {
+      prefix: 'prod',
+      consumers: [
+        { name: 'default', accountId: '222222222222' },
+        { name: 'analytics', accountId: '333333333333' },
+      ],
+      region: 'eu-central-1',
+      environmentTier: 'prod',
+      s3AccessRoleExternalId: 'ext-123',
+      env: { account: '111111111111', region: 'eu-central-1' },
+    }));
+    prodTemplate.hasResourceProperties('AWS::IAM::Role', {
+      RoleName: 'prod-s3-access-role',
+      AssumeRolePolicyDocument: {
+        Statement: [
+          Match.objectLike({
+            Principal: { AWS: 'arn:aws:iam::222222222222:role/prod-processor-lambda-role' },
+            Condition: externalIdCondition,
+          }),
+          Match.objectLike({
+            Principal: { AWS: 'arn:aws:iam::333333333333:role/prod-processor-lambda-role' },
+            Condition: externalIdCondition,
+          }),
+        ],
       },
     });
+
+    const devTemplate = Template.fromStack(new StackCore(new App(), 'TestStackCore', {
+      prefix: 'dev',
+      accountRpsId: '222222222222',
+      region: 'eu-central-1',
+      environmentTier: 'dev',
+      s3AccessRoleExternalId: 'ext-123',
+      env: { account: '111111111111', region: 'eu-central-1' },
+    }));
+    devTemplate.hasResourceProperties('AWS::IAM::Role', {
+      RoleName: 'dev-s3-access-role',
+      AssumeRolePolicyDocument: {
+        Statement: [
+          Match.objectLike({
+            Condition: {
+              StringEquals: { 'sts:ExternalId': 'ext-123' },
+              StringLike: Match.anyValue(),
+            },
+          }),
+        ],
+      },
+    });
+  });
+
+  test('Validates consumers', () => {
+    const app = new App();
+    const base = {
+      prefix: 'dev',
+      region: 'eu-central-1',
+      environmentTier: 'dev' as EnvironmentTier,
+      env: { account: '111111111111', region: 'eu-central-1' },
+    };
+
+    expect(() => {
+      new StackCore(app, 'TestBothConsumerForms', {
+        ...base,
+        accountRpsId: '222222222222',
+        consumers: [{ name: 'analytics', accountId: '333333333333' }],
+      });
+    }).toThrow('specify either consumers or accountRpsId');
+
+    expect(() => {
+      new StackCore(app, 'TestNoConsumers', base);
+    }).toThrow('accountRpsId is required');
+
+    expect(() => {
+      new StackCore(app, 'TestInvalidConsumerBus', {
+        ...base,
+        consumers: [{ name: 'analytics', accountId: '333333333333', eventBusArn: 'analytics-bus' }],
+      });
+    }).toThrow('must be an EventBridge bus ARN');
+
+    expect(() => {
+      new StackCore(app, 'TestEmptyFilter', {
+        ...base,
+        consumers: [{ name: 'analytics', accountId: '333333333333', objectKeyFilters: [{}] }],
+      });
+    }).toThrow('need a prefix or suffix');
+  });
+  test('Encrypts input and output buckets with separate keys and conditioned grants', () => {
+    const app = new App();
+    const stack = new StackCore(app, 'TestStackCore', {
+      prefix: 'prod',
+      accountRpsId: '222222222222',
+      region: 'eu-central-1',
+      environmentTier: 'prod',
+      env: { account: '111111111111', region: 'eu-central-1' },
+    });
+
+    const template = Template.fromStack(stack);
+
+    template.hasResourceProperties('AWS::KMS::Alias', { AliasName: 'alias/prod-input-bucket-key' });
+    template.hasResourceProperties('AWS::KMS::Alias', { AliasName: 'alias/prod-output-bucket-key' });
+    for (const [bucketName, keyId] of [['prod-core-input-bucket', 'InputBucketKey'], ['prod-core-output-bucket', 'OutputBucketKey']]) {
+      template.hasResourceProperties('AWS::S3::Bucket', {
+        BucketName: Match.stringLikeRegexp(bucketName),
+        BucketEncryption: {
+          ServerSideEncryptionConfiguration: [
+            {
+              BucketKeyEnabled: true,
+              ServerSideEncryptionByDefault: {
+                SSEAlgorithm: 'aws:kms',
+                KMSMasterKeyID: { 'Fn::GetAtt': [Match.stringLikeRegexp(`^${keyId}`), 'Arn'] },
+              },
+            },
+          ],
+        },
+      });
+    }
+
+    const policies = template.findResources('AWS::IAM::Policy', {
+      Properties: { Roles: [{ Ref: Match.stringLikeRegexp('S3AccessRole') }] },
+    });
+    const kmsStatements = Object.values(policies)
+      .flatMap((policy) => policy.Properties.PolicyDocument.Statement)
+      .filter((statement) => [statement.Action].flat().some((action: string) => action.startsWith('kms:')));
+    const statementsFor = (keyId: string) => kmsStatements.filter((statement) => statement.Resource['Fn::GetAtt'][0].startsWith(keyId));
+    const statementFor = (keyId: string) => statementsFor(keyId)[0];
+    const viaS3 = { 'kms:ViaService': 's3.eu-central-1.amazonaws.com' };
+
+    expect(statementFor('InputBucketKey')).toMatchObject({
+      Action: 'kms:Decrypt',
+      Condition: { StringEquals: viaS3 },
+    });
+    expect(statementFor('InputBucketKey').Condition.StringEquals['kms:EncryptionContext:aws:s3:arn']['Fn::GetAtt'][0]).toMatch(/^InputBucket/);
+    expect(statementFor('OutputBucketKey')).toMatchObject({
+      Action: ['kms:GenerateDataKey', 'kms:Decrypt'],
+      Condition: { StringEquals: viaS3 },
+    });
+    expect(statementFor('OutputBucketKey').Condition.StringEquals['kms:EncryptionContext:aws:s3:arn']['Fn::GetAtt'][0]).toMatch(/^OutputBucket/);
+    // Shared key: decrypt for input objects written before the split, encrypt for manifest records
+    expect(statementsFor('BucketKey')).toEqual([
+      expect.objectContaining({ Action: 'kms:Decrypt', Condition: expect.objectContaining({ StringEquals: viaS3 }) }),
+      expect.objectContaining({ Action: 'kms:GenerateDataKey', Condition: expect.objectContaining({ StringEquals: viaS3 }) }),
+    ]);
+    // No unconditioned KMS grants
+    expect(kmsStatements.filter((statement) => statement.Condition === undefined)).toEqual([]);
+  });
+  test('Replicates input and output buckets to the DR replica region', () => {
+    const core = new StackCore(new App(), 'TestStackCore', {
+      prefix: 'prod',
+      accountRpsId: '222222222222',
+      region: 'eu-west-1',
+      environmentTier: 'prod',
+      drReplicaRegion: 'eu-central-1',
+      env: { account: '111111111111', region: 'eu-west-1' },
+    });
+    const coreTemplate = Template.fromStack(core);
+
+    coreTemplate.hasResourceProperties('AWS::IAM::Role', { RoleName: 'prod-core-replication-role' });
+    for (const kind of ['input', 'output']) {
+      coreTemplate.hasResourceProperties('AWS::S3::Bucket', {
+        BucketName: `prod-core-${kind}-bucket-111111111111-eu-west-1`,
+        ReplicationConfiguration: {
+          Role: { 'Fn::GetAtt': [Match.stringLikeRegexp('^ReplicationRole'), 'Arn'] },
+          Rules: [Match.objectLike({
+            Destination: {
+              Bucket: { 'Fn::Join': ['', ['arn:', { Ref: 'AWS::Partition' }, `:s3:::prod-core-${kind}-bucket-111111111111-eu-central-1`]] },
+              EncryptionConfiguration: {
+                ReplicaKmsKeyID: { 'Fn::Join': ['', ['arn:', { Ref: 'AWS::Partition' }, `:kms:eu-central-1:111111111111:alias/prod-${kind}-bucket-key`]] },
+              },
+            },
+            SourceSelectionCriteria: { SseKmsEncryptedObjects: { Status: 'Enabled' } },
+          })],
+        },
+      });
+    }
+    // S3AccessRole can use the replicas without a deployment in the primary region (replica keys matched by alias)
+    coreTemplate.hasResourceProperties('AWS::IAM::Policy', {
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          Match.objectLike({
+            Action: 'kms:Decrypt',
+            Condition: Match.objectLike({
+              'StringEquals': Match.objectLike({ 'kms:ViaService': 's3.eu-central-1.amazonaws.com' }),
+              'ForAnyValue:StringEquals': { 'kms:ResourceAliases': ['alias/prod-input-bucket-key'] },
+            }),
+          }),
+        ]),
+      },
+      Roles: [{ Ref: Match.stringLikeRegexp('S3AccessRole') }],
+    });
+
+    const replica = new StackCoreReplica(new App(), 'TestStackCoreReplica', {
+      prefix: 'prod',
+      accountRpsId: '222222222222',
+      region: 'eu-central-1',
+      primaryRegion: 'eu-west-1',
+      environmentTier: 'prod',
+      env: { account: '111111111111', region: 'eu-central-1' },
+    });
+    const replicaTemplate = Template.fromStack(replica);
+
+    replicaTemplate.hasResourceProperties('AWS::KMS::Alias', { AliasName: 'alias/prod-input-bucket-key' });
+    replicaTemplate.hasResourceProperties('AWS::S3::Bucket', {
+      BucketName: 'prod-core-input-bucket-111111111111-eu-central-1',
+      VersioningConfiguration: { Status: 'Enabled' },
+    });
+    // Standby path to the RPS bus in the primary region stays disabled until failover
+    replicaTemplate.hasResourceProperties('AWS::Events::Rule', {
+      Name: 'prod-s3-replica-input-events',
+      State: 'DISABLED',
+      Targets: [Match.objectLike({ Arn: 'arn:aws:events:eu-west-1:222222222222:event-bus/prod-cross-account-bus' })],
+    });
+
+    expect(() => new StackCore(new App(), 'TestInvalidReplica', {
+      prefix: 'prod',
+      accountRpsId: '222222222222',
+      region: 'eu-west-1',
+      environmentTier: 'prod',
+      drReplicaRegion: 'eu-west-1',
+    })).toThrow('drReplicaRegion must be a region other than eu-west-1');
+  });
+  test('Creates write-only manifest bucket for processing audit records', () => {
+    const app = new App();
+    const stack = new StackCore(app, 'TestStackCore', {
+      prefix: 'dev',
+      accountRpsId: '222222222222',
+      region: 'eu-central-1',
+      environmentTier: 'dev',
+      env: { account: '111111111111', region: 'eu-central-1' },
+    });
+
+    const template = Template.fromStack(stack);
+
+    template.hasResourceProperties('AWS::S3::Bucket', {
+      BucketName: 'dev-core-manifest-bucket-111111111111-eu-central-1',
+      VersioningConfiguration: { Status: 'Enabled' },
+    });
+
+    // S3AccessRole may put manifest records but not read or delete them
+    const policies = template.findResources('AWS::IAM::Policy', {
+      Properties: { Roles: [{ Ref: Match.stringLikeRegexp('S3AccessRole') }] },
+    });
+    const statements = Object.values(policies)
+      .flatMap((policy: any) => policy.Properties.PolicyDocument.Statement)
+      .filter((statement: any) => JSON.stringify(statement.Resource).includes('ManifestBucket'));
+    const actions = statements.flatMap((statement: any) => [statement.Action].flat());
+    expect(actions).toContain('s3:PutObject');
+    expect(actions).not.toContain('s3:GetObject*');
+    expect(actions).not.toContain('s3:DeleteObject*');
+
+    template.hasOutput('ManifestBucketName', {
+      Export: { Name: 'dev-StackCore-ManifestBucketName' },
+    });
+  });
+  test('Creates dashboard and FailedInvocations alarms for Core rules', () => {
+    const app = new App();
+    const stack = new StackCore(app, 'TestStackCore', {
+      prefix: 'prod',
+      accountRpsId: '222222222222',
+      region: 'eu-central-1',
+      environmentTier: 'prod',
+      pipelines: [{ name: 'default' }, { name: 'orders' }],
+      alarmTopicArn: 'arn:aws:sns:eu-central-1:111111111111:ops-alerts',
+      env: { account: '111111111111', region: 'eu-central-1' },
+    });
+
+    const template = Template.fromStack(stack);
+
+    template.hasResourceProperties('AWS::CloudWatch::Dashboard', {
+      DashboardName: 'prod-core-flow',
+    });
+    template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+      AlarmName: 'prod-core-orders-s3-input-events-failed-invocations',
+      Namespace: 'AWS/Events',
+      MetricName: 'FailedInvocations',
+      Threshold: 1,
+      AlarmActions: ['arn:aws:sns:eu-central-1:111111111111:ops-alerts'],
+    });
+    template.resourceCountIs('AWS::CloudWatch::Alarm', 2);
+    template.resourceCountIs('AWS::SNS::Topic', 0);
+  });
+});
+
+describe('RPS Stack', () => {
+  test('Creates Lambda function with SQS trigger', () => {
+    const app = new App();
+    const stack = new StackRps(app, 'TestStackRps', {
+      prefix: 'test',
+      accountCoreId: '111111111111',
+      stackCoreInputBucketName: 'test-input-bucket',
+      stackCoreOutputBucketName: 'test-output-bucket',
+      region: 'eu-central-1',
+      environmentTier: 'test',
+      env: { account: '222222222222', region: 'eu-central-1' },
+    });
+
+    const template = Template.fromStack(stack);
+
+    // Verify SQS queue exists
+    template.hasResourceProperties('AWS::SQS::Queue', {
+      QueueName: 'test-processor-queue',
+    });
+
+    // Verify Lambda function exists
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      Runtime: 'nodejs22.x',
+      FunctionName: 'test-s3-processor',
+    });
+
+    // Verify EventBridge rule for cross-account events
+    template.hasResourceProperties('AWS::Events::Rule', {
+      EventPattern: {
+        'account': ['111111111111'],
+        'source': ['aws.s3'],
+        'detail-type': ['Object Created'],
+      },
+    });
+  });
+
+  test('Uses RETAIN removal policy for production environments', () => {
+    const app = new App();
+    const stack = new StackRps(app, 'TestStackRps', {
+      prefix: 'prod',
+      accountCoreId: '111111111111',
+      stackCoreInputBucketName: 'prod-input-bucket',
+      stackCoreOutputBucketName: 'prod-output-bucket',
+      region: 'eu-central-1',
+      environmentTier: 'prod',
+      env: { account: '222222222222', region: 'eu-central-1' },
+    });
+
+    const template = Template.fromStack(stack);
+
+    // KMS key should have RETAIN policy for prod
+    template.hasResource('AWS::KMS::Key', {
+      DeletionPolicy: 'Retain',
+      UpdateReplacePolicy: 'Retain',
+    });
+  });
+
+  test('Uses DESTROY removal policy for dev environments', () => {
+    const app = new App();
+    const stack = new StackRps(app, 'TestStackRps', {
+      prefix: 'dev',
+      accountCoreId: '111111111111',
+      stackCoreInputBucketName: 'dev-input-bucket',
+      stackCoreOutputBucketName: 'dev-output-bucket',
+      region: 'eu-central-1',
+      environmentTier: 'dev',
+      env: { account: '222222222222', region: 'eu-central-1' },
+    });
+
+    const template = Template.fromStack(stack);
+
+    // KMS key should have DELETE policy for dev
+    template.hasResource('AWS::KMS::Key', {
+      DeletionPolicy: 'Delete',
+      UpdateReplacePolicy: 'Delete',
+    });
+  });
+
+  test('Validates required props', () => {
+    const app = new App();
+
+    // Empty prefix should throw
+    expect(() => {
+      new StackRps(app, 'TestInvalidPrefix', {
+        prefix: '',
+        accountCoreId: '111111111111',
+        stackCoreInputBucketName: 'test-input-bucket',
+        stackCoreOutputBucketName: 'test-output-bucket',
+        region: 'eu-central-1',
+        environmentTier: 'dev',
+        env: { account: '222222222222', region: 'eu-central-1' },
+      });
+    }).toThrow('prefix is required');
+
+    // Invalid account ID should throw
+    expect(() => {
+      new StackRps(app, 'TestInvalidAccount', {
+        prefix: 'test',
+        accountCoreId: 'invalid',
+        stackCoreInputBucketName: 'test-input-bucket',
+        stackCoreOutputBucketName: 'test-output-bucket',
+        region: 'eu-central-1',
+        environmentTier: 'test',
+        env: { account: '222222222222', region: 'eu-central-1' },
+      });
+    }).toThrow('12-digit AWS account ID');
+
+    // Invalid deploymentPrefix should throw
+    expect(() => {
+      new StackRps(app, 'TestInvalidDeployment', {
+        prefix: 'test',
+        accountCoreId: '111111111111',
+        stackCoreInputBucketName: 'test-input-bucket',
+        stackCoreOutputBucketName: 'test-output-bucket',
+        region: 'eu-central-1',
+        deploymentPrefix: 'invalid/path',
+        environmentTier: 'test',
+        env: { account: '222222222222', region: 'eu-central-1' },
+      });
+    }).toThrow('must not contain');
+  });
+
+  test('Handles deployment prefix correctly', () => {
+    const app = new App();
+    const stack = new StackRps(app, 'TestStackRps', {
+      prefix: 'dev',
+      accountCoreId: '111111111111',
+      stackCoreInputBucketName: 'dev-input-bucket',
+      stackCoreOutputBucketName: 'dev-output-bucket',
+      region: 'eu-central-1',
+      deploymentPrefix: 'john',
+      environmentTier: 'dev',
+      env: { account: '222222222222', region: 'eu-central-1' },
+    });
+
+    const template = Template.fromStack(stack);
+
+    // Queue name should include deployment prefix
+    template.hasResourceProperties('AWS::SQS::Queue', {
+      QueueName: 'dev-john-processor-queue',
+    });
+
+    // Lambda should include deployment prefix
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      FunctionName: 'dev-john-s3-processor',
+      Environment: {
+        Variables: {
+          CDK_DEPLOYMENT_PREFIX: 'john',
+        },
+      },
+    });
+
+    // EventBridge rule should filter by input bucket
+    template.hasResourceProperties('AWS::Events::Rule', {
+      EventPattern: {
+        detail: {
+          bucket: {
+            name: ['dev-input-bucket'],
+          },
+        },
+      },
+    });
+  });
+
+  test('Registers the deployment on the shared event bus with a reference-counting custom resource', () => {
+    const app = new App();
+    const stack = new StackRps(app, 'TestStackRps', {
+      prefix: 'dev',
+      accountCoreId: '111111111111',
+      stackCoreInputBucketName: 'dev-input-bucket',
+      stackCoreOutputBucketName: 'dev-output-bucket',
+      region: 'eu-central-1',
+      deploymentPrefix: 'john',
+      existingEventBusName: 'shared-dev-bus',
+      environmentTier: 'dev',
+      env: { account: '222222222222', region: 'eu-central-1' },
+    });
+
+    const template = Template.fromStack(stack);
+
+    template.hasResourceProperties('Custom::SharedEventBus', {
+      EventBusName: 'shared-dev-bus',
+      ConsumerId: 'dev-john',
+      Statement: Match.objectLike({ Sid: 'AllowCoreAccount-dev-john' }),
+    });
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      FunctionName: 'dev-john-shared-bus-manager',
+    });
+    template.hasResourceProperties('AWS::IAM::Policy', {
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          Match.objectLike({
+            Sid: 'RemoveOrphanedRules',
+            Resource: 'arn:aws:events:eu-central-1:222222222222:rule/shared-dev-bus/*',
+          }),
+          Match.objectLike({
+            Sid: 'CheckConsumerProcessors',
+            Action: 'lambda:GetFunction',
+            Resource: 'arn:aws:lambda:eu-central-1:222222222222:function:*-s3-processor',
+          }),
+        ]),
+      },
+    });
+
+    // Rules are registered to the deployment and deleted before it deregisters
+    const sharedBusId = Object.keys(template.findResources('Custom::SharedEventBus'))[0];
+    template.hasResource('AWS::Events::Rule', {
+      Properties: {
+        EventBusName: 'shared-dev-bus',
+        Tags: [{ Key: 'shared-bus-consumer', Value: 'dev-john' }],
+      },
+      DependsOn: Match.arrayWith([sharedBusId]),
+    });
+  });
+
+  test('Upgrades stacks from the AwsCustomResource permission without removing the new statement', () => {
+    const stack = new StackRps(new App(), 'TestStackRps', {
+      prefix: 'dev',
+      accountCoreId: '111111111111',
+      stackCoreInputBucketName: 'dev-input-bucket',
+      stackCoreOutputBucketName: 'dev-output-bucket',
+      region: 'eu-central-1',
+      deploymentPrefix: 'john',
+      existingEventBusName: 'shared-dev-bus',
+      environmentTier: 'dev',
+      env: { account: '222222222222', region: 'eu-central-1' },
+    });
+    const template = Template.fromStack(stack);
+
+    // Same construct path as before the shared bus manager, so the same logical ID: updated instead of deleted
+    const legacy = template.findResources('Custom::AWS');
+    expect(Object.keys(legacy)).toEqual([expect.stringMatching(/^GrantCoreAccountPermission[0-9A-F]{8}$/)]);
+    const [permission] = Object.values(legacy);
+    // No delete call - the old one removed the StatementId the SharedEventBus resource now writes
+    expect(permission.Properties.Delete).toBeUndefined();
+    const update = JSON.parse(permission.Properties.Update);
+    expect(update).toMatchObject({
+      service: 'EventBridge',
+      action: 'describeEventBus',
+      physicalResourceId: { id: 'shared-dev-bus-permission-AllowCoreAccount-dev-john' },
+    });
+    // Updated after the new statement is written
+    expect(permission.DependsOn).toEqual(expect.arrayContaining(Object.keys(template.findResources('Custom::SharedEventBus'))));
+  });
+
+  test('Lambda role has AssumeRole permission for Core S3AccessRole', () => {
+    const app = new App();
+    const stack = new StackRps(app, 'TestStackRps', {
+      prefix: 'dev',
+      accountCoreId: '111111111111',
+      stackCoreInputBucketName: 'dev-input-bucket',
+      stackCoreOutputBucketName: 'dev-output-bucket',
+      region: 'eu-central-1',
+      environmentTier: 'dev',
+      env: { account: '222222222222', region: 'eu-central-1' },
+    });
+
+    const template = Template.fromStack(stack);
+
+    // Lambda role should have AssumeRole permission
+    template.hasResourceProperties('AWS::IAM::Policy', {
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          Match.objectLike({
+            Sid: 'AssumeCoreS3AccessRole',
+            Effect: 'Allow',
+            Action: ['sts:AssumeRole', 'sts:TagSession'],
+            Resource: 'arn:aws:iam::111111111111:role/dev-s3-access-role',
+          }),
+        ]),
+      },
+    });
+
+    // Lambda should have CORE_S3_ACCESS_ROLE_ARN environment variable
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      Environment: {
+        Variables: {
+          CORE_S3_ACCESS_ROLE_ARN: 'arn:aws:iam::111111111111:role/dev-s3-access-role',
+        },
+      },
+    });
+  });
+
+  test('Scopes a dev deployment to its own input prefix with a session tag', () => {
+    const app = new App();
+    const stack = new StackRps(app, 'TestStackRps', {
+      prefix: 'dev',
+      deploymentPrefix: 'john',
+      accountCoreId: '111111111111',
+      stackCoreInputBucketName: 'dev-input-bucket',
+      stackCoreOutputBucketName: 'dev-output-bucket',
+      region: 'eu-central-1',
+      environmentTier: 'dev',
+      env: { account: '222222222222', region: 'eu-central-1' },
+    });
+
+    const template = Template.fromStack(stack);
+    template.hasResourceProperties('AWS::IAM::Role', {
+      RoleName: 'dev-john-processor-lambda-role',
+      Tags: [{ Key: 'deployment', Value: 'john' }],
+    });
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      Environment: { Variables: Match.objectLike({ DEPLOYMENT_SCOPE: 'john' }) },
+    });
+    template.hasResourceProperties('AWS::Events::Rule', {
+      Name: 'dev-john-receive-s3-events',
+      EventPattern: Match.objectLike({
+        detail: {
+          bucket: { name: ['dev-input-bucket'] },
+          object: { key: [{ prefix: 'input/john/' }] },
+        },
+      }),
+    });
+
+    // Tiers without deployment prefixes keep whole-bucket access and pass no session tags
+    const prodTemplate = Template.fromStack(new StackRps(new App(), 'TestStackRpsProd', {
+      prefix: 'prod',
+      accountCoreId: '111111111111',
+      stackCoreInputBucketName: 'prod-input-bucket',
+      stackCoreOutputBucketName: 'prod-output-bucket',
+      region: 'eu-central-1',
+      environmentTier: 'prod',
+      env: { account: '222222222222', region: 'eu-central-1' },
+    }));
+    prodTemplate.hasResourceProperties('AWS::Lambda::Function', {
+      Environment: { Variables: Match.objectLike({ DEPLOYMENT_SCOPE: Match.absent() }) },
+    });
+
+    expect(() => {
+      new StackRps(app, 'TestReservedDeployment', {
+        prefix: 'dev',
+        deploymentPrefix: 'default',
+        accountCoreId: '111111111111',
+        stackCoreInputBucketName: 'dev-input-bucket',
+        stackCoreOutputBucketName: 'dev-output-bucket',
+        region: 'eu-central-1',
+        environmentTier: 'dev',
+        env: { account: '222222222222', region: 'eu-central-1' },
+      });
+    }).toThrow('deploymentPrefix \'default\' is reserved');
+  });
+
+  test('Passes the Core S3AccessRole ExternalId to the processor', () => {
+    const app = new App();
+    const stack = new StackRps(app, 'TestStackRps', {
+      prefix: 'dev',
+      accountCoreId: '111111111111',
+      stackCoreInputBucketName: 'dev-input-bucket',
+      stackCoreOutputBucketName: 'dev-output-bucket',
+      coreS3AccessRoleExternalId: 'ext-123',
+      region: 'eu-central-1',
+      environmentTier: 'dev',
+      env: { account: '222222222222', region: 'eu-central-1' },
+    });
+
+    Template.fromStack(stack).hasResourceProperties('AWS::Lambda::Function', {
+      Environment: {
+        Variables: Match.objectLike({ CORE_S3_ACCESS_ROLE_EXTERNAL_ID: 'ext-123' }),
+      },
+    });
+  });
+
+  test('Passes transformer routing config to Lambda environment', () => {
+    const app = new App();
+    const stack = new StackRps(app, 'TestStackRps', {
+      prefix: 'dev',
+      accountCoreId: '111111111111',
+      stackCoreInputBucketName: 'dev-input-bucket',
+      stackCoreOutputBucketName: 'dev-output-bucket',
+      region: 'eu-central-1',
+      transformerRoutes: [
+        { keyPrefix: 'feeds/', extension: '.csv', transformer: 'csv' },
+        { contentType: 'application/json', transformer: 'json-schema', options: { schema: { type: 'object' } } },
+      ],
+      defaultTransformer: 'passthrough',
+      environmentTier: 'dev',
+      env: { account: '222222222222', region: 'eu-central-1' },
+    });
+
+    const template = Template.fromStack(stack);
+
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      Environment: {
+        Variables: {
+          DEFAULT_TRANSFORMER: 'passthrough',
+          STREAMING_THRESHOLD_BYTES: String(64 * 1024 * 1024),
+          TRANSFORMER_ROUTES: JSON.stringify([
+            { keyPrefix: 'feeds/', extension: '.csv', transformer: 'csv' },
+            { contentType: 'application/json', transformer: 'json-schema', options: { schema: { type: 'object' } } },
+          ]),
+        },
+      },
+    });
+  });
+
+  test('Validates transformer routing config', () => {
+    const app = new App();
+
+    // Unknown transformer should throw
+    expect(() => {
+      new StackRps(app, 'TestUnknownTransformer', {
+        prefix: 'test',
+        accountCoreId: '111111111111',
+        stackCoreInputBucketName: 'test-input-bucket',
+        stackCoreOutputBucketName: 'test-output-bucket',
+        region: 'eu-central-1',
+        transformerRoutes: [{ extension: '.xml', transformer: 'xslt' }],
+        environmentTier: 'test',
+        env: { account: '222222222222', region: 'eu-central-1' },
+      });
+    }).toThrow('unknown transformer');
+
+    // Route without any matcher should throw
+    expect(() => {
+      new StackRps(app, 'TestRouteWithoutMatcher', {
+        prefix: 'test',
+        accountCoreId: '111111111111',
+        stackCoreInputBucketName: 'test-input-bucket',
+        stackCoreOutputBucketName: 'test-output-bucket',
+        region: 'eu-central-1',
+        transformerRoutes: [{ transformer: 'gzip' }],
+        environmentTier: 'test',
+        env: { account: '222222222222', region: 'eu-central-1' },
+      });
+    }).toThrow('must set at least one of');
+
+    // Non-positive streaming threshold should throw
+    expect(() => {
+      new StackRps(app, 'TestInvalidStreamingThreshold', {
+        prefix: 'test',
+        accountCoreId: '111111111111',
+        stackCoreInputBucketName: 'test-input-bucket',
+        stackCoreOutputBucketName: 'test-output-bucket',
+        region: 'eu-central-1',
+        streamingThresholdBytes: 0,
+        environmentTier: 'test',
+        env: { account: '222222222222', region: 'eu-central-1' },
+      });
+    }).toThrow('streamingThresholdBytes must be a positive integer');
+
+    // Size limit below the streaming threshold should throw
+    expect(() => {
+      new StackRps(app, 'TestInvalidMaxObjectSize', {
+        prefix: 'test',
+        accountCoreId: '111111111111',
+        stackCoreInputBucketName: 'test-input-bucket',
+        stackCoreOutputBucketName: 'test-output-bucket',
+        region: 'eu-central-1',
+        maxObjectSizeBytes: 1024,
+        environmentTier: 'test',
+        env: { account: '222222222222', region: 'eu-central-1' },
+      });
+    }).toThrow('maxObjectSizeBytes must be an integer of at least streamingThresholdBytes');
+  });
+
+  test('Sizes the processor for streaming multi-GB objects within one invocation', () => {
+    const app = new App();
+    const stack = new StackRps(app, 'TestStackRps', {
+      prefix: 'dev',
+      accountCoreId: '111111111111',
+      stackCoreInputBucketName: 'dev-input-bucket',
+      stackCoreOutputBucketName: 'dev-output-bucket',
+      region: 'eu-central-1',
+      maxObjectSizeBytes: 20 * 1024 * 1024 * 1024,
+      environmentTier: 'dev',
+      env: { account: '222222222222', region: 'eu-central-1' },
+    });
+
+    const template = Template.fromStack(stack);
+
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      FunctionName: 'dev-s3-processor',
+      Timeout: 900,
+      MemorySize: 1024,
+      Environment: {
+        Variables: Match.objectLike({ MAX_OBJECT_SIZE_BYTES: String(20 * 1024 * 1024 * 1024) }),
+      },
+    });
+    // Six times the function timeout
+    template.hasResourceProperties('AWS::SQS::Queue', {
+      QueueName: 'dev-processor-queue',
+      VisibilityTimeout: 5400,
+    });
+  });
+  test('Rejects deployment prefix for tiers without deployment wildcards', () => {
+    const app = new App();
+
+    expect(() => {
+      new StackRps(app, 'TestProdDeploymentPrefix', {
+        prefix: 'prod',
+        accountCoreId: '111111111111',
+        stackCoreInputBucketName: 'prod-input-bucket',
+        stackCoreOutputBucketName: 'prod-output-bucket',
+        region: 'eu-central-1',
+        environmentTier: 'prod',
+        deploymentPrefix: 'john',
+        env: { account: '222222222222', region: 'eu-central-1' },
+      });
+    }).toThrow('deploymentPrefix is not allowed for environmentTier \'prod\'');
+  });
+
+  test('Sets log retention from tier policy', () => {
+    const app = new App();
+    const stack = new StackRps(app, 'TestStackRps', {
+      prefix: 'staging',
+      accountCoreId: '111111111111',
+      stackCoreInputBucketName: 'staging-input-bucket',
+      stackCoreOutputBucketName: 'staging-output-bucket',
+      region: 'eu-central-1',
+      environmentTier: 'staging',
+      env: { account: '222222222222', region: 'eu-central-1' },
+    });
+
+    const template = Template.fromStack(stack);
+
+    template.hasResource('AWS::Logs::LogGroup', {
+      Properties: {
+        LogGroupName: '/aws/lambda/staging-s3-processor',
+        RetentionInDays: 30,
+      },
+      DeletionPolicy: 'Retain',
+    });
+  });
+  test('Creates queue and rule per pipeline feeding one Lambda', () => {
+    const app = new App();
+    const stack = new StackRps(app, 'TestStackRps', {
+      prefix: 'dev',
+      accountCoreId: '111111111111',
+      pipelines: [
+        { name: 'default', inputBucketName: 'dev-input-bucket', outputBucketName: 'dev-output-bucket' },
+        { name: 'orders', inputBucketName: 'dev-orders-input-bucket', outputBucketName: 'dev-orders-output-bucket' },
+      ],
+      region: 'eu-central-1',
+      environmentTier: 'dev',
+      deploymentPrefix: 'john',
+      env: { account: '222222222222', region: 'eu-central-1' },
+    });
+
+    const template = Template.fromStack(stack);
+
+    template.hasResourceProperties('AWS::SQS::Queue', {
+      QueueName: 'dev-john-processor-queue',
+    });
+    template.hasResourceProperties('AWS::SQS::Queue', {
+      QueueName: 'dev-john-orders-processor-queue',
+    });
+    template.hasResourceProperties('AWS::SQS::Queue', {
+      QueueName: 'dev-john-orders-processor-dlq',
+    });
+
+    template.hasResourceProperties('AWS::Events::Rule', {
+      Name: 'dev-john-orders-receive-s3-events',
+      EventPattern: {
+        detail: {
+          bucket: {
+            name: ['dev-orders-input-bucket'],
+          },
+        },
+      },
+    });
+
+    // Single Lambda consumes all pipeline queues and knows the bucket routing
+    template.resourceCountIs('AWS::Lambda::EventSourceMapping', 2);
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      FunctionName: 'dev-john-s3-processor',
+      Environment: {
+        Variables: {
+          INPUT_BUCKET_NAME: 'dev-input-bucket',
+          OUTPUT_BUCKET_NAME: 'dev-output-bucket',
+          PIPELINES: JSON.stringify([
+            { name: 'default', inputBucketName: 'dev-input-bucket', outputBucketName: 'dev-output-bucket' },
+            { name: 'orders', inputBucketName: 'dev-orders-input-bucket', outputBucketName: 'dev-orders-output-bucket' },
+          ]),
+        },
+      },
+    });
+  });
+
+  test('Validates pipeline props', () => {
+    const app = new App();
+
+    // Pipelines and single-pipeline shorthand are mutually exclusive
+    expect(() => {
+      new StackRps(app, 'TestBothPipelineForms', {
+        prefix: 'dev',
+        accountCoreId: '111111111111',
+        stackCoreInputBucketName: 'dev-input-bucket',
+        stackCoreOutputBucketName: 'dev-output-bucket',
+        pipelines: [{ name: 'orders', inputBucketName: 'a', outputBucketName: 'b' }],
+        region: 'eu-central-1',
+        environmentTier: 'dev',
+        env: { account: '222222222222', region: 'eu-central-1' },
+      });
+    }).toThrow('specify either pipelines or stackCoreInputBucketName');
+
+    // Missing bucket names should throw
+    expect(() => {
+      new StackRps(app, 'TestMissingBuckets', {
+        prefix: 'dev',
+        accountCoreId: '111111111111',
+        region: 'eu-central-1',
+        environmentTier: 'dev',
+        env: { account: '222222222222', region: 'eu-central-1' },
+      });
+    }).toThrow('stackCoreInputBucketName is required');
+  });
+  test('Creates deduplication ledger table for the processor', () => {
+    const app = new App();
+    const stack = new StackRps(app, 'TestStackRps', {
+      prefix: 'dev',
+      accountCoreId: '111111111111',
+      stackCoreInputBucketName: 'dev-input-bucket',
+      stackCoreOutputBucketName: 'dev-output-bucket',
+      region: 'eu-central-1',
+      environmentTier: 'dev',
+      ledgerRetentionDays: 7,
+      env: { account: '222222222222', region: 'eu-central-1' },
+    });
+
+    const template = Template.fromStack(stack);
+
+    template.hasResourceProperties('AWS::DynamoDB::Table', {
+      TableName: 'dev-processing-ledger',
+      KeySchema: [{ AttributeName: 'objectId', KeyType: 'HASH' }],
+      BillingMode: 'PAY_PER_REQUEST',
+      TimeToLiveSpecification: { AttributeName: 'expiresAt', Enabled: true },
+      PointInTimeRecoverySpecification: { PointInTimeRecoveryEnabled: true },
+    });
+
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      Environment: {
+        Variables: {
+          LEDGER_TABLE_NAME: { Ref: Match.stringLikeRegexp('ProcessingLedger') },
+          LEDGER_LEASE_SECONDS: '900',
+          LEDGER_TTL_DAYS: '7',
+        },
+      },
+    });
+
+    template.hasResourceProperties('AWS::IAM::Policy', {
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          Match.objectLike({
+            Sid: 'ProcessingLedger',
+            Action: ['dynamodb:PutItem', 'dynamodb:UpdateItem', 'dynamodb:DeleteItem'],
+          }),
+        ]),
+      },
+    });
+
+    expect(() => {
+      new StackRps(app, 'TestInvalidLedgerRetention', {
+        prefix: 'dev',
+        accountCoreId: '111111111111',
+        stackCoreInputBucketName: 'dev-input-bucket',
+        stackCoreOutputBucketName: 'dev-output-bucket',
+        region: 'eu-central-1',
+        environmentTier: 'dev',
+        ledgerRetentionDays: 0,
+        env: { account: '222222222222', region: 'eu-central-1' },
+      });
+    }).toThrow('ledgerRetentionDays must be a positive integer');
+  });
+  test('Configures processor concurrency', () => {
+    const app = new App();
+    const stack = new StackRps(app, 'TestStackRps', {
+      prefix: 'dev',
+      accountCoreId: '111111111111',
+      stackCoreInputBucketName: 'dev-input-bucket',
+      stackCoreOutputBucketName: 'dev-output-bucket',
+      region: 'eu-central-1',
+      environmentTier: 'dev',
+      processorConcurrency: 8,
+      env: { account: '222222222222', region: 'eu-central-1' },
+    });
+
+    Template.fromStack(stack).hasResourceProperties('AWS::Lambda::Function', {
+      Environment: { Variables: Match.objectLike({ PROCESSOR_CONCURRENCY: '8' }) },
+    });
+
+    expect(() => {
+      new StackRps(app, 'TestInvalidConcurrency', {
+        prefix: 'dev',
+        accountCoreId: '111111111111',
+        stackCoreInputBucketName: 'dev-input-bucket',
+        stackCoreOutputBucketName: 'dev-output-bucket',
+        region: 'eu-central-1',
+        environmentTier: 'dev',
+        processorConcurrency: 11,
+        env: { account: '222222222222', region: 'eu-central-1' },
+      });
+    }).toThrow('processorConcurrency must be an integer between 1 and 10');
+  });
+  test('Creates a quarantine queue per pipeline for permanent failures', () => {
+    const app = new App();
+    const stack = new StackRps(app, 'TestStackRps', {
+      prefix: 'dev',
+      accountCoreId: '111111111111',
+      pipelines: [
+        { name: 'default', inputBucketName: 'dev-input-bucket', outputBucketName: 'dev-output-bucket' },
+        { name: 'orders', inputBucketName: 'dev-orders-input-bucket', outputBucketName: 'dev-orders-output-bucket' },
+      ],
+      region: 'eu-central-1',
+      environmentTier: 'dev',
+      env: { account: '222222222222', region: 'eu-central-1' },
+    });
+
+    const template = Template.fromStack(stack);
+
+    template.hasResourceProperties('AWS::SQS::Queue', {
+      QueueName: 'dev-orders-processor-quarantine',
+      MessageRetentionPeriod: 1209600,
+      KmsMasterKeyId: Match.anyValue(),
+    });
+
+    // Processor queue name -> quarantine queue URL
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      Environment: {
+        Variables: Match.objectLike({
+          QUARANTINE_QUEUES: {
+            'Fn::Join': ['', Match.arrayWith([
+              { 'Fn::GetAtt': [Match.stringLikeRegexp('OrdersProcessorQueue'), 'QueueName'] },
+              '":"',
+              { Ref: Match.stringLikeRegexp('OrdersProcessorQuarantine') },
+            ])],
+          },
+          DELETION_HANDLING: 'ignore',
+        }),
+      },
+    });
+
+    template.hasResourceProperties('AWS::IAM::Policy', {
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          Match.objectLike({
+            Sid: 'QuarantineMessages',
+            Action: 'sqs:SendMessage',
+            Resource: [
+              { 'Fn::GetAtt': [Match.stringLikeRegexp('^ProcessorQuarantine'), 'Arn'] },
+              { 'Fn::GetAtt': [Match.stringLikeRegexp('^OrdersProcessorQuarantine'), 'Arn'] },
+            ],
+          }),
+        ]),
+      },
+    });
+
+    template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+      AlarmName: 'dev-rps-orders-processor-quarantine-depth',
+    });
+  });
+  test('Delivers Object Deleted events when deletion handling is enabled', () => {
+    const app = new App();
+    const rpsStack = new StackRps(app, 'TestStackRps', {
+      prefix: 'dev',
+      accountCoreId: '111111111111',
+      stackCoreInputBucketName: 'dev-input-bucket',
+      stackCoreOutputBucketName: 'dev-output-bucket',
+      region: 'eu-central-1',
+      environmentTier: 'dev',
+      deletionHandling: 'tombstone',
+      env: { account: '222222222222', region: 'eu-central-1' },
+    });
+    const coreStack = new StackCore(app, 'TestStackCore', {
+      prefix: 'dev',
+      accountRpsId: '222222222222',
+      region: 'eu-central-1',
+      environmentTier: 'dev',
+      forwardDeleteEvents: true,
+      env: { account: '111111111111', region: 'eu-central-1' },
+    });
+
+    const rpsTemplate = Template.fromStack(rpsStack);
+    rpsTemplate.hasResourceProperties('AWS::Events::Rule', {
+      Name: 'dev-receive-s3-events',
+      EventPattern: Match.objectLike({ 'detail-type': ['Object Created', 'Object Deleted'] }),
+    });
+    rpsTemplate.hasResourceProperties('AWS::Lambda::Function', {
+      Environment: { Variables: Match.objectLike({ DELETION_HANDLING: 'tombstone' }) },
+    });
+
+    Template.fromStack(coreStack).hasResourceProperties('AWS::Events::Rule', {
+      Name: 'dev-s3-input-events',
+      EventPattern: Match.objectLike({ 'detail-type': ['Object Created', 'Object Deleted'] }),
+    });
+
+    expect(() => {
+      new StackRps(app, 'TestInvalidDeletionHandling', {
+        prefix: 'dev',
+        accountCoreId: '111111111111',
+        stackCoreInputBucketName: 'dev-input-bucket',
+        stackCoreOutputBucketName: 'dev-output-bucket',
+        region: 'eu-central-1',
+        environmentTier: 'dev',
+        deletionHandling: 'purge' as any,
+        env: { account: '222222222222', region: 'eu-central-1' },
+      });
+    }).toThrow('deletionHandling must be one of ignore, delete, tombstone');
+  });
+  test('Passes output key templates to the processor', () => {
+    const app = new App();
+    const stack = new StackRps(app, 'TestStackRps', {
+      prefix: 'dev',
+      accountCoreId: '111111111111',
+      region: 'eu-central-1',
+      environmentTier: 'dev',
+      pipelines: [{
+        name: 'orders',
+        inputBucketName: 'dev-orders-input-bucket',
+        outputBucketName: 'dev-orders-output-bucket',
+        outputKeyTemplate: '{date}/{basename}.processed{ext}',
+      }],
+      env: { account: '222222222222', region: 'eu-central-1' },
+    });
+
+    Template.fromStack(stack).hasResourceProperties('AWS::Lambda::Function', {
+      Environment: {
+        Variables: Match.objectLike({
+          PIPELINES: JSON.stringify([{
+            name: 'orders',
+            inputBucketName: 'dev-orders-input-bucket',
+            outputBucketName: 'dev-orders-output-bucket',
+            outputKeyTemplate: '{date}/{basename}.processed{ext}',
+          }]),
+        }),
+      },
+    });
+
+    // Deletions are applied to the output key, which date variables cannot recompute
+    expect(() => {
+      new StackRps(app, 'TestDatedDeletion', {
+        prefix: 'dev',
+        accountCoreId: '111111111111',
+        region: 'eu-central-1',
+        environmentTier: 'dev',
+        deletionHandling: 'delete',
+        pipelines: [{
+          name: 'orders',
+          inputBucketName: 'dev-orders-input-bucket',
+          outputBucketName: 'dev-orders-output-bucket',
+          outputKeyTemplate: '{date}/{filename}',
+        }],
+        env: { account: '222222222222', region: 'eu-central-1' },
+      });
+    }).toThrow('deletionHandling \'delete\' requires output key templates without date variables');
+  });
+  test('Passes manifest bucket to the processor', () => {
+    const app = new App();
+    const stack = new StackRps(app, 'TestStackRps', {
+      prefix: 'dev',
+      accountCoreId: '111111111111',
+      stackCoreInputBucketName: 'dev-input-bucket',
+      stackCoreOutputBucketName: 'dev-output-bucket',
+      manifestBucketName: 'dev-core-manifest-bucket-111111111111-eu-central-1',
+      region: 'eu-central-1',
+      environmentTier: 'dev',
+      env: { account: '222222222222', region: 'eu-central-1' },
+    });
+
+    Template.fromStack(stack).hasResourceProperties('AWS::Lambda::Function', {
+      Environment: {
+        Variables: {
+          MANIFEST_BUCKET_NAME: 'dev-core-manifest-bucket-111111111111-eu-central-1',
+        },
+      },
+    });
+  });
+  test('Switches the processor to the Core DR replica buckets on failover', () => {
+    const stack = new StackRps(new App(), 'TestStackRps', {
+      prefix: 'prod',
+      accountCoreId: '111111111111',
+      pipelines: [{
+        name: 'default',
+        inputBucketName: 'prod-core-input-bucket-111111111111-eu-west-1',
+        outputBucketName: 'prod-core-output-bucket-111111111111-eu-west-1',
+        replicaInputBucketName: 'prod-core-input-bucket-111111111111-eu-central-1',
+        replicaOutputBucketName: 'prod-core-output-bucket-111111111111-eu-central-1',
+      }],
+      manifestBucketName: 'prod-core-manifest-bucket-111111111111-eu-west-1',
+      region: 'eu-west-1',
+      environmentTier: 'prod',
+      coreReplicaRegion: 'eu-central-1',
+      failover: true,
+      env: { account: '222222222222', region: 'eu-west-1' },
+    });
+    const template = Template.fromStack(stack);
+
+    const [processor] = Object.values(template.findResources('AWS::Lambda::Function', {
+      Properties: { FunctionName: 'prod-s3-processor' },
+    }));
+    const variables = processor.Properties.Environment.Variables;
+    expect(variables).toMatchObject({ CORE_REPLICA_REGION: 'eu-central-1', CORE_FAILOVER: 'true' });
+    expect(JSON.parse(variables.PIPELINES)[0]).toMatchObject({
+      replicaInputBucketName: 'prod-core-input-bucket-111111111111-eu-central-1',
+      replicaOutputBucketName: 'prod-core-output-bucket-111111111111-eu-central-1',
+    });
+    // The manifest bucket only exists in the primary region
+    expect(variables.MANIFEST_BUCKET_NAME).toBeUndefined();
+    // Events from the standby path carry the replica input bucket name
+    template.hasResourceProperties('AWS::Events::Rule', {
+      EventPattern: Match.objectLike({
+        detail: { bucket: { name: ['prod-core-input-bucket-111111111111-eu-west-1', 'prod-core-input-bucket-111111111111-eu-central-1'] } },
+      }),
+    });
+
+    expect(() => new StackRps(new App(), 'TestInvalidFailover', {
+      prefix: 'prod',
+      accountCoreId: '111111111111',
+      stackCoreInputBucketName: 'prod-input-bucket',
+      stackCoreOutputBucketName: 'prod-output-bucket',
+      region: 'eu-west-1',
+      environmentTier: 'prod',
+      coreReplicaRegion: 'eu-central-1',
+    })).toThrow('coreReplicaRegion requires replicaInputBucketName and replicaOutputBucketName, missing for pipeline \'default\'');
+  });
+  test('Configures structured logging, metrics and optional X-Ray tracing', () => {
+    const app = new App();
+    const stack = new StackRps(app, 'TestStackRps', {
+      prefix: 'dev',
+      accountCoreId: '111111111111',
+      stackCoreInputBucketName: 'dev-input-bucket',
+      stackCoreOutputBucketName: 'dev-output-bucket',
+      region: 'eu-central-1',
+      environmentTier: 'dev',
+      logLevel: 'DEBUG',
+      tracing: true,
+      env: { account: '222222222222', region: 'eu-central-1' },
+    });
+
+    const template = Template.fromStack(stack);
+
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      FunctionName: 'dev-s3-processor',
+      TracingConfig: { Mode: 'Active' },
+      Environment: {
+        Variables: {
+          POWERTOOLS_SERVICE_NAME: 'dev-processor',
+          POWERTOOLS_METRICS_NAMESPACE: PROCESSOR_METRICS_NAMESPACE,
+          POWERTOOLS_TRACE_ENABLED: 'true',
+          LOG_LEVEL: 'DEBUG',
+        },
+      },
+    });
+
+    template.hasResourceProperties('AWS::IAM::Policy', {
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          Match.objectLike({ Action: ['xray:PutTraceSegments', 'xray:PutTelemetryRecords'] }),
+        ]),
+      },
+    });
+
+    expect(() => {
+      new StackRps(app, 'TestInvalidLogLevel', {
+        prefix: 'dev',
+        accountCoreId: '111111111111',
+        stackCoreInputBucketName: 'dev-input-bucket',
+        stackCoreOutputBucketName: 'dev-output-bucket',
+        region: 'eu-central-1',
+        environmentTier: 'dev',
+        logLevel: 'TRACE' as LogLevel,
+        env: { account: '222222222222', region: 'eu-central-1' },
+      });
+    }).toThrow('logLevel must be one of DEBUG, INFO, WARN, ERROR');
+  });
+  test('Creates dashboard and alarms for the RPS flow with tier thresholds', () => {
+    const app = new App();
+    const stack = new StackRps(app, 'TestStackRps', {
+      prefix: 'dev',
+      accountCoreId: '111111111111',
+      stackCoreInputBucketName: 'dev-input-bucket',
+      stackCoreOutputBucketName: 'dev-output-bucket',
+      region: 'eu-central-1',
+      environmentTier: 'dev',
+      deploymentPrefix: 'john',
+      env: { account: '222222222222', region: 'eu-central-1' },
+    });
+
+    const template = Template.fromStack(stack);
+
+    template.hasResourceProperties('AWS::CloudWatch::Dashboard', {
+      DashboardName: 'dev-john-rps-flow',
+    });
+
+    // Dev tier thresholds from TIER_POLICIES
+    template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+      AlarmName: 'dev-john-rps-processor-dlq-depth',
+      MetricName: 'ApproximateNumberOfMessagesVisible',
+      Threshold: 10,
+    });
+    template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+      AlarmName: 'dev-john-rps-processor-oldest-message-age',
+      MetricName: 'ApproximateAgeOfOldestMessage',
+      Threshold: 3600,
+    });
+    template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+      AlarmName: 'dev-john-rps-receive-s3-events-failed-invocations',
+      Dimensions: Match.arrayWith([{ Name: 'EventBusName', Value: 'dev-cross-account-bus' }]),
+    });
+    template.hasResourceProperties('AWS::CloudWatch::Alarm', { AlarmName: 'dev-john-rps-processor-errors' });
+    template.hasResourceProperties('AWS::CloudWatch::Alarm', { AlarmName: 'dev-john-rps-processor-throttles' });
+
+    // Without alarmTopicArn an encrypted topic is created and used by all alarms
+    template.hasResourceProperties('AWS::SNS::Topic', {
+      TopicName: 'dev-john-rps-alarms',
+      KmsMasterKeyId: Match.anyValue(),
+    });
+    template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+      AlarmActions: [{ Ref: Match.stringLikeRegexp('MonitoringAlarmTopic') }],
+    });
   });
 });
\ No newline at end of file
@@ -0,0 +1,45 @@
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { ManifestRecord, manifestKey } from '../lambda/manifest';
+import { createDigestStream, digestBuffer, streamToBuffer } from '../lambda/streaming';
+
+describe('Processing manifest', () => {
+  test('Partitions manifest keys by pipeline and event date, named by the source object version', () => {
+    const record = {
+      pipeline: 'orders',
+      eventId: 'event-1',
+      eventTime: '2026-03-07T23:59:00.000Z',
+      completedAt: '2026-03-08T00:01:00.000Z',
+      source: { bucket: 'dev-input-bucket', key: 'in/orders.csv', versionId: 'version-1', etag: 'etag-1' },
+    } as ManifestRecord;
+
+    expect(manifestKey(record)).toMatch(/^orders\/year=2026\/month=03\/day=07\/[0-9a-f]{64}\.json$/);
+
+    // A redrive or backfill of the same version on a later day overwrites the record
+    expect(manifestKey({ ...record, eventId: 'event-2', completedAt: '2026-04-01T09:00:00.000Z' })).toBe(manifestKey(record));
+
+    // Other versions, keys, buckets and unversioned objects with other content get their own record
+    const keys = [
+      { ...record.source, versionId: 'version-2' },
+      { ...record.source, key: 'in/orders.csv.bak' },
+      { ...record.source, bucket: 'dev-replica-input-bucket' },
+      { ...record.source, versionId: 'null' },
+      { ...record.source, versionId: 'null', etag: 'etag-2' },
+    ].map((source) => manifestKey({ ...record, source }));
+    expect(new Set([manifestKey(record), ...keys]).size).toBe(6);
+  });
+
+  test('Streaming digest matches buffered digest', async () => {
+    const content = Buffer.from('a,b,c\n1,2,3\n');
+    const digest = createDigestStream();
+
+    const [, output] = await Promise.all([
+      pipeline(Readable.from([content.subarray(0, 4), content.subarray(4)]), digest.stream),
+      streamToBuffer(digest.stream),
+    ]);
+
+    expect(output).toEqual(content);
+    expect(digest.digest()).toEqual(digestBuffer(content));
+    expect(digest.digest().sha256).toHaveLength(64);
+  });
+});
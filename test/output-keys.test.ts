@@ -0,0 +1,32 @@
+import { renderOutputKey } from '../lambda/output-keys';
+import { outputKeyPrefix, usesDateVariables, validateOutputKeyTemplate } from '../src/pipelines';
+
+const context = { key: 'incoming/2026/orders.v2.csv', pipeline: 'orders', eventTime: new Date('2026-01-05T23:30:00Z') };
+
+describe('Output key templates', () => {
+  test('Renders path, name and event date variables', () => {
+    expect(renderOutputKey('{key}', context)).toBe('incoming/2026/orders.v2.csv');
+    expect(renderOutputKey('{date}/{basename}.processed{ext}', context)).toBe('2026-01-05/orders.v2.processed.csv');
+    expect(renderOutputKey('{pipeline}/year={year}/month={month}/day={day}/{filename}', context))
+      .toBe('orders/year=2026/month=01/day=05/orders.v2.csv');
+    expect(renderOutputKey('processed/{dir}/{filename}', context)).toBe('processed/incoming/2026/orders.v2.csv');
+  });
+
+  test('Handles keys without directory or extension', () => {
+    expect(renderOutputKey('{dir}/{basename}{ext}.out', { ...context, key: 'README' })).toBe('README.out');
+    expect(renderOutputKey('{basename}|{ext}', { ...context, key: 'config/.env' })).toBe('.env|');
+  });
+
+  test('Derives the writable prefix and validates templates at synth', () => {
+    expect(outputKeyPrefix('{key}')).toBe('');
+    expect(outputKeyPrefix('processed/year={year}/{filename}')).toBe('processed/year=');
+    expect(usesDateVariables('processed/{dir}/{filename}')).toBe(false);
+    expect(usesDateVariables('{date}/{filename}')).toBe(true);
+
+    expect(() => validateOutputKeyTemplate('{date}/{filename}', 'Test')).not.toThrow();
+    expect(() => validateOutputKeyTemplate('{date}/{name}', 'Test')).toThrow('unknown variable(s) {name}');
+    expect(() => validateOutputKeyTemplate('out/{key', 'Test')).toThrow('unbalanced braces');
+    expect(() => validateOutputKeyTemplate('{date}/output.csv', 'Test')).toThrow('must contain {key}, {filename} or {basename}');
+    expect(() => validateOutputKeyTemplate('/{key}', 'Test')).toThrow('without a leading \'/\'');
+  });
+});
@@ -0,0 +1,193 @@
+import { Readable, Transform } from 'stream';
+import { S3Client } from '@aws-sdk/client-s3';
+import { SQSClient } from '@aws-sdk/client-sqs';
+import { Context, SQSRecord } from 'aws-lambda';
+import type * as Processor from '../lambda/processor';
+import { TransformerRegistry } from '../lambda/transformers';
+
+const INPUT_BUCKET = 'dev-input-bucket';
+const OUTPUT_BUCKET = 'dev-output-bucket';
+const PROCESSOR_QUEUE_ARN = 'arn:aws:sqs:eu-central-1:222222222222:dev-processor-queue';
+const QUARANTINE_QUEUE_URL = 'https://sqs.eu-central-1.amazonaws.com/222222222222/dev-processor-quarantine';
+// Above the default 64 MiB streaming threshold - the event size picks the multipart path
+const LARGE_OBJECT_SIZE = 100 * 1024 * 1024;
+
+const CONTEXT = {
+  functionName: 'dev-s3-processor',
+  awsRequestId: 'request-1',
+  getRemainingTimeInMillis: () => 60_000,
+} as unknown as Context;
+
+function record(object: Record<string, unknown>): SQSRecord {
+  return {
+    messageId: 'message-1',
+    eventSourceARN: PROCESSOR_QUEUE_ARN,
+    body: JSON.stringify({
+      'version': '0',
+      'id': 'event-1',
+      'detail-type': 'Object Created',
+      'source': 'aws.s3',
+      'time': '2026-01-05T10:00:00Z',
+      'detail': {
+        bucket: { name: INPUT_BUCKET },
+        object: { key: 'in/orders.csv', size: 8, etag: 'etag-1', sequencer: '0062E99A88DC407460', ...object },
+      },
+    }),
+  } as SQSRecord;
+}
+
+describe('Processor source object reads', () => {
+  let handler: typeof Processor.handler;
+  let s3Send: jest.SpyInstance;
+  let sqsSend: jest.SpyInstance;
+
+  beforeAll(() => {
+    Object.assign(process.env, {
+      AWS_REGION: 'eu-central-1',
+      INPUT_BUCKET_NAME: INPUT_BUCKET,
+      OUTPUT_BUCKET_NAME: OUTPUT_BUCKET,
+      PREFIX: 'dev',
+      CORE_S3_ACCESS_ROLE_ARN: 'arn:aws:iam::111111111111:role/dev-s3-access-role',
+      QUARANTINE_QUEUES: JSON.stringify({ 'dev-processor-queue': QUARANTINE_QUEUE_URL }),
+      POWERTOOLS_LOG_LEVEL: 'SILENT',
+      POWERTOOLS_METRICS_NAMESPACE: 'CrossAccountProcessor',
+      POWERTOOLS_TRACE_ENABLED: 'false',
+    });
+    // The processor builds its clients and configuration from the environment on import
+    ({ handler } = jest.requireActual<typeof Processor>('../lambda/processor'));
+  });
+
+  beforeEach(() => {
+    // Every S3 client of the processor signs with the Core role - the mock replaces the calls to the Core account
+    s3Send = jest.spyOn(S3Client.prototype, 'send').mockImplementation(async (command: any) => {
+      switch (command.constructor.name) {
+        case 'GetObjectCommand':
+          return { Body: Readable.from([Buffer.from('a,b\n1,2\n')]), ContentType: 'text/csv', ContentLength: 8, VersionId: command.input.VersionId };
+        case 'PutObjectCommand':
+          return { VersionId: 'output-version-1' };
+        case 'CreateMultipartUploadCommand':
+          return { UploadId: 'upload-1' };
+        case 'UploadPartCommand':
+          return { ETag: `"etag-${command.input.PartNumber}"` };
+        case 'CompleteMultipartUploadCommand':
+          return { VersionId: 'output-version-1' };
+        case 'AbortMultipartUploadCommand':
+          return {};
+        default:
+          throw new Error(`Unexpected command ${command.constructor.name}`);
+      }
+    });
+    sqsSend = jest.spyOn(SQSClient.prototype, 'send').mockImplementation(async () => ({}));
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  const commands = (name: string) => s3Send.mock.calls.filter(([command]) => command.constructor.name === name).map(([command]) => command.input);
+
+  test('Fails on load when PROCESSOR_CONCURRENCY is not a positive integer', () => {
+    for (const concurrency of ['0', 'four', '2.5']) {
+      process.env.PROCESSOR_CONCURRENCY = concurrency;
+      expect(() => jest.isolateModules(() => jest.requireActual('../lambda/processor')))
+        .toThrow(`PROCESSOR_CONCURRENCY must be a positive integer, got: ${concurrency}`);
+    }
+    delete process.env.PROCESSOR_CONCURRENCY;
+  });
+
+  test('Pins the version named in the event and records it in the output metadata', async () => {
+    const response = await handler({ Records: [record({ 'version-id': 'version-1' })] }, CONTEXT);
+
+    expect(response.batchItemFailures).toEqual([]);
+    expect(commands('GetObjectCommand')).toEqual([{ Bucket: INPUT_BUCKET, Key: 'in/orders.csv', VersionId: 'version-1' }]);
+    const [put] = commands('PutObjectCommand');
+    expect(put).toMatchObject({ Bucket: OUTPUT_BUCKET, Key: 'in/orders.csv', ContentType: 'text/csv' });
+    expect(put.Metadata).toMatchObject({
+      sourceKey: 'in/orders.csv',
+      sourceVersionId: 'version-1',
+      sourceEtag: 'etag-1',
+      sourceSequencer: '0062E99A88DC407460',
+      processedBy: 'dev',
+      transformer: 'header',
+    });
+  });
+
+  test('Falls back to IfMatch on the quoted event ETag for unversioned objects', async () => {
+    const response = await handler({ Records: [record({})] }, CONTEXT);
+
+    expect(response.batchItemFailures).toEqual([]);
+    expect(commands('GetObjectCommand')).toEqual([{ Bucket: INPUT_BUCKET, Key: 'in/orders.csv', IfMatch: '"etag-1"' }]);
+    // Unversioned source objects are recorded as S3's 'null' version
+    expect(commands('PutObjectCommand')[0].Metadata.sourceVersionId).toBe('null');
+  });
+
+  test('Quarantines the message when the object changed since the event (PreconditionFailed)', async () => {
+    s3Send.mockRejectedValueOnce(Object.assign(new Error('At least one of the pre-conditions you specified did not hold'), { name: 'PreconditionFailed' }));
+
+    const response = await handler({ Records: [record({})] }, CONTEXT);
+
+    // Not retried: the newer object has its own event
+    expect(response.batchItemFailures).toEqual([]);
+    expect(commands('PutObjectCommand')).toEqual([]);
+    expect(sqsSend).toHaveBeenCalledTimes(1);
+    expect(sqsSend.mock.calls[0][0].input).toMatchObject({
+      QueueUrl: QUARANTINE_QUEUE_URL,
+      MessageAttributes: {
+        'failure-reason': { DataType: 'String', StringValue: 'PreconditionFailed: At least one of the pre-conditions you specified did not hold' },
+      },
+    });
+  });
+
+  test('Quarantines the message when the transformer stream fails on a streamed object', async () => {
+    jest.spyOn(TransformerRegistry.prototype, 'resolve').mockReturnValue({
+      transformer: {
+        name: 'strict',
+        transform: () => {
+          throw new Error('Not used for streamed objects');
+        },
+        createStream: () => ({
+          stream: new Transform({ transform: (_chunk, _encoding, callback) => callback(new Error('Invalid record')) }),
+        }),
+      },
+    });
+
+    const response = await handler({ Records: [record({ 'version-id': 'version-1', 'size': LARGE_OBJECT_SIZE })] }, CONTEXT);
+
+    // The same bytes fail the same way on every retry, like in the buffered path
+    expect(response.batchItemFailures).toEqual([]);
+    expect(commands('AbortMultipartUploadCommand')).toHaveLength(1);
+    expect(commands('CompleteMultipartUploadCommand')).toEqual([]);
+    expect(sqsSend.mock.calls[0][0].input).toMatchObject({
+      QueueUrl: QUARANTINE_QUEUE_URL,
+      MessageAttributes: {
+        'failure-reason': { DataType: 'String', StringValue: 'PermanentFailureError: Transformer \'strict\' failed: Invalid record' },
+      },
+    });
+  });
+
+  test('Quarantines objects above the size limit instead of streaming them', async () => {
+    const response = await handler({ Records: [record({ 'version-id': 'version-1', 'size': 11 * 1024 * 1024 * 1024 })] }, CONTEXT);
+
+    expect(response.batchItemFailures).toEqual([]);
+    expect(commands('CreateMultipartUploadCommand')).toEqual([]);
+    expect(sqsSend.mock.calls[0][0].input.MessageAttributes['failure-reason']).toEqual({
+      DataType: 'String',
+      StringValue: `PermanentFailureError: Object of ${11 * 1024 * 1024 * 1024} bytes exceeds the ${10 * 1024 * 1024 * 1024} byte limit`,
+    });
+  });
+
+  test('Retries the message when reading a streamed object fails', async () => {
+    s3Send.mockImplementationOnce(async () => ({
+      Body: new Readable({
+        read() {
+          this.destroy(new Error('Socket reset'));
+        },
+      }),
+      ContentType: 'text/csv',
+    }));
+
+    const response = await handler({ Records: [record({ 'version-id': 'version-1', 'size': LARGE_OBJECT_SIZE })] }, CONTEXT);
+
+    expect(response.batchItemFailures).toEqual([{ itemIdentifier: 'message-1' }]);
+    expect(commands('AbortMultipartUploadCommand')).toHaveLength(1);
+    expect(sqsSend).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,253 @@
+import { EventBridgeClient } from '@aws-sdk/client-eventbridge';
+import { LambdaClient } from '@aws-sdk/client-lambda';
+import { SharedBusManager, SharedBusProperties } from '../lambda/shared-bus';
+
+const BUS_NAME = 'shared-dev-bus';
+const BUS_ARN = `arn:aws:events:eu-central-1:222222222222:event-bus/${BUS_NAME}`;
+
+function notFound(): Error {
+  return Object.assign(new Error('not found'), { name: 'ResourceNotFoundException' });
+}
+
+/**
+ * In-memory EventBridge bus (tags, policy statements, tagged rules) and Lambda functions
+ */
+class FakeAccount {
+  bus?: { tags: Record<string, string>; statements: Record<string, unknown>[] };
+  rules = new Map<string, { tags: Record<string, string>; targets: string[] }>();
+  functions = new Set<string>();
+  /** Runs after every policy write - a concurrent writer */
+  afterPutPermission?: () => void;
+
+  readonly events = {
+    send: jest.fn(async (command: { constructor: { name: string }; input: any }) => {
+      const input = command.input;
+      const bus = () => {
+        if (!this.bus) {
+          throw notFound();
+        }
+        return this.bus;
+      };
+      const ruleName = (arn: string) => arn.split('/').pop()!;
+      switch (command.constructor.name) {
+        case 'DescribeEventBusCommand': {
+          const { statements } = bus();
+          return {
+            Arn: BUS_ARN,
+            Policy: statements.length > 0 ? JSON.stringify({ Version: '2012-10-17', Statement: statements }) : undefined,
+          };
+        }
+        case 'CreateEventBusCommand':
+          this.bus = { tags: {}, statements: [] };
+          return { EventBusArn: BUS_ARN };
+        case 'DeleteEventBusCommand':
+          this.bus = undefined;
+          return {};
+        case 'TagResourceCommand':
+          input.Tags.forEach((tag: { Key: string; Value: string }) => (bus().tags[tag.Key] = tag.Value));
+          return {};
+        case 'UntagResourceCommand':
+          input.TagKeys.forEach((key: string) => delete bus().tags[key]);
+          return {};
+        case 'ListTagsForResourceCommand': {
+          const tags = input.ResourceARN === BUS_ARN ? bus().tags : this.rules.get(ruleName(input.ResourceARN))!.tags;
+          return { Tags: Object.entries(tags).map(([Key, Value]) => ({ Key, Value })) };
+        }
+        case 'PutPermissionCommand':
+          // Only whole policy documents - the per-account form is not used
+          expect(input).toEqual({ EventBusName: BUS_NAME, Policy: expect.any(String) });
+          bus().statements = JSON.parse(input.Policy).Statement;
+          this.afterPutPermission?.();
+          return {};
+        case 'RemovePermissionCommand':
+          expect(input).toEqual({ EventBusName: BUS_NAME, RemoveAllPermissions: true });
+          bus().statements = [];
+          return {};
+        case 'ListRulesCommand':
+          return { Rules: [...this.rules.keys()].map((name) => ({ Name: name, Arn: `arn:aws:events:eu-central-1:222222222222:rule/${BUS_NAME}/${name}` })) };
+        case 'ListTargetsByRuleCommand':
+          return { Targets: this.rules.get(input.Rule)!.targets.map((id) => ({ Id: id })) };
+        case 'RemoveTargetsCommand':
+          this.rules.get(input.Rule)!.targets = [];
+          return {};
+        case 'DeleteRuleCommand':
+          if (this.rules.get(input.Name)!.targets.length > 0) {
+            throw new Error('Rule can\'t be deleted since it has targets');
+          }
+          this.rules.delete(input.Name);
+          return {};
+        default:
+          throw new Error(`Unexpected command ${command.constructor.name}`);
+      }
+    }),
+  };
+
+  readonly lambda = {
+    send: jest.fn(async (command: { input: { FunctionName: string } }) => {
+      if (!this.functions.has(command.input.FunctionName)) {
+        throw notFound();
+      }
+      return {};
+    }),
+  };
+
+  /**
+   * A deployed RPS stack: processor Lambda and a tagged rule with a target
+   */
+  deploy(consumerId: string): SharedBusProperties {
+    this.functions.add(`${consumerId}-s3-processor`);
+    this.rules.set(`${consumerId}-receive-s3-events`, { tags: { 'shared-bus-consumer': consumerId }, targets: ['Target0'] });
+    return {
+      EventBusName: BUS_NAME,
+      ConsumerId: consumerId,
+      Statement: { Effect: 'Allow', Principal: { AWS: 'arn:aws:iam::111111111111:root' }, Action: 'events:PutEvents', Resource: BUS_ARN },
+      ProcessorFunctionName: `${consumerId}-s3-processor`,
+    };
+  }
+
+  /**
+   * CloudFormation deleting an RPS stack: rules first, then the consumer, then the processor Lambda
+   */
+  async destroy(manager: SharedBusManager, properties: SharedBusProperties): Promise<{ busDeleted: boolean }> {
+    this.rules.delete(`${properties.ConsumerId}-receive-s3-events`);
+    const result = await manager.deregister(properties);
+    this.functions.delete(properties.ProcessorFunctionName);
+    return result;
+  }
+}
+
+describe('Shared event bus manager', () => {
+  let account: FakeAccount;
+  let manager: SharedBusManager;
+
+  beforeEach(() => {
+    account = new FakeAccount();
+    manager = new SharedBusManager(
+      account.events as unknown as EventBridgeClient,
+      account.lambda as unknown as LambdaClient,
+      { info: () => undefined, warn: () => undefined },
+      async () => undefined,
+    );
+  });
+
+  test('Creates the bus once and registers every consumer with its own statement', async () => {
+    await expect(manager.register(account.deploy('dev'))).resolves.toEqual({ eventBusArn: BUS_ARN });
+    await manager.register(account.deploy('dev-john'));
+    // Repeated registration (stack update) is idempotent
+    await manager.register(account.deploy('dev-john'));
+
+    expect(account.events.send.mock.calls.filter(([command]) => command.constructor.name === 'CreateEventBusCommand')).toHaveLength(1);
+    expect(account.bus!.tags).toEqual({ 'shared-bus-consumer:dev': 'dev-s3-processor', 'shared-bus-consumer:dev-john': 'dev-john-s3-processor' });
+    expect(account.bus!.statements).toEqual([
+      { Sid: 'AllowCoreAccount-dev', Effect: 'Allow', Principal: { AWS: 'arn:aws:iam::111111111111:root' }, Action: 'events:PutEvents', Resource: BUS_ARN },
+      { Sid: 'AllowCoreAccount-dev-john', Effect: 'Allow', Principal: { AWS: 'arn:aws:iam::111111111111:root' }, Action: 'events:PutEvents', Resource: BUS_ARN },
+    ]);
+    await expect(manager.consumers(BUS_NAME, BUS_ARN)).resolves.toEqual([
+      { consumerId: 'dev', processorFunctionName: 'dev-s3-processor', registered: true },
+      { consumerId: 'dev-john', processorFunctionName: 'dev-john-s3-processor', registered: true },
+    ]);
+  });
+
+  test('Writes the statement again when a concurrent policy update overwrote it', async () => {
+    await manager.register(account.deploy('dev'));
+    // Another deployment read the policy before this write and writes it back, twice
+    let overwrites = 2;
+    const before = account.bus!.statements;
+    account.afterPutPermission = () => {
+      if (overwrites-- > 0) {
+        account.bus!.statements = before;
+      }
+    };
+
+    await manager.register(account.deploy('dev-john'));
+
+    expect(account.bus!.statements.map((statement) => statement.Sid)).toEqual(['AllowCoreAccount-dev', 'AllowCoreAccount-dev-john']);
+    expect(account.events.send.mock.calls.filter(([command]) => command.constructor.name === 'PutPermissionCommand')).toHaveLength(4);
+
+    // Concurrent registrations both end up in the policy
+    account.afterPutPermission = undefined;
+    await Promise.all([manager.register(account.deploy('dev-alice')), manager.register(account.deploy('dev-bob'))]);
+    expect(account.bus!.statements.map((statement) => statement.Sid).sort())
+      .toEqual(['AllowCoreAccount-dev', 'AllowCoreAccount-dev-alice', 'AllowCoreAccount-dev-bob', 'AllowCoreAccount-dev-john']);
+  });
+
+  test('Fails when the statement keeps being overwritten', async () => {
+    await manager.register(account.deploy('dev'));
+    const before = account.bus!.statements;
+    account.afterPutPermission = () => (account.bus!.statements = before);
+
+    await expect(manager.register(account.deploy('dev-john')))
+      .rejects.toThrow('Statement AllowCoreAccount-dev-john was overwritten by concurrent bus policy updates 5 times');
+  });
+
+  test('Removes statements and rules of orphaned registered consumers only', async () => {
+    await manager.register(account.deploy('dev'));
+    await manager.register(account.deploy('dev-alice'));
+    // dev-alice's stack is gone without deregistering
+    account.functions.delete('dev-alice-s3-processor');
+    // Statements from before the registry are kept whether or not a matching processor exists
+    account.bus!.statements.push({ Sid: 'AllowCoreAccount-dev-bob', Effect: 'Allow', Principal: { AWS: 'arn:aws:iam::111111111111:root' } });
+    account.bus!.statements.push({ Sid: 'AllowCoreAccount-partner', Effect: 'Allow', Principal: { AWS: 'arn:aws:iam::444444444444:root' } });
+    // Statements not belonging to a consumer are kept
+    account.bus!.statements.push({ Sid: 'AllowAuditAccount', Effect: 'Allow', Principal: { AWS: 'arn:aws:iam::333333333333:root' } });
+    account.rules.set('dev-bob-receive-s3-events', { tags: { 'shared-bus-consumer': 'dev-bob' }, targets: ['Target0'] });
+    // Rules not registered to a consumer are left alone
+    account.rules.set('audit-rule', { tags: {}, targets: ['Target0'] });
+    const warn = jest.fn();
+    manager = new SharedBusManager(
+      account.events as unknown as EventBridgeClient,
+      account.lambda as unknown as LambdaClient,
+      { info: () => undefined, warn },
+      async () => undefined,
+    );
+
+    await manager.register(account.deploy('dev-john'));
+
+    expect(account.bus!.statements.map((statement) => statement.Sid)).toEqual([
+      'AllowCoreAccount-dev', 'AllowCoreAccount-dev-bob', 'AllowCoreAccount-partner', 'AllowAuditAccount', 'AllowCoreAccount-dev-john',
+    ]);
+    expect(Object.keys(account.bus!.tags)).toEqual(['shared-bus-consumer:dev', 'shared-bus-consumer:dev-john']);
+    expect([...account.rules.keys()]).toEqual(['dev-receive-s3-events', 'dev-bob-receive-s3-events', 'audit-rule', 'dev-john-receive-s3-events']);
+    expect(warn.mock.calls.map(([, details]) => details.statementId)).toEqual(['AllowCoreAccount-dev-bob', 'AllowCoreAccount-partner']);
+  });
+
+  test('Keeps the bus while statements from before the registry are on it', async () => {
+    const dev = account.deploy('dev');
+    await manager.register(dev);
+    account.bus!.statements.push({ Sid: 'AllowCoreAccount-dev-bob', Effect: 'Allow', Principal: { AWS: 'arn:aws:iam::111111111111:root' } });
+
+    await expect(account.destroy(manager, dev)).resolves.toEqual({ busDeleted: false });
+    expect(account.bus!.statements.map((statement) => statement.Sid)).toEqual(['AllowCoreAccount-dev-bob']);
+  });
+
+  test('Keeps the bus until the last consumer deregisters', async () => {
+    const dev = account.deploy('dev');
+    const john = account.deploy('dev-john');
+    await manager.register(dev);
+    await manager.register(john);
+
+    await expect(account.destroy(manager, john)).resolves.toEqual({ busDeleted: false });
+    expect(account.bus!.statements.map((statement) => statement.Sid)).toEqual(['AllowCoreAccount-dev']);
+
+    await expect(account.destroy(manager, dev)).resolves.toEqual({ busDeleted: true });
+    expect(account.bus).toBeUndefined();
+
+    // Deleting a consumer whose bus is already gone succeeds
+    await expect(manager.deregister(dev)).resolves.toEqual({ busDeleted: false });
+  });
+
+  test('Deletes the bus when only orphans are left, but never while foreign rules use it', async () => {
+    const dev = account.deploy('dev');
+    await manager.register(dev);
+    await manager.register(account.deploy('dev-alice'));
+    account.functions.delete('dev-alice-s3-processor');
+    account.rules.set('audit-rule', { tags: {}, targets: ['Target0'] });
+
+    await expect(account.destroy(manager, dev)).resolves.toEqual({ busDeleted: false });
+    expect(account.bus).toEqual({ tags: {}, statements: [] });
+    expect([...account.rules.keys()]).toEqual(['audit-rule']);
+
+    account.rules.delete('audit-rule');
+    await expect(manager.deregister(dev)).resolves.toEqual({ busDeleted: true });
+  });
+});
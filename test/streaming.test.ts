@@ -0,0 +1,138 @@
+import { randomBytes } from 'crypto';
+import { Readable, Transform } from 'stream';
+import { createGunzip, createGzip } from 'zlib';
+import { S3Client } from '@aws-sdk/client-s3';
+import { streamToBuffer, uploadStreamMultipart } from '../lambda/streaming';
+
+const MIB = 1024 * 1024;
+const TARGET = { bucket: 'dev-output-bucket', key: 'output/default/data.bin', contentType: 'application/octet-stream' };
+
+/**
+ * S3 client mock recording every command and the uploaded part bodies
+ */
+function mockS3(options: { failPart?: number; failAbort?: boolean } = {}) {
+  const parts: Buffer[] = [];
+  const send = jest.fn(async (command: { constructor: { name: string }; input: any }) => {
+    switch (command.constructor.name) {
+      case 'CreateMultipartUploadCommand':
+        return { UploadId: 'upload-1' };
+      case 'UploadPartCommand':
+        if (command.input.PartNumber === options.failPart) {
+          throw new Error('UploadPart failed');
+        }
+        parts.push(Buffer.from(command.input.Body));
+        return { ETag: `"etag-${command.input.PartNumber}"` };
+      case 'CompleteMultipartUploadCommand':
+        return { VersionId: 'version-1' };
+      case 'AbortMultipartUploadCommand':
+        if (options.failAbort) {
+          throw new Error('AbortMultipartUpload failed');
+        }
+        return {};
+      default:
+        throw new Error(`Unexpected command ${command.constructor.name}`);
+    }
+  });
+  const commands = () => send.mock.calls.map(([command]) => command.constructor.name);
+  return { client: { send } as unknown as S3Client, send, parts, commands };
+}
+
+function chunked(data: Buffer, chunkSize: number): Readable {
+  const chunks: Buffer[] = [];
+  for (let offset = 0; offset < data.length; offset += chunkSize) {
+    chunks.push(data.subarray(offset, offset + chunkSize));
+  }
+  return Readable.from(chunks);
+}
+
+describe('Multipart upload streaming', () => {
+  test('Splits into parts of at least the 5 MiB S3 minimum, only the last part smaller', async () => {
+    const s3 = mockS3();
+    const data = randomBytes(12 * MIB + 100);
+
+    // A 1 MiB part size is raised to the minimum
+    const result = await uploadStreamMultipart(s3.client, TARGET, chunked(data, 700 * 1024), MIB);
+
+    expect(s3.parts.map((part) => part.length)).toEqual([5 * MIB, 5 * MIB, 2 * MIB + 100]);
+    expect(result).toEqual({ bytesWritten: data.length, partCount: 3, versionId: 'version-1' });
+    expect(s3.commands()).toEqual([
+      'CreateMultipartUploadCommand', 'UploadPartCommand', 'UploadPartCommand', 'UploadPartCommand', 'CompleteMultipartUploadCommand',
+    ]);
+    expect(s3.send.mock.calls[0][0].input).toEqual({
+      Bucket: TARGET.bucket,
+      Key: TARGET.key,
+      ContentType: 'application/octet-stream',
+      ContentEncoding: undefined,
+      Metadata: undefined,
+    });
+    expect(s3.send.mock.calls[4][0].input.MultipartUpload).toEqual({
+      Parts: [1, 2, 3].map((partNumber) => ({ ETag: `"etag-${partNumber}"`, PartNumber: partNumber })),
+    });
+  });
+
+  test('Round-trips binary content byte for byte, also through a transform stream', async () => {
+    const data = randomBytes(6 * MIB);
+    const s3 = mockS3();
+    await uploadStreamMultipart(s3.client, TARGET, chunked(data, 64 * 1024));
+    expect(Buffer.concat(s3.parts).equals(data)).toBe(true);
+
+    const gzipped = mockS3();
+    const result = await uploadStreamMultipart(gzipped.client, { ...TARGET, contentEncoding: 'gzip' }, chunked(data, 64 * 1024).pipe(createGzip()));
+    expect(result.bytesWritten).toBe(Buffer.concat(gzipped.parts).length);
+    expect((await streamToBuffer(Readable.from([Buffer.concat(gzipped.parts)]).pipe(createGunzip()))).equals(data)).toBe(true);
+  });
+
+  test('Uploads an empty body as a single empty part', async () => {
+    const s3 = mockS3();
+
+    const result = await uploadStreamMultipart(s3.client, TARGET, Readable.from([]));
+
+    expect(result).toEqual({ bytesWritten: 0, partCount: 1, versionId: 'version-1' });
+    expect(s3.parts).toEqual([Buffer.alloc(0)]);
+    expect(s3.commands()).toEqual(['CreateMultipartUploadCommand', 'UploadPartCommand', 'CompleteMultipartUploadCommand']);
+  });
+
+  test('Aborts the multipart upload when the body fails', async () => {
+    const s3 = mockS3();
+    // The connection drops after the first part is complete
+    let reads = 0;
+    const body = new Readable({
+      read() {
+        if (reads++ === 0) {
+          this.push(randomBytes(6 * MIB));
+        } else {
+          this.destroy(new Error('Socket reset'));
+        }
+      },
+    });
+
+    await expect(uploadStreamMultipart(s3.client, TARGET, body, 5 * MIB)).rejects.toThrow('Socket reset');
+
+    expect(s3.commands()).toEqual(['CreateMultipartUploadCommand', 'UploadPartCommand', 'AbortMultipartUploadCommand']);
+    expect(s3.send.mock.calls[2][0].input).toEqual({ Bucket: TARGET.bucket, Key: TARGET.key, UploadId: 'upload-1' });
+  });
+
+  test('Aborts the multipart upload when the transform fails', async () => {
+    const s3 = mockS3();
+    let chunks = 0;
+    const failing = new Transform({
+      transform(chunk, _encoding, callback) {
+        chunks++;
+        callback(chunks > 2 ? new Error('Invalid record') : null, chunk);
+      },
+    });
+
+    await expect(uploadStreamMultipart(s3.client, TARGET, chunked(randomBytes(MIB), 64 * 1024).pipe(failing))).rejects.toThrow('Invalid record');
+
+    expect(s3.commands()).toEqual(['CreateMultipartUploadCommand', 'AbortMultipartUploadCommand']);
+  });
+
+  test('Aborts the multipart upload when a part upload fails and keeps the original error', async () => {
+    // A failing abort is only logged
+    const s3 = mockS3({ failPart: 2, failAbort: true });
+
+    await expect(uploadStreamMultipart(s3.client, TARGET, chunked(randomBytes(11 * MIB), MIB))).rejects.toThrow('UploadPart failed');
+
+    expect(s3.commands()).toEqual(['CreateMultipartUploadCommand', 'UploadPartCommand', 'UploadPartCommand', 'AbortMultipartUploadCommand']);
+  });
+});
@@ -0,0 +1,179 @@
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { gunzipSync } from 'zlib';
+import { streamToBuffer } from '../lambda/streaming';
+import { StreamTransformOutput, TransformerRegistry, createRegistryFromEnv } from '../lambda/transformers';
+import { BUILT_IN_TRANSFORMERS } from '../src/transformers';
+
+const registry = new TransformerRegistry();
+
+function transform(name: string, body: string | Buffer, options?: Record<string, unknown>, contentType?: string) {
+  return registry.get(name).transform({ key: 'in/file.txt', contentType, body: Buffer.from(body), options });
+}
+
+/**
+ * Streams the body through the transformer's createStream() in chunks of the given size
+ */
+async function transformStream(name: string, body: string | Buffer, chunkSize: number, options?: Record<string, unknown>, contentType?: string) {
+  const data = Buffer.from(body);
+  const chunks: Buffer[] = [];
+  for (let offset = 0; offset < data.length; offset += chunkSize) {
+    chunks.push(data.subarray(offset, offset + chunkSize));
+  }
+  const output: StreamTransformOutput = registry.get(name).createStream!({ key: 'in/file.txt', contentType, options });
+  const result = streamToBuffer(output.stream);
+  await pipeline(Readable.from(chunks), output.stream);
+  return { ...output, body: await result };
+}
+
+describe('Transformers', () => {
+  test('Registers every built-in transformer StackRps validates against', () => {
+    BUILT_IN_TRANSFORMERS.forEach((name) => expect(registry.get(name).name).toBe(name));
+    expect(() => registry.get('xml')).toThrow('Unknown transformer: xml');
+  });
+
+  test('Header prepends the processing header, buffered and streaming', async () => {
+    const header = /^# Processed by dev at \d{4}-\d{2}-\d{2}T[\d:.]+Z\n# Source: in\/file.txt\n\n/;
+
+    const buffered = transform('header', 'a,b\n', { processedBy: 'dev' }).body.toString();
+    expect(buffered).toMatch(header);
+    expect(buffered.replace(header, '')).toBe('a,b\n');
+
+    const streamed = await transformStream('header', 'line 1\nline 2\n', 4, { processedBy: 'dev' });
+    expect(streamed.body.toString()).toMatch(header);
+    expect(streamed.body.toString().replace(header, '')).toBe('line 1\nline 2\n');
+    // Empty objects still get the header
+    expect((await transformStream('header', '', 4, { processedBy: 'dev' })).body.toString()).toMatch(header);
+    // Text content types, with parameters
+    expect(transform('header', '{}', { processedBy: 'dev' }, 'application/json').body.toString()).toMatch(header);
+    expect(transform('header', 'a', { processedBy: 'dev' }, 'text/csv; charset=utf-8').body.toString()).toMatch(header);
+    expect(transform('header', '<a/>', { processedBy: 'dev' }, 'application/atom+xml').body.toString()).toMatch(header);
+  });
+
+  test('Header passes non-text content through unchanged, buffered and streaming', async () => {
+    const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0xff]);
+
+    for (const contentType of ['image/png', 'application/octet-stream', 'binary/octet-stream', 'application/gzip']) {
+      expect(transform('header', png, { processedBy: 'dev' }, contentType)).toEqual({ body: png });
+      expect((await transformStream('header', png, 3, { processedBy: 'dev' }, contentType)).body).toEqual(png);
+    }
+  });
+
+  test('Passthrough leaves the body untouched', async () => {
+    const binary = Buffer.from([0x00, 0xff, 0x10, 0x80]);
+    expect(transform('passthrough', binary)).toEqual({ body: binary });
+    expect((await transformStream('passthrough', binary, 3)).body).toEqual(binary);
+  });
+
+  test('CSV strips the BOM, unifies line endings, trims unquoted cells and drops blank lines', async () => {
+    // Quoted cells are kept verbatim
+    const input = '\uFEFFid , name\r\n1 ,  "  Ada "\r\n\r\n2 ,Grace\n';
+    const expected = 'id,name\n1,  "  Ada "\n2,Grace\n';
+
+    expect(transform('csv', input)).toEqual({ body: Buffer.from(expected), contentType: 'text/csv' });
+    expect(transform('csv', 'a ; b\n', { delimiter: ';' }).body.toString()).toBe('a;b\n');
+
+    // Chunks cut through lines, the CRLF pairs and the multi-byte BOM
+    for (const chunkSize of [1, 2, 5, 64]) {
+      const streamed = await transformStream('csv', input, chunkSize);
+      expect(streamed.body.toString()).toBe(expected);
+      expect(streamed.contentType).toBe('text/csv');
+    }
+  });
+
+  test('CSV streams split lines on CR-only line endings too', async () => {
+    const input = 'id , name\r1,Ada\r2 ,Grace\r';
+
+    expect(transform('csv', input).body.toString()).toBe('id,name\n1,Ada\n2,Grace\n');
+    for (const chunkSize of [1, 4, 64]) {
+      expect((await transformStream('csv', input, chunkSize)).body.toString()).toBe('id,name\n1,Ada\n2,Grace\n');
+    }
+
+    // Lines are emitted as soon as their CR arrives, not only when the stream ends
+    const stream = registry.get('csv').createStream!({ key: 'in/file.csv' }).stream;
+    const emitted: string[] = [];
+    stream.on('data', (chunk: Buffer) => emitted.push(chunk.toString()));
+    stream.write('a ,b\rc');
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(emitted).toEqual(['a,b\n']);
+    stream.end();
+  });
+
+  test('JSON schema validates type, required and nested properties', () => {
+    const schema = {
+      type: 'object',
+      required: ['id', 'items'],
+      properties: {
+        id: { type: 'integer' },
+        items: { type: 'array', items: { type: 'object', required: ['sku'] } },
+      },
+    };
+    const valid = '{"id": 1, "items": [{"sku": "A-1"}]}';
+
+    expect(transform('json-schema', valid, { schema })).toEqual({ body: Buffer.from(valid), contentType: 'application/json' });
+    expect(() => transform('json-schema', '{"id": 1.5, "items": [{}]}', { schema }))
+      .toThrow('JSON schema validation failed: $.id must be of type integer; $.items[0].sku is required');
+    expect(() => transform('json-schema', '{"id": 1}', { schema })).toThrow('$.items is required');
+    expect(() => transform('json-schema', '{"id": ', { schema })).toThrow('Invalid JSON: ');
+    // Object keys are logged at debug level only - never part of the error
+    expect(() => transform('json-schema', '{"id": ', { schema })).not.toThrow('in/file.txt');
+    // Without a schema only the syntax is checked
+    expect(transform('json-schema', '[1, 2]').contentType).toBe('application/json');
+    // Needs the whole document - no streaming
+    expect(registry.get('json-schema').createStream).toBeUndefined();
+  });
+
+  test('Gzip compresses to a body that decompresses to the input, buffered and streaming', async () => {
+    const input = 'compressible '.repeat(1000);
+
+    const buffered = transform('gzip', input);
+    expect(buffered.contentEncoding).toBe('gzip');
+    expect(buffered.body.length).toBeLessThan(input.length);
+    expect(gunzipSync(buffered.body).toString()).toBe(input);
+
+    const streamed = await transformStream('gzip', input, 1000);
+    expect(streamed.contentEncoding).toBe('gzip');
+    expect(gunzipSync(streamed.body).toString()).toBe(input);
+  });
+});
+
+describe('Transformer routing', () => {
+  const routing = new TransformerRegistry([
+    { keyPrefix: 'orders/', extension: 'csv', transformer: 'csv', options: { delimiter: ';' } },
+    { contentType: 'application/json', transformer: 'json-schema' },
+    { keyPrefix: 'archive/', transformer: 'gzip' },
+  ], 'passthrough');
+
+  test('First rule whose matchers all match wins', () => {
+    expect(routing.resolve('orders/2026/march.CSV')).toEqual({ transformer: registry.get('csv'), options: { delimiter: ';' } });
+    // Prefix matches, extension does not
+    expect(routing.resolve('orders/2026/march.json').transformer.name).toBe('passthrough');
+    // Content type parameters and case are ignored
+    expect(routing.resolve('orders/march.json', 'Application/JSON; charset=utf-8').transformer.name).toBe('json-schema');
+    expect(routing.resolve('archive/data.json', 'application/json').transformer.name).toBe('json-schema');
+    expect(routing.resolve('archive/data.json').transformer.name).toBe('gzip');
+  });
+
+  test('Falls back to the default transformer', () => {
+    expect(routing.resolve('other/file.bin', 'application/octet-stream')).toEqual({ transformer: registry.get('passthrough') });
+    expect(new TransformerRegistry().resolve('file.txt').transformer.name).toBe('header');
+  });
+
+  test('Unknown transformer names fail on resolve', () => {
+    expect(() => new TransformerRegistry([{ keyPrefix: 'x/', transformer: 'xml' }]).resolve('x/file.xml')).toThrow('Unknown transformer: xml');
+    expect(() => new TransformerRegistry([], 'xml').resolve('file.xml')).toThrow('Unknown transformer: xml');
+  });
+
+  test('Builds the registry from TRANSFORMER_ROUTES and DEFAULT_TRANSFORMER', () => {
+    const fromEnv = createRegistryFromEnv({
+      TRANSFORMER_ROUTES: JSON.stringify([{ extension: '.csv', transformer: 'csv' }]),
+      DEFAULT_TRANSFORMER: 'gzip',
+    });
+    expect(fromEnv.resolve('in/data.csv').transformer.name).toBe('csv');
+    expect(fromEnv.resolve('in/data.txt').transformer.name).toBe('gzip');
+
+    expect(createRegistryFromEnv({}).resolve('in/data.csv').transformer.name).toBe('header');
+    expect(createRegistryFromEnv({ DEFAULT_TRANSFORMER: '' }).resolve('in/data.csv').transformer.name).toBe('header');
+    expect(() => createRegistryFromEnv({ TRANSFORMER_ROUTES: '[{' })).toThrow('TRANSFORMER_ROUTES is not valid JSON');
+  });
+});